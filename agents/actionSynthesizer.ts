@@ -13,15 +13,25 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import type {
 	TestFailureFacts,
 	FailureCategory,
 	ArtifactSignals,
 	SelectorAnalysis,
 	FinalDiagnosis,
+	RunContext,
+	ClassificationRule,
 } from "@/types/schemas";
 import { FinalDiagnosisSchema } from "@/types/schemas";
+import {
+	analyzeTestOutput,
+	describeOutputFindings,
+	findBackendError,
+} from "@/tools/analyzeTestOutput";
+import { describeRunContext } from "@/tools/runContext";
+import { describeCategory } from "@/tools/failureTaxonomy";
+import { findClassificationRule } from "@/tools/classificationRules";
+import { getModel } from "@/tools/modelRegistry";
 
 /**
  * Input for Action Synthesis Agent
@@ -31,6 +41,8 @@ export interface ActionSynthesizerInput {
 	failureCategory: FailureCategory;
 	artifactSignals: ArtifactSignals | null;
 	selectorAnalysis: SelectorAnalysis | null;
+	runContext?: RunContext | null; // Run configuration from the report
+	rules?: ClassificationRule[]; // User rules; their verdict and action win
 }
 
 /**
@@ -38,14 +50,58 @@ export interface ActionSynthesizerInput {
  */
 export type ActionSynthesizerOutput = FinalDiagnosis | null;
 
+/**
+ * Diagnosis from the heuristics, with how sure they are of it
+ */
+interface HeuristicDiagnosis {
+	diagnosis: FinalDiagnosis;
+	confidence: number; // 0-1
+}
+
+/**
+ * Heuristic confidence from which the LLM is not consulted
+ */
+const HEURISTIC_CONFIDENCE_THRESHOLD = 0.8;
+
 /**
  * Synthesize a final diagnosis and recommended action
  *
+ * A user rule that classified the failure overrides the verdict, action and
+ * urgency it sets; with both a verdict and an action it decides alone.
+ *
  * @param input - All agent outputs combined
  * @returns Final diagnosis or null if insufficient data
  */
 export async function synthesizeAction(
 	input: ActionSynthesizerInput,
+): Promise<ActionSynthesizerOutput> {
+	const rule = findClassificationRule(
+		input.rules,
+		input.failureCategory.ruleId,
+	);
+	if (rule?.verdict && rule.action) {
+		const diagnosis: FinalDiagnosis = {
+			verdict: rule.verdict,
+			recommendedAction: rule.action,
+			urgency: rule.urgency || "medium",
+			reason: `Rule "${rule.id}" sets the verdict and action. ${input.failureCategory.reasoning}`,
+		};
+		console.log(
+			`[ActionSynthesizer] Using the verdict of rule "${rule.id}":`,
+			diagnosis,
+		);
+		return diagnosis;
+	}
+
+	const diagnosis = await synthesizeDiagnosis(input);
+	return rule && diagnosis ? withRuleOverride(diagnosis, rule) : diagnosis;
+}
+
+/**
+ * Synthesize a diagnosis from the rules, or the LLM
+ */
+async function synthesizeDiagnosis(
+	input: ActionSynthesizerInput,
 ): Promise<ActionSynthesizerOutput> {
 	const { failureFacts, failureCategory, artifactSignals, selectorAnalysis } =
 		input;
@@ -58,12 +114,20 @@ export async function synthesizeAction(
 	});
 
 	// Step 1: Apply rule-based heuristics first
-	const heuristicResult = applyHeuristics(input);
+	const heuristic = applyHeuristics(input);
+	const heuristicResult = withProjectResults(
+		heuristic?.diagnosis ?? null,
+		failureFacts,
+	);
 
 	// Step 2: If we have a high-confidence heuristic result, use it
-	if (heuristicResult && heuristicResult.confidence >= 0.8) {
+	if (
+		heuristic &&
+		heuristicResult &&
+		heuristic.confidence >= HEURISTIC_CONFIDENCE_THRESHOLD
+	) {
 		console.log(
-			"[ActionSynthesizer] Using high-confidence heuristic result:",
+			`[ActionSynthesizer] Using high-confidence heuristic result (${(heuristic.confidence * 100).toFixed(0)}%):`,
 			heuristicResult,
 		);
 		return heuristicResult;
@@ -93,29 +157,119 @@ export async function synthesizeAction(
 
 /**
  * Apply rule-based heuristics to determine verdict and action
+ *
+ * @returns Diagnosis with its confidence, or null if no heuristic matches
  */
-function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
-	const { failureCategory, artifactSignals, selectorAnalysis } = input;
+function applyHeuristics(
+	input: ActionSynthesizerInput,
+): HeuristicDiagnosis | null {
+	const { failureFacts, failureCategory, artifactSignals, selectorAnalysis } =
+		input;
+
+	// Rule 0: Flaky (passed on retry, or marked @flaky) → intermittent, not a
+	// hard failure
+	const flakyEvidence =
+		failureFacts.outcome === "flaky"
+			? `Test passed on retry (${describeAttempts(failureFacts)})`
+			: isMarkedFlaky(failureFacts)
+				? "Test is marked as flaky"
+				: null;
+	if (flakyEvidence) {
+		if (
+			failureCategory.category === "navigation_error" ||
+			failureCategory.category === "auth_error" ||
+			artifactSignals?.pageState === "error"
+		) {
+			return {
+				diagnosis: {
+					verdict: "app_issue",
+					recommendedAction: "investigate intermittent app failure",
+					urgency: "medium",
+					reason: `${flakyEvidence} but the failed attempt hit a ${failureCategory.category} error. The application fails intermittently; check server logs around the failed attempt.`,
+				},
+				confidence: 0.7,
+			};
+		}
+
+		return {
+			diagnosis: {
+				verdict: "test_issue",
+				recommendedAction: "fix flaky test",
+				urgency: "low",
+				reason: `${flakyEvidence}, so the failure is intermittent. Look for timing dependencies such as missing waits, animations or shared test data.`,
+			},
+			confidence: 0.85,
+		};
+	}
+
+	// Rule 0.5: Known issue annotation → already tracked
+	const knownIssue = failureFacts.annotations?.find(
+		(annotation) => annotation.type === "issue" || annotation.type === "bug",
+	);
+	if (knownIssue) {
+		return {
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "check known issue",
+				urgency: "low",
+				reason: `Test is annotated with a known issue${knownIssue.description ? ` (${knownIssue.description})` : ""}. Check whether this failure matches it before investigating further.`,
+			},
+			confidence: 0.7,
+		};
+	}
+
+	// Rule 0.6: Backend error in the test output → app_issue
+	const backendError = findBackendError(analyzeTestOutput(failureFacts));
+	if (backendError) {
+		return {
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "investigate backend",
+				urgency: "high",
+				reason: `The test logged a backend error: "${backendError}". The UI failure most likely follows from it; check the backend service and its logs.`,
+			},
+			confidence: 0.8,
+		};
+	}
+
+	// Rule 0.7: Failure outside the test body → fix the setup, fixture or
+	// hook it happened in
+	const scopeDiagnosis = diagnoseScope(failureFacts, failureCategory);
+	if (scopeDiagnosis) {
+		return scopeDiagnosis;
+	}
+
+	// Rule 0.8: Specific failure type → its own handling
+	const subcategoryDiagnosis = diagnoseSubcategory(failureCategory);
+	if (subcategoryDiagnosis) {
+		return subcategoryDiagnosis;
+	}
 
 	// Rule 1: Navigation errors → app_issue
 	if (failureCategory.category === "navigation_error") {
 		return {
-			verdict: "app_issue",
-			recommendedAction: "investigate app",
-			urgency: "high",
-			reason:
-				"Navigation error indicates an application issue. Check server logs, network connectivity, and application health.",
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "investigate app",
+				urgency: "high",
+				reason:
+					"Navigation error indicates an application issue. Check server logs, network connectivity, and application health.",
+			},
+			confidence: 0.7,
 		};
 	}
 
 	// Rule 2: Auth errors → app_issue (usually) or environment issue
 	if (failureCategory.category === "auth_error") {
 		return {
-			verdict: "app_issue",
-			recommendedAction: "check environment",
-			urgency: "high",
-			reason:
-				"Authentication error suggests an application or environment configuration issue. Verify credentials, session management, and auth service status.",
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "check environment",
+				urgency: "high",
+				reason:
+					"Authentication error suggests an application or environment configuration issue. Verify credentials, session management, and auth service status.",
+			},
+			confidence: 0.6,
 		};
 	}
 
@@ -134,22 +288,28 @@ function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
 				selectorAnalysis.selectorQuality === "poor")
 		) {
 			return {
-				verdict: "test_issue",
-				recommendedAction: selectorAnalysis.suggestedSelector
-					? "fix selector"
-					: "review selector strategy",
-				urgency: "medium",
-				reason: `Fragile selector detected (quality: ${selectorAnalysis.selectorQuality}). Page loaded successfully but element not found, indicating a test selector issue. ${selectorAnalysis.suggestedSelector ? `Suggested: ${selectorAnalysis.suggestedSelector}` : ""}`,
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: selectorAnalysis.suggestedSelector
+						? "fix selector"
+						: "review selector strategy",
+					urgency: "medium",
+					reason: `Fragile selector detected (quality: ${selectorAnalysis.selectorQuality}). Page loaded successfully but element not found, indicating a test selector issue. ${selectorAnalysis.suggestedSelector ? `Suggested: ${selectorAnalysis.suggestedSelector}` : ""}`,
+				},
+				confidence: 0.85,
 			};
 		}
 
 		// Even without fragile selector, if page loaded and element missing, likely test issue
 		return {
-			verdict: "test_issue",
-			recommendedAction: "fix selector",
-			urgency: "medium",
-			reason:
-				"Page loaded successfully but element not found in DOM. This suggests the selector may be incorrect or the element structure changed.",
+			diagnosis: {
+				verdict: "test_issue",
+				recommendedAction: "fix selector",
+				urgency: "medium",
+				reason:
+					"Page loaded successfully but element not found in DOM. This suggests the selector may be incorrect or the element structure changed.",
+			},
+			confidence: 0.7,
 		};
 	}
 
@@ -163,10 +323,13 @@ function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
 		)
 	) {
 		return {
-			verdict: "app_issue",
-			recommendedAction: "investigate app",
-			urgency: "high",
-			reason: `Element not found but blocking factors detected: ${artifactSignals.blockingFactors.join(", ")}. This suggests the application may not be rendering correctly.`,
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "investigate app",
+				urgency: "high",
+				reason: `Element not found but blocking factors detected: ${artifactSignals.blockingFactors.join(", ")}. This suggests the application may not be rendering correctly.`,
+			},
+			confidence: 0.7,
 		};
 	}
 
@@ -178,11 +341,14 @@ function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
 			artifactSignals.pageState === "timeout")
 	) {
 		return {
-			verdict: "app_issue",
-			recommendedAction: "increase timeout",
-			urgency: "medium",
-			reason:
-				"Page failed to load within timeout period. This could indicate slow network, slow application response, or resource loading issues.",
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "increase timeout",
+				urgency: "medium",
+				reason:
+					"Page failed to load within timeout period. This could indicate slow network, slow application response, or resource loading issues.",
+			},
+			confidence: 0.6,
 		};
 	}
 
@@ -194,11 +360,14 @@ function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
 		!artifactSignals.uiState.includes("error")
 	) {
 		return {
-			verdict: "test_issue",
-			recommendedAction: "review test logic",
-			urgency: "medium",
-			reason:
-				"Assertion failed but page loaded correctly. This suggests the test expectations may be incorrect or the test logic needs review.",
+			diagnosis: {
+				verdict: "test_issue",
+				recommendedAction: "review test logic",
+				urgency: "medium",
+				reason:
+					"Assertion failed but page loaded correctly. This suggests the test expectations may be incorrect or the test logic needs review.",
+			},
+			confidence: 0.6,
 		};
 	}
 
@@ -209,12 +378,15 @@ function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
 			selectorAnalysis.selectorQuality === "poor")
 	) {
 		return {
-			verdict: "test_issue",
-			recommendedAction: selectorAnalysis.suggestedSelector
-				? "fix selector"
-				: "review selector strategy",
-			urgency: "low",
-			reason: `Fragile selector detected (quality: ${selectorAnalysis.selectorQuality}). Consider using a more stable selector. ${selectorAnalysis.suggestedSelector ? `Suggested: ${selectorAnalysis.suggestedSelector}` : ""}`,
+			diagnosis: {
+				verdict: "test_issue",
+				recommendedAction: selectorAnalysis.suggestedSelector
+					? "fix selector"
+					: "review selector strategy",
+				urgency: "low",
+				reason: `Fragile selector detected (quality: ${selectorAnalysis.selectorQuality}). Consider using a more stable selector. ${selectorAnalysis.suggestedSelector ? `Suggested: ${selectorAnalysis.suggestedSelector}` : ""}`,
+			},
+			confidence: 0.6,
 		};
 	}
 
@@ -228,10 +400,13 @@ function applyHeuristics(input: ActionSynthesizerInput): FinalDiagnosis | null {
 		)
 	) {
 		return {
-			verdict: "app_issue",
-			recommendedAction: "investigate app",
-			urgency: "high",
-			reason: `Page failed to load with errors: ${artifactSignals.blockingFactors.filter((f) => f.includes("network") || f.includes("error")).join(", ")}. This indicates an application or infrastructure issue.`,
+			diagnosis: {
+				verdict: "app_issue",
+				recommendedAction: "investigate app",
+				urgency: "high",
+				reason: `Page failed to load with errors: ${artifactSignals.blockingFactors.filter((f) => f.includes("network") || f.includes("error")).join(", ")}. This indicates an application or infrastructure issue.`,
+			},
+			confidence: 0.75,
 		};
 	}
 
@@ -248,6 +423,7 @@ async function synthesizeWithLLM(
 ): Promise<FinalDiagnosis> {
 	const { failureFacts, failureCategory, artifactSignals, selectorAnalysis } =
 		input;
+	const runConfig = describeRunContext(input.runContext, failureFacts);
 
 	// Build comprehensive context
 	const context = `
@@ -257,12 +433,34 @@ Test Failure Context:
 - Failed Step: ${failureFacts.failedStep}
 - Error: ${failureFacts.error}
 ${failureFacts.timeout ? `- Timeout: ${failureFacts.timeout}ms` : ""}
+${failureFacts.outcome ? `- Outcome: ${failureFacts.outcome} (${describeAttempts(failureFacts)})` : ""}
+${failureFacts.projectName ? `- Project: ${failureFacts.projectName}` : ""}
+${failureFacts.tags ? `- Tags: ${failureFacts.tags.join(", ")}` : ""}
+${failureFacts.annotations ? `- Annotations: ${failureFacts.annotations.map((a) => (a.description ? `${a.type} (${a.description})` : a.type)).join(", ")}` : ""}
+${describeProjectResults(failureFacts) ? `- Other Projects: ${describeProjectResults(failureFacts)}` : ""}
+${failureFacts.scope && failureFacts.scope !== "test" ? `- Scope: ${failureFacts.scopeName || failureFacts.scope} (failed outside the test body)` : ""}
+${failureFacts.affectedTests ? `- Affected Tests: ${failureFacts.affectedTests.length} dependent tests failed with it` : ""}
+
+${runConfig.length > 0 ? `Run Configuration:\n${runConfig.map((line) => `- ${line}`).join("\n")}` : "Run Configuration: Not available"}
 
 Failure Category:
-- Category: ${failureCategory.category}
+- Category: ${describeCategory(failureCategory)}
 - Confidence: ${(failureCategory.confidence * 100).toFixed(0)}%
 - Reasoning: ${failureCategory.reasoning}
-
+${
+	failureCategory.candidates && failureCategory.candidates.length > 1
+		? `
+Alternative Categories (ranked):
+${failureCategory.candidates
+	.slice(1)
+	.map(
+		(candidate) =>
+			`- ${candidate.category}${candidate.subcategory ? ` > ${candidate.subcategory}` : ""} (${(candidate.confidence * 100).toFixed(0)}%): ${candidate.evidence.join("; ") || "no evidence recorded"}`,
+	)
+	.join("\n")}
+`
+		: ""
+}
 ${
 	artifactSignals
 		? `
@@ -274,6 +472,16 @@ UI State Analysis:
 		: "UI State Analysis: Not available (trace.zip required)"
 }
 
+Test Output (stdout, stderr, console logs):
+${
+	(
+		artifactSignals?.testOutput ??
+		describeOutputFindings(analyzeTestOutput(failureFacts))
+	)
+		.map((line) => `- ${line}`)
+		.join("\n") || "No errors logged"
+}
+
 ${
 	selectorAnalysis
 		? `
@@ -313,12 +521,13 @@ Based on ALL the information above, determine:
    - "unclear": Insufficient information or conflicting signals
 
 2. **recommendedAction**: A specific, actionable recommendation. Common actions include:
-   - "retry" - for potentially flaky tests
+   - "retry" - for potentially flaky tests (not when the outcome is "failed-consistently": retries already failed)
    - "fix selector" - when selector is wrong or fragile
    - "increase timeout" - for slow page loads
    - "investigate app" - for application bugs or errors
    - "check environment" - for auth, config, or environment issues
    - "review test logic" - for assertion failures or test design issues
+   - "make locator unique", "dismiss overlay", "wait for animation", "isolate test data", "review screenshot diff", "fix environment" - for the matching failure subcategories
    - Or a custom specific action if needed
 
 3. **urgency**: 
@@ -331,11 +540,13 @@ Based on ALL the information above, determine:
    - Justifies the recommended action
    - References specific signals that led to this conclusion
 
+Honor the test metadata: a test tagged @flaky is known to be intermittent, an "issue" annotation links a known bug, and "slow" means the test is expected to take long. When the test fails on some projects (browsers) but passes on others, say so and treat the cause as browser-specific. When the failure is outside the test body (hook, fixture, global setup, worker), recommend fixing it there.
+
 Be decisive but honest. If the signals are conflicting or insufficient, choose "unclear" rather than guessing. Prioritize actionable recommendations over vague advice.`;
 
 	try {
 		const result = await generateText({
-			model: openai("gpt-4o"),
+			model: await getModel("actionSynthesizer"),
 			output: Output.object({
 				schema: zodSchema(FinalDiagnosisSchema),
 			}),
@@ -349,6 +560,346 @@ Be decisive but honest. If the signals are conflicting or insufficient, choose "
 	}
 }
 
+/**
+ * Combine the diagnoses of the errors of one failure into a single verdict
+ *
+ * One application problem makes the whole failure an app_issue; urgency is
+ * the highest of the errors.
+ *
+ * @param diagnoses - Diagnosis of each error, first error first
+ * @returns Combined diagnosis
+ */
+export function combineDiagnoses(diagnoses: FinalDiagnosis[]): FinalDiagnosis {
+	if (diagnoses.length === 1) {
+		return diagnoses[0];
+	}
+
+	const urgencyRank = { low: 0, medium: 1, high: 2 };
+	const verdict: FinalDiagnosis["verdict"] = diagnoses.some(
+		(d) => d.verdict === "app_issue",
+	)
+		? "app_issue"
+		: diagnoses.some((d) => d.verdict === "test_issue")
+			? "test_issue"
+			: "unclear";
+
+	// The most urgent error with the combined verdict leads
+	const lead = diagnoses
+		.filter((d) => d.verdict === verdict)
+		.sort((a, b) => urgencyRank[b.urgency] - urgencyRank[a.urgency])[0];
+	const urgency = diagnoses.reduce<FinalDiagnosis["urgency"]>(
+		(max, d) => (urgencyRank[d.urgency] > urgencyRank[max] ? d.urgency : max),
+		"low",
+	);
+
+	return {
+		verdict,
+		recommendedAction: lead.recommendedAction,
+		urgency,
+		reason: `${diagnoses.length} errors. ${diagnoses.map((d, i) => `Error ${i + 1} (${d.verdict}, ${d.recommendedAction}): ${d.reason}`).join(" ")}`,
+	};
+}
+
+/**
+ * Diagnose a failure by its scope: global setup, worker, fixture or hook
+ *
+ * @returns Diagnosis with its confidence, or null for test body failures and hook failures the
+ * category rules handle better (e.g. a selector in a beforeEach hook)
+ */
+function diagnoseScope(
+	failureFacts: TestFailureFacts,
+	failureCategory: FailureCategory,
+): HeuristicDiagnosis | null {
+	const { scope, affectedTests } = failureFacts;
+	const scopeName = failureFacts.scopeName || scope;
+	const category = failureCategory.category;
+
+	switch (scope) {
+		case "global": {
+			const affected = affectedTests?.length
+				? ` ${affectedTests.length} test${affectedTests.length > 1 ? "s" : ""} that depend on it failed with it and are not diagnosed separately.`
+				: "";
+			return {
+				diagnosis: {
+					verdict: category === "navigation_error" ? "app_issue" : "test_issue",
+					recommendedAction: "fix global setup",
+					urgency: "high",
+					reason: `${scopeName} failed before the tests ran: ${failureCategory.reasoning}${affected} Fix it first, then rerun the suite.`,
+				},
+				confidence: 0.9,
+			};
+		}
+
+		case "worker":
+			return {
+				diagnosis: {
+					verdict: "unclear",
+					recommendedAction: "investigate worker crash",
+					urgency: "high",
+					reason:
+						"The worker process exited unexpectedly, which fails whatever test it was running. Check for out-of-memory kills, browser crashes and process.exit calls, and rerun with fewer workers to confirm.",
+				},
+				confidence: 0.85,
+			};
+
+		case "fixture":
+			if (category === "navigation_error") {
+				return null;
+			}
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "fix fixture",
+					urgency: "medium",
+					reason: `The failure happened in ${scopeName}, not in the test body: ${failureCategory.reasoning} Every test using the fixture is affected.`,
+				},
+				confidence: 0.8,
+			};
+
+		case "hook":
+			if (category !== "timeout" && category !== "auth_error") {
+				return null;
+			}
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "fix hook",
+					urgency: "medium",
+					reason: `The failure happened in the ${scopeName}, not in the test body: ${failureCategory.reasoning} Every test the hook prepares is affected.`,
+				},
+				confidence: 0.8,
+			};
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Apply the verdict, action and urgency a user rule sets
+ */
+function withRuleOverride(
+	diagnosis: FinalDiagnosis,
+	rule: ClassificationRule,
+): FinalDiagnosis {
+	if (!rule.verdict && !rule.action && !rule.urgency) {
+		return diagnosis;
+	}
+	return {
+		verdict: rule.verdict || diagnosis.verdict,
+		recommendedAction: rule.action || diagnosis.recommendedAction,
+		urgency: rule.urgency || diagnosis.urgency,
+		reason: `${diagnosis.reason} Rule "${rule.id}" sets the ${[
+			rule.verdict && "verdict",
+			rule.action && "action",
+			rule.urgency && "urgency",
+		]
+			.filter(Boolean)
+			.join(" and ")}.`,
+	};
+}
+
+/**
+ * Diagnose a failure by its subcategory
+ *
+ * @returns Diagnosis with its confidence, or null without a subcategory
+ */
+function diagnoseSubcategory(
+	failureCategory: FailureCategory,
+): HeuristicDiagnosis | null {
+	switch (failureCategory.subcategory) {
+		case "strict_mode_violation":
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "make locator unique",
+					urgency: "medium",
+					reason:
+						"The locator matched more than one element, and actions require exactly one. Narrow it down to the intended element with a role and name, a test id or a parent locator.",
+				},
+				confidence: 0.9,
+			};
+
+		case "element_detached":
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "use locators instead of element handles",
+					urgency: "medium",
+					reason:
+						"The element was removed from the DOM while the test used it, typically because the page re-rendered it. Locators are resolved again on every action; element handles are not.",
+				},
+				confidence: 0.85,
+			};
+
+		case "element_not_stable":
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "wait for animation",
+					urgency: "low",
+					reason:
+						"The element kept moving until the timeout (an animation or transition), so Playwright never considered it stable enough to act on. Wait for the end state, or disable animations in the test.",
+				},
+				confidence: 0.8,
+			};
+
+		case "pointer_intercepted":
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "dismiss overlay",
+					urgency: "medium",
+					reason:
+						"Another element (an overlay, modal or banner) covered the target and received the click. Close or wait for the overlay before the action; if the overlay should not be there, it is an application issue.",
+				},
+				confidence: 0.75,
+			};
+
+		case "page_crash":
+			return {
+				diagnosis: {
+					verdict: "unclear",
+					recommendedAction: "investigate page crash",
+					urgency: "high",
+					reason:
+						"The page or browser crashed during the test, which fails any step running at the time. Check for memory-heavy pages and rerun to see whether the crash is reproducible.",
+				},
+				confidence: 0.8,
+			};
+
+		case "page_error":
+			return {
+				diagnosis: {
+					verdict: "app_issue",
+					recommendedAction: "fix page error",
+					urgency: "high",
+					reason:
+						"An uncaught JavaScript error was thrown in the page. The application broke; the test reported it.",
+				},
+				confidence: 0.85,
+			};
+
+		case "network_error":
+			return {
+				diagnosis: {
+					verdict: "app_issue",
+					recommendedAction: "investigate network failure",
+					urgency: "high",
+					reason:
+						"An API request or network call failed. Check that the backend is up and reachable from the test environment, and its logs at the time of the failure.",
+				},
+				confidence: 0.8,
+			};
+
+		case "test_data_conflict":
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "isolate test data",
+					urgency: "medium",
+					reason:
+						"The test created data that already existed (a duplicate or already-taken value). Tests sharing fixed data collide when they run in parallel or rerun against the same database.",
+				},
+				confidence: 0.8,
+			};
+
+		case "visual_mismatch":
+			return {
+				diagnosis: {
+					verdict: "unclear",
+					recommendedAction: "review screenshot diff",
+					urgency: "medium",
+					reason:
+						"A screenshot did not match its baseline. Compare the expected, actual and diff images: an intended UI change needs updated baselines, anything else is a visual regression.",
+				},
+				confidence: 0.6,
+			};
+
+		case "environment_error":
+			return {
+				diagnosis: {
+					verdict: "test_issue",
+					recommendedAction: "fix environment",
+					urgency: "high",
+					reason:
+						"The test environment is not set up correctly (missing browsers, dependencies, modules or environment variables). No test can pass until it is fixed.",
+				},
+				confidence: 0.9,
+			};
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Check if a test is tagged @flaky or annotated as flaky
+ */
+function isMarkedFlaky(failureFacts: TestFailureFacts): boolean {
+	return (
+		!!failureFacts.tags?.some((tag) => tag.toLowerCase() === "@flaky") ||
+		!!failureFacts.annotations?.some(
+			(annotation) => annotation.type.toLowerCase() === "flaky",
+		)
+	);
+}
+
+/**
+ * Compare the outcome of the test across projects, e.g.
+ * "fails only on webkit (passed on chromium, firefox)"
+ *
+ * @returns Comparison, or null if the test ran in a single project
+ */
+function describeProjectResults(failureFacts: TestFailureFacts): string | null {
+	const results = failureFacts.projectResults || [];
+	const failedIn = results
+		.filter((r) => r.outcome === "failed" || r.outcome === "flaky")
+		.map((r) => r.projectName);
+	const passedIn = results
+		.filter((r) => r.outcome === "passed")
+		.map((r) => r.projectName);
+	if (results.length < 2 || failedIn.length === 0) {
+		return null;
+	}
+
+	return passedIn.length > 0
+		? `fails only on ${failedIn.join(", ")} (passed on ${passedIn.join(", ")})`
+		: `fails on every project (${failedIn.join(", ")})`;
+}
+
+/**
+ * Add the cross-project comparison to a heuristic diagnosis
+ */
+function withProjectResults(
+	diagnosis: FinalDiagnosis | null,
+	failureFacts: TestFailureFacts,
+): FinalDiagnosis | null {
+	const comparison = describeProjectResults(failureFacts);
+	if (!diagnosis || !comparison) {
+		return diagnosis;
+	}
+
+	const browserSpecific = comparison.startsWith("fails only on");
+	return {
+		...diagnosis,
+		reason: `${diagnosis.reason} The test ${comparison}, so the cause is ${browserSpecific ? "browser-specific" : "not browser-specific"}.`,
+	};
+}
+
+/**
+ * Describe the attempts of a test, e.g. "retry 0: failed, retry 1: passed"
+ */
+function describeAttempts(failureFacts: TestFailureFacts): string {
+	const attempts = failureFacts.attempts || [];
+	if (attempts.length === 0) {
+		return "no attempt history";
+	}
+	return attempts
+		.map((attempt) => `retry ${attempt.retry}: ${attempt.status}`)
+		.join(", ");
+}
+
 /**
  * Synthesize actions for multiple failures
  *
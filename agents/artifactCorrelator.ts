@@ -5,6 +5,7 @@
  * - Playwright traces (DOM snapshots, network events, actions)
  * - Screenshots (visual analysis)
  * - Page lifecycle events
+ * - Test output (stdout, stderr, console log attachments)
  *
  * Key Requirements:
  * - Tools-first approach: Extract signals from artifacts
@@ -14,14 +15,20 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import type {
 	TestFailureFacts,
 	ArtifactSignals,
 	PlaywrightArtifacts,
+	RunContext,
 } from "@/types/schemas";
 import { ArtifactSignalsSchema } from "@/types/schemas";
-import { readTraceZip, type TraceData } from "@/tools/readTrace";
+import { readTraceZip } from "@/tools/readTrace";
+import {
+	buildTraceIndex,
+	getActionByCallId,
+	type TraceIndex,
+} from "@/tools/traceIndex";
+import { resolveFailureAnchor } from "@/tools/resolveFailureAnchor";
 import {
 	extractDOMSnapshot,
 	checkElementVisibility,
@@ -38,6 +45,20 @@ import {
 	analyzeScreenshot,
 	type ScreenshotAnalysis,
 } from "@/tools/analyzeScreenshot";
+import { getFramesBeforeAndAfter, loadFrameImage } from "@/tools/screencast";
+import { scopeTraceToPage } from "@/tools/tracePages";
+import {
+	analyzeCallLog,
+	describeActionabilityFindings,
+	extractCallLog,
+	type ActionabilityFindings,
+} from "@/tools/analyzeCallLog";
+import {
+	analyzeTestOutput,
+	describeOutputFindings,
+} from "@/tools/analyzeTestOutput";
+import { describeRunContext } from "@/tools/runContext";
+import { getModel } from "@/tools/modelRegistry";
 
 /**
  * Input for Artifact Correlation Agent
@@ -45,6 +66,9 @@ import {
 export interface ArtifactCorrelatorInput {
 	failureFacts: TestFailureFacts;
 	artifacts: PlaywrightArtifacts;
+	traceIndex?: TraceIndex; // Shared index; the trace is read if not given
+	domSnapshot?: DOMSnapshot | null; // Snapshot already extracted for this failure
+	runContext?: RunContext | null; // Run configuration from the report
 }
 
 /**
@@ -64,22 +88,40 @@ export async function correlateArtifacts(
 	const { failureFacts, artifacts } = input;
 
 	// Check if trace is available (required for correlation)
-	if (!artifacts.traceZip) {
+	if (!input.traceIndex && !artifacts.traceZip) {
 		return null; // Insufficient data
 	}
 
 	try {
-		// Step 1: Read trace data
-		const traceData = await readTraceZip(artifacts.traceZip);
+		// Step 1: Use the shared trace index, or read the trace when called on its own
+		const traceIndex =
+			input.traceIndex ??
+			(artifacts.traceZip
+				? buildTraceIndex(await readTraceZip(artifacts.traceZip))
+				: null);
+		if (!traceIndex) {
+			return null;
+		}
+		// Anchor on this failure's own action (resolved in the pipeline, or
+		// here when called on its own)
+		const anchor =
+			failureFacts.failureAnchor ??
+			resolveFailureAnchor(traceIndex, failureFacts);
+		const failureTime = anchor.timestamp;
+
+		// Only look at the page the failing action ran against (popups, tabs)
+		const traceData = anchor.pageId
+			? scopeTraceToPage(traceIndex.traceData, anchor.pageId)
+			: traceIndex.traceData;
 
 		// Step 2: Extract DOM snapshot at failure point
-		// Use the most recent snapshot (closest to failure) or trace end time
-		const failureTime =
-			traceData.metadata?.endTime ||
-			(traceData.actions.length > 0
-				? Math.max(...traceData.actions.map((a) => a.timestamp))
-				: Date.now());
-		const domSnapshot = await extractDOMSnapshot(traceData, failureTime);
+		const domSnapshot =
+			input.domSnapshot !== undefined
+				? input.domSnapshot
+				: await extractDOMSnapshot(traceIndex, failureTime, {
+						callId: anchor.callId,
+						pageId: anchor.pageId,
+					});
 
 		// Step 3: Detect page lifecycle state
 		const pageLoadState = detectPageLoadState(traceData);
@@ -107,11 +149,32 @@ export async function correlateArtifacts(
 			? findBlockingElements(domSnapshot)
 			: [];
 
+		// Step 5b: Actionability findings from the failed call's log (falling
+		// back to the call log in the report error)
+		const failedCall = anchor.callId
+			? getActionByCallId(traceIndex, anchor.callId)
+			: null;
+		const actionability = analyzeCallLog(
+			failedCall?.log?.length
+				? failedCall.log
+				: extractCallLog(failureFacts.error),
+		);
+
+		// Step 5c: Backend errors and stack traces the test logged
+		const testOutput = describeOutputFindings(analyzeTestOutput(failureFacts));
+
 		// Step 6: Analyze screenshots if available
 		let screenshotAnalysis: ScreenshotAnalysis | null = null;
 		if (artifacts.screenshots && artifacts.screenshots.length > 0) {
 			// Use the first screenshot (usually the failure screenshot)
 			screenshotAnalysis = await analyzeScreenshot(artifacts.screenshots[0]);
+		} else {
+			// Fall back to the trace filmstrip around the failure
+			screenshotAnalysis = await analyzeScreencastFrames(
+				traceIndex,
+				failureTime,
+				anchor.pageId,
+			);
 		}
 
 		// Step 7: Synthesize signals using LLM
@@ -122,8 +185,11 @@ export async function correlateArtifacts(
 			redirects,
 			elementVisibility,
 			blockingElements,
+			actionability,
+			testOutput,
 			screenshotAnalysis,
 			domSnapshot,
+			runConfig: describeRunContext(input.runContext, failureFacts),
 		});
 
 		return signals;
@@ -141,6 +207,48 @@ export async function correlateArtifacts(
 	}
 }
 
+/**
+ * Analyze the screencast frames just before and just after the failure
+ *
+ * @param traceIndex - Trace index
+ * @param failureTime - Failure timestamp (trace time)
+ * @param pageId - Page the failure happened on
+ * @returns Combined analysis or null if the trace has no frames
+ */
+async function analyzeScreencastFrames(
+	traceIndex: TraceIndex,
+	failureTime: number,
+	pageId?: string,
+): Promise<ScreenshotAnalysis | null> {
+	const { before, after } = getFramesBeforeAndAfter(
+		traceIndex,
+		failureTime,
+		pageId,
+	);
+
+	const analyses: ScreenshotAnalysis[] = [];
+	for (const frame of [before, after]) {
+		if (!frame) continue;
+		const image = loadFrameImage(traceIndex, frame);
+		if (image) {
+			analyses.push(await analyzeScreenshot(image, "image/jpeg"));
+		}
+	}
+
+	if (analyses.length === 0) {
+		return null;
+	}
+
+	// Page state from the latest frame; elements seen in either frame
+	return {
+		pageState: analyses[analyses.length - 1].pageState,
+		blockingElements: [...new Set(analyses.flatMap((a) => a.blockingElements))],
+		visibleContent: [...new Set(analyses.flatMap((a) => a.visibleContent))],
+		confidence:
+			analyses.reduce((sum, a) => sum + a.confidence, 0) / analyses.length,
+	};
+}
+
 /**
  * Internal structure for signal synthesis
  */
@@ -155,8 +263,11 @@ interface SignalSynthesisInput {
 		reason?: string;
 	} | null;
 	blockingElements: ReturnType<typeof findBlockingElements>;
+	actionability: ActionabilityFindings;
+	testOutput: string[];
 	screenshotAnalysis: ScreenshotAnalysis | null;
 	domSnapshot: DOMSnapshot | null;
+	runConfig: string[];
 }
 
 /**
@@ -172,15 +283,22 @@ async function synthesizeSignals(
 		redirects,
 		elementVisibility,
 		blockingElements,
+		actionability,
+		testOutput,
 		screenshotAnalysis,
+		runConfig,
 	} = input;
 
+	// Call log findings name the exact problem Playwright saw
+	const actionabilityFactors = describeActionabilityFindings(actionability);
+
 	// Build context for LLM
 	const context = `
 Test Failure Context:
 - Test: ${failureFacts.testName}
 - Failed Step: ${failureFacts.failedStep}
 - Error: ${failureFacts.error}
+${runConfig.map((line) => `- ${line}`).join("\n")}
 
 Page Load State:
 - State: ${pageLoadState.state}
@@ -197,6 +315,14 @@ ${redirects.length > 0 ? redirects.map((r) => `- ${r.from} → ${r.to} (${r.type
 Element Visibility:
 ${elementVisibility ? `- Exists: ${elementVisibility.exists}, Visible: ${elementVisibility.visible}, Reason: ${elementVisibility.reason || "N/A"}` : "Not checked"}
 
+Call Log (actionability checks):
+${actionabilityFactors.length > 0 ? actionabilityFactors.map((f) => `- ${f}`).join("\n") : "No actionability problems reported"}
+- Retries: ${actionability.retryCount}
+- Last Resolved Element: ${actionability.resolvedElement || "N/A"}
+
+Test Output (stdout, stderr, console logs):
+${testOutput.length > 0 ? testOutput.map((line) => `- ${line}`).join("\n") : "No errors logged"}
+
 Blocking Elements (DOM):
 ${blockingElements.length > 0 ? blockingElements.map((e) => `- ${e.type}: ${e.description} (confidence: ${e.confidence})`).join("\n") : "None detected"}
 
@@ -213,9 +339,9 @@ ${
 
 	try {
 		const result = await generateText({
-			model: openai("gpt-4o"),
+			model: await getModel("artifactCorrelator"),
 			output: Output.object({
-				schema: zodSchema(ArtifactSignalsSchema),
+				schema: zodSchema(ArtifactSignalsSchema.omit({ testOutput: true })),
 			}),
 			prompt: `Analyze the following Playwright test failure artifacts and provide a clear assessment of the UI state vs test expectations.
 
@@ -224,17 +350,28 @@ ${context}
 Based on this information, determine:
 1. uiState: What is the actual state of the UI when the failure occurred? (e.g., "element missing", "page loaded with blocking modal", "page still loading", "error page displayed", etc.)
 2. pageState: What is the page load state? (e.g., "loaded", "loading", "error", "timeout", "unknown")
-3. blockingFactors: List any factors that may have blocked the test from succeeding (modals, banners, loading states, network errors, etc.)
+3. blockingFactors: List any factors that may have blocked the test from succeeding (modals, banners, loading states, network errors, backend errors logged by the test, etc.)
 
-Be specific and actionable. If the page was loaded but an element was missing, say so. If something was blocking the element, identify it. If the page failed to load, explain why.`,
+Be specific and actionable. If the page was loaded but an element was missing, say so. If something was blocking the element, identify it (the call log names intercepting elements exactly). If the page failed to load, explain why.`,
 		});
 
-		return result.output;
+		// Keep call log findings verbatim rather than paraphrased
+		const output = result.output;
+		return {
+			...output,
+			blockingFactors: [
+				...actionabilityFactors.filter(
+					(factor) => !output.blockingFactors.includes(factor),
+				),
+				...output.blockingFactors,
+			],
+			testOutput: testOutput.length > 0 ? testOutput : undefined,
+		};
 	} catch (error) {
 		console.error("Error synthesizing signals:", error);
 
 		// Fallback: Create basic signals from available data
-		const blockingFactors: string[] = [];
+		const blockingFactors: string[] = [...actionabilityFactors];
 
 		if (pageLoadState.networkErrors.length > 0) {
 			blockingFactors.push(...pageLoadState.networkErrors);
@@ -258,6 +395,9 @@ Be specific and actionable. If the page was loaded but an element was missing, s
 				uiState = "element visible";
 			}
 		}
+		if (actionability.interceptingElement) {
+			uiState = "element covered by another element";
+		}
 
 		return {
 			uiState,
@@ -266,6 +406,7 @@ Be specific and actionable. If the page was loaded but an element was missing, s
 				blockingFactors.length > 0
 					? blockingFactors
 					: ["No blocking factors detected"],
+			testOutput: testOutput.length > 0 ? testOutput : undefined,
 		};
 	}
 }
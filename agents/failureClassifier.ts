@@ -12,24 +12,46 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import {
-	FailureCategorySchema,
+	FailureCategorySchemaForAI,
+	FailureSubcategorySchema,
+	type ArtifactSignals,
+	type CategoryCandidate,
+	type ClassificationRule,
 	type FailureCategory,
+	type RunContext,
 	type TestFailureFacts,
 } from "@/types/schemas";
 import {
 	applyPatternMatching,
+	applyScopeRules,
+	applySubcategoryRules,
 	isHighConfidence,
 	isMediumConfidence,
 	type PatternMatchResult,
 } from "@/tools/classifyPatterns";
+import { describeRunContext } from "@/tools/runContext";
+import {
+	applyClassificationRules,
+	classifyByRule,
+	type RuleEvidence,
+} from "@/tools/classificationRules";
+import {
+	describeCategory,
+	FAILURE_SUBCATEGORY_DESCRIPTIONS,
+	FAILURE_SUBCATEGORY_PARENTS,
+	withParentCategory,
+} from "@/tools/failureTaxonomy";
+import { getModel } from "@/tools/modelRegistry";
 
 /**
  * Input for Failure Classification Agent
  */
 export interface FailureClassifierInput {
 	facts: TestFailureFacts;
+	runContext?: RunContext | null; // Run configuration from the report
+	rules?: ClassificationRule[]; // User rules, evaluated first
+	ruleEvidence?: RuleEvidence | null; // Trace URL, console and network
 }
 
 /**
@@ -46,40 +68,129 @@ export type FailureClassifierOutput = FailureCategory;
 export async function classifyFailure(
 	input: FailureClassifierInput,
 ): Promise<FailureClassifierOutput> {
-	const { facts } = input;
+	const { facts, runContext } = input;
+
+	// User rules run before every built-in rule
+	const ruleMatch = applyClassificationRules(
+		facts,
+		input.rules || [],
+		input.ruleEvidence,
+	);
 
-	// Step 1: Apply pattern matching first (rules-based)
+	// Categories the patterns match are the alternatives to whatever wins
 	const patternResult = applyPatternMatching(facts);
+	const alternatives = patternResult?.candidates || [];
+
+	if (ruleMatch) {
+		return rankCandidates(
+			classifyByRule(ruleMatch),
+			ruleMatch.matchedConditions,
+			alternatives,
+		);
+	}
+
+	// Step 0: Failures outside the test body have their own rules
+	const scopeResult = applyScopeRules(facts);
+	if (scopeResult) {
+		return rankCandidates(
+			{
+				category: scopeResult.category,
+				confidence: scopeResult.confidence,
+				reasoning: generatePatternReasoning(facts, scopeResult),
+			},
+			scopeResult.matchedPatterns,
+			alternatives,
+		);
+	}
+
+	// Step 0.5: Error signatures that name a specific failure type
+	const subcategoryResult = applySubcategoryRules(facts);
+	if (subcategoryResult) {
+		return rankCandidates(
+			{
+				category: subcategoryResult.category,
+				subcategory: subcategoryResult.subcategory,
+				confidence: subcategoryResult.confidence,
+				reasoning: generatePatternReasoning(facts, subcategoryResult),
+			},
+			subcategoryResult.matchedPatterns,
+			alternatives,
+		);
+	}
 
 	// Step 2: If high confidence pattern match, return immediately
 	if (patternResult && isHighConfidence(patternResult)) {
-		return {
-			category: patternResult.category,
-			confidence: patternResult.confidence,
-			reasoning: generatePatternReasoning(facts, patternResult),
-		};
+		return rankCandidates(
+			{
+				category: patternResult.category,
+				confidence: patternResult.confidence,
+				reasoning: generatePatternReasoning(facts, patternResult),
+			},
+			alternatives[0].evidence,
+			alternatives,
+		);
 	}
 
 	// Step 3: If medium confidence or pattern hint available, use LLM to refine
 	if (patternResult && isMediumConfidence(patternResult)) {
-		return await classifyWithLLM(facts, patternResult.category);
+		return await classifyWithLLM(
+			facts,
+			runContext,
+			alternatives,
+			patternResult.category,
+		);
 	}
 
 	// Step 4: If no pattern match or low confidence, use LLM for full classification
-	return await classifyWithLLM(facts);
+	return await classifyWithLLM(facts, runContext, alternatives);
+}
+
+/**
+ * Attach the ranked candidate categories to a classification
+ *
+ * @param classification - Primary classification
+ * @param evidence - What the primary category was decided on
+ * @param alternatives - Other candidates, e.g. from pattern matching
+ * @returns Classification whose candidates start with its own category,
+ * followed by the other categories best first
+ */
+function rankCandidates(
+	classification: FailureCategory,
+	evidence: string[],
+	alternatives: CategoryCandidate[],
+): FailureCategory {
+	const { category, subcategory, confidence } = classification;
+	const others = alternatives
+		.filter((candidate) => candidate.category !== category)
+		.filter(
+			(candidate, i, list) =>
+				list.findIndex((other) => other.category === candidate.category) === i,
+		)
+		.sort((a, b) => b.confidence - a.confidence);
+
+	return {
+		...classification,
+		candidates: [{ category, subcategory, confidence, evidence }, ...others],
+	};
 }
 
 /**
  * Classify failure using LLM
  *
  * @param facts - Test failure facts
+ * @param runContext - Run configuration, if the report has one
+ * @param alternatives - Candidate categories from pattern matching
  * @param patternHint - Optional category hint from pattern matching
- * @returns Failure category with confidence and reasoning
+ * @returns Failure category with confidence, reasoning and ranked candidates
  */
 async function classifyWithLLM(
 	facts: TestFailureFacts,
+	runContext: RunContext | null | undefined,
+	alternatives: CategoryCandidate[],
 	patternHint?: string,
 ): Promise<FailureCategory> {
+	const runConfig = describeRunContext(runContext, facts);
+
 	try {
 		const prompt = `Classify this Playwright test failure into one of these categories:
 - selector_not_found: Element/selector could not be found on the page
@@ -89,47 +200,164 @@ async function classifyWithLLM(
 - auth_error: Authentication or authorization failed (401, 403, login issues)
 - unknown: Cannot determine the failure type
 
+If one of these specific types applies, also set subcategory (its category is given in brackets):
+${FailureSubcategorySchema.options
+	.map(
+		(subcategory) =>
+			`- ${subcategory} [${FAILURE_SUBCATEGORY_PARENTS[subcategory]}]: ${FAILURE_SUBCATEGORY_DESCRIPTIONS[subcategory]}`,
+	)
+	.join("\n")}
+
 Test Name: ${facts.testName}
 File: ${facts.file}
 Failed Step: ${facts.failedStep}
 Error: ${facts.error}
+${facts.scope && facts.scope !== "test" ? `Scope: ${facts.scopeName || facts.scope} (failed outside the test body)` : ""}
 ${facts.timeout ? `Timeout: ${facts.timeout}ms` : ""}
 ${facts.lineNumber ? `Line: ${facts.lineNumber}` : ""}
 ${facts.stackTrace ? `Stack Trace:\n${facts.stackTrace.join("\n")}` : ""}
+${runConfig.length > 0 ? `Run Configuration:\n${runConfig.join("\n")}` : ""}
 
 ${patternHint ? `Pattern matching suggests: ${patternHint} (but confidence is medium, please refine)` : "No clear pattern match found, please analyze carefully."}
+${alternatives.length > 0 ? `Pattern candidates: ${alternatives.map((candidate) => `${candidate.category} (${candidate.confidence.toFixed(2)})`).join(", ")}` : ""}
 
 Provide:
 - category: The most likely failure category
+- subcategory: The specific type, only if one clearly applies
 - confidence: A confidence score between 0 and 1 (be conservative if uncertain)
 - reasoning: A clear explanation of why this category was chosen
+- candidates: The other plausible categories, best first, each with its confidence and the evidence for it
 
 Be precise and explainable.`;
 
 		const result = await generateText({
-			model: openai("gpt-4o"),
+			model: await getModel("failureClassifier"),
 			output: Output.object({
-				schema: zodSchema(FailureCategorySchema),
+				schema: zodSchema(FailureCategorySchemaForAI),
 			}),
 			prompt,
 		});
 
-		// Get the structured output from the result
-		return result.output;
+		// Get the structured output from the result, converting null back to
+		// undefined; a subcategory decides the category
+		const structuredOutput = result.output;
+		const classification = withParentCategory({
+			...structuredOutput,
+			subcategory: structuredOutput.subcategory ?? undefined,
+			candidates: structuredOutput.candidates?.map((candidate) => ({
+				...candidate,
+				subcategory: candidate.subcategory ?? undefined,
+			})),
+		});
+		return rankCandidates(
+			classification,
+			[`LLM: ${classification.reasoning}`],
+			[...(classification.candidates || []), ...alternatives],
+		);
 	} catch (error) {
 		// Fallback: Return unknown category if LLM fails
 		console.error(
 			"Error in LLM classification, falling back to unknown:",
 			error,
 		);
-		return {
-			category: "unknown",
-			confidence: 0.0,
-			reasoning: `Failed to classify: ${error instanceof Error ? error.message : "Unknown error"}`,
-		};
+		return rankCandidates(
+			{
+				category: "unknown",
+				confidence: 0.0,
+				reasoning: `Failed to classify: ${error instanceof Error ? error.message : "Unknown error"}`,
+			},
+			[],
+			alternatives,
+		);
 	}
 }
 
+/**
+ * Switch to the runner-up category when the artifacts contradict the primary
+ * one and support the runner-up
+ *
+ * Applied once the artifacts are correlated, so the diagnosis, the solution
+ * and the reported category all use the same category. Categories set by a
+ * user rule are kept.
+ *
+ * @param failureCategory - Classification with ranked candidates
+ * @param artifactSignals - Signals from the trace, if any
+ * @returns Runner-up classification (ranked first), or the classification
+ */
+export function withRunnerUp(
+	failureCategory: FailureCategory,
+	artifactSignals: ArtifactSignals | null,
+): FailureCategory {
+	const candidates = failureCategory.candidates || [];
+	if (!artifactSignals || failureCategory.ruleId || candidates.length < 2) {
+		return failureCategory;
+	}
+
+	const supported = categoriesSupportedBy(artifactSignals);
+	if (supported.size === 0 || supported.has(failureCategory.category)) {
+		return failureCategory;
+	}
+
+	const runnerUp = candidates
+		.slice(1)
+		.find((candidate) => supported.has(candidate.category));
+	if (!runnerUp) {
+		return failureCategory;
+	}
+
+	console.log(
+		`[FailureClassifier] Artifacts contradict ${failureCategory.category}, using the runner-up ${runnerUp.category}`,
+	);
+	return {
+		category: runnerUp.category,
+		subcategory: runnerUp.subcategory,
+		confidence: runnerUp.confidence,
+		reasoning: `The artifacts (page ${artifactSignals.pageState}, ${artifactSignals.uiState}) contradict the primary category ${describeCategory(failureCategory)} and support the runner-up ${runnerUp.category}${runnerUp.evidence.length > 0 ? ` (${runnerUp.evidence.join(", ")})` : ""}. ${failureCategory.reasoning}`,
+		candidates: [
+			runnerUp,
+			...candidates.filter((candidate) => candidate !== runnerUp),
+		],
+	};
+}
+
+/**
+ * Categories the artifact signals point to, e.g. a missing element points to
+ * selector_not_found
+ */
+function categoriesSupportedBy(
+	artifactSignals: ArtifactSignals,
+): Set<FailureCategory["category"]> {
+	const { pageState, uiState, blockingFactors } = artifactSignals;
+	const supported = new Set<FailureCategory["category"]>();
+
+	if (pageState === "error" || pageState === "failed") {
+		supported.add("navigation_error");
+	}
+	if (pageState === "loading" || pageState === "timeout") {
+		supported.add("timeout");
+	}
+	if (
+		uiState.includes("element missing") ||
+		uiState.includes("element not found")
+	) {
+		supported.add("selector_not_found");
+	}
+	if (uiState.includes("covered")) {
+		supported.add("timeout");
+	}
+	if (
+		[uiState, ...blockingFactors].some((text) =>
+			/\b(?:log ?in|sign ?in|unauthori[sz]ed|session expired|401|403)\b/i.test(
+				text,
+			),
+		)
+	) {
+		supported.add("auth_error");
+	}
+
+	return supported;
+}
+
 /**
  * Generate reasoning text for pattern-matched results
  */
@@ -137,7 +365,10 @@ function generatePatternReasoning(
 	facts: TestFailureFacts,
 	patternResult: PatternMatchResult,
 ): string {
-	const { category, matchedPatterns } = patternResult;
+	const { category, subcategory, matchedPatterns, reason } = patternResult;
+	if (reason) {
+		return reason;
+	}
 
 	const categoryExplanations: Record<string, string> = {
 		selector_not_found: "Element or selector could not be found on the page",
@@ -148,8 +379,9 @@ function generatePatternReasoning(
 		unknown: "Unable to determine failure type",
 	};
 
-	const baseExplanation =
-		categoryExplanations[category] || "Unknown failure type";
+	const baseExplanation = subcategory
+		? `${FAILURE_SUBCATEGORY_DESCRIPTIONS[subcategory]} (${subcategory}, a kind of ${category})`
+		: categoryExplanations[category] || "Unknown failure type";
 	const patternCount = matchedPatterns.length;
 
 	return `${baseExplanation}. Detected ${patternCount} matching pattern${patternCount > 1 ? "s" : ""} in error message, failed step, and stack trace. Error: "${facts.error.substring(0, 100)}${facts.error.length > 100 ? "..." : ""}"`;
@@ -159,10 +391,16 @@ function generatePatternReasoning(
  * Classify multiple failures
  *
  * @param factsArray - Array of test failure facts
+ * @param runContext - Run configuration from the report
+ * @param rules - User rules, evaluated first
+ * @param ruleEvidence - Trace evidence of each failure, index-aligned
  * @returns Array of failure categories
  */
 export async function classifyFailures(
 	factsArray: TestFailureFacts[],
+	runContext?: RunContext | null,
+	rules: ClassificationRule[] = [],
+	ruleEvidence: Array<RuleEvidence | null> = [],
 ): Promise<FailureCategory[]> {
 	if (factsArray.length === 0) {
 		return [];
@@ -170,7 +408,14 @@ export async function classifyFailures(
 
 	// Process all classifications (can be parallelized in future)
 	const classifications = await Promise.all(
-		factsArray.map((facts) => classifyFailure({ facts })),
+		factsArray.map((facts, i) =>
+			classifyFailure({
+				facts,
+				runContext,
+				rules,
+				ruleEvidence: ruleEvidence[i],
+			}),
+		),
 	);
 
 	return classifications;
@@ -12,13 +12,13 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import {
 	TestFailureFactsArraySchema,
 	TestFailureFactsSchemaForAI,
 	type TestFailureFacts,
 } from "@/types/schemas";
 import { parsePlaywrightReport } from "@/tools/parseReport";
+import { getModel } from "@/tools/modelRegistry";
 
 /**
  * Input for Report Decomposition Agent
@@ -59,7 +59,7 @@ export async function decomposeReport(
 			// Use AI to validate and enhance the extracted facts
 			// The AI helps ensure we haven't missed any important details
 			const result = await generateText({
-				model: openai("gpt-4o"),
+				model: await getModel("reportDecomposer"),
 				output: Output.object({
 					schema: zodSchema(TestFailureFactsSchemaForAI),
 				}),
@@ -98,6 +98,24 @@ Be precise and deterministic.`,
 				lineNumber: structuredOutput.lineNumber ?? undefined,
 				columnNumber: structuredOutput.columnNumber ?? undefined,
 				stackTrace: structuredOutput.stackTrace ?? undefined,
+				// Attempt history, attachments, snippet, output, errors and
+				// project metadata come from the report as-is
+				attempts: failure.attempts,
+				outcome: failure.outcome,
+				attachments: failure.attachments,
+				snippet: failure.snippet,
+				stdout: failure.stdout,
+				stderr: failure.stderr,
+				consoleLogs: failure.consoleLogs,
+				errors: failure.errors,
+				projectName: failure.projectName,
+				projectId: failure.projectId,
+				tags: failure.tags,
+				annotations: failure.annotations,
+				projectResults: failure.projectResults,
+				scope: failure.scope,
+				scopeName: failure.scopeName,
+				affectedTests: failure.affectedTests,
 			};
 			enhancedFailures.push(enhanced);
 		}
@@ -14,10 +14,10 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import type {
 	TestFailureFacts,
 	FailureCategory,
+	RunContext,
 	SelectorAnalysis,
 } from "@/types/schemas";
 import { SelectorAnalysisSchema } from "@/types/schemas";
@@ -26,6 +26,8 @@ import type { ActionEvent } from "@/tools/readTrace";
 import { extractSelector } from "@/tools/extractSelector";
 import { analyzeSelectorQuality } from "@/tools/analyzeSelectorQuality";
 import { suggestSelector } from "@/tools/suggestSelector";
+import { describeRunContext, getRunProject } from "@/tools/runContext";
+import { getModel } from "@/tools/modelRegistry";
 
 /**
  * Input for Selector Heuristics Agent
@@ -35,6 +37,7 @@ export interface SelectorHeuristicsInput {
 	failureCategory: FailureCategory;
 	domSnapshot: DOMSnapshot | null;
 	failedAction?: ActionEvent | null; // Optional: failed action from trace
+	runContext?: RunContext | null; // Run configuration from the report
 }
 
 /**
@@ -204,7 +207,13 @@ export async function analyzeSelectorHeuristics(
 		confidence: number;
 	} | null = null;
 	if (domSnapshot) {
-		const suggestion = suggestSelector(selector, domSnapshot);
+		// getByTestId matches the config's testIdAttribute
+		const suggestion = suggestSelector(
+			selector,
+			domSnapshot,
+			getRunProject(input.runContext, failureFacts.projectName)?.use
+				?.testIdAttribute,
+		);
 		if (suggestion) {
 			selectorSuggestion = {
 				suggestedSelector: suggestion.suggestedSelector,
@@ -221,6 +230,7 @@ export async function analyzeSelectorHeuristics(
 		selectorSuggestion,
 		failureFacts,
 		failureCategory,
+		runConfig: describeRunContext(input.runContext, failureFacts),
 	});
 
 	return finalAnalysis;
@@ -239,6 +249,7 @@ interface SynthesisInput {
 	} | null;
 	failureFacts: TestFailureFacts;
 	failureCategory: FailureCategory;
+	runConfig: string[];
 }
 
 /**
@@ -253,6 +264,7 @@ async function synthesizeSelectorAnalysis(
 		selectorSuggestion,
 		failureFacts,
 		failureCategory,
+		runConfig,
 	} = input;
 
 	// extractedSelector is guaranteed to be non-null (checked before calling this function)
@@ -267,6 +279,7 @@ Test Failure Context:
 - Failed Step: ${failureFacts.failedStep}
 - Error: ${failureFacts.error}
 - Failure Category: ${failureCategory.category} (confidence: ${failureCategory.confidence})
+${runConfig.map((line) => `- ${line}`).join("\n")}
 
 Extracted Selector:
 - Selector: ${extractedSelector.selector}
@@ -294,7 +307,7 @@ Suggested Alternative:
 
 	try {
 		const result = await generateText({
-			model: openai("gpt-4o"),
+			model: await getModel("selectorHeuristics"),
 			output: Output.object({
 				schema: zodSchema(SelectorAnalysisSchema),
 			}),
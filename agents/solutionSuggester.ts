@@ -14,19 +14,29 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import type {
 	TestFailureFacts,
 	FailureCategory,
 	ArtifactSignals,
 	SelectorAnalysis,
 	FinalDiagnosis,
+	RunContext,
 	SolutionSuggestion,
 } from "@/types/schemas";
 import { SolutionSuggestionSchema } from "@/types/schemas";
 import { extractSelector } from "@/tools/extractSelector";
 import type { DOMSnapshot } from "@/tools/extractDOM";
 import { extractTextFromDOM, findSimilarText } from "@/tools/extractPageText";
+import { analyzeCallLog, extractCallLog } from "@/tools/analyzeCallLog";
+import { describeCategory } from "@/tools/failureTaxonomy";
+import {
+	describeRunContext,
+	findExceededTimeout,
+	getRunProject,
+	getRunTimeouts,
+	type ExceededTimeout,
+} from "@/tools/runContext";
+import { getModel } from "@/tools/modelRegistry";
 
 /**
  * Input for Solution Suggestion Agent
@@ -38,6 +48,7 @@ export interface SolutionSuggesterInput {
 	selectorAnalysis: SelectorAnalysis | null;
 	finalDiagnosis: FinalDiagnosis;
 	domSnapshot?: DOMSnapshot | null; // Optional: DOM snapshot for text extraction
+	runContext?: RunContext | null; // Run configuration from the report
 }
 
 /**
@@ -146,6 +157,17 @@ function extractFullLocatorFromError(error: string): string | null {
 	return null;
 }
 
+/**
+ * Get the failing source line from the report snippet, trimmed
+ */
+function getFailingSourceLine(failureFacts: TestFailureFacts): string | null {
+	const snippet = failureFacts.snippet;
+	const line = snippet?.lines.find(
+		(l) => l.lineNumber === snippet.highlightedLine,
+	);
+	return line?.text.trim() || null;
+}
+
 /**
  * Apply rule-based solution templates
  */
@@ -168,14 +190,22 @@ function applySolutionTemplates(
 			const extractedSelector =
 				extractSelector(failureFacts.failedStep) ||
 				extractSelector(failureFacts.error);
-			const originalCode =
-				fullLocatorFromError ||
-				extractedSelector?.originalFormat ||
-				failureFacts.failedStep;
+			const locator = fullLocatorFromError || extractedSelector?.originalFormat;
+
+			// Show the failing source line with the locator replaced, when the
+			// report includes the source
+			const sourceLine = getFailingSourceLine(failureFacts);
+			const rewritesSourceLine =
+				!!sourceLine && !!locator && sourceLine.includes(locator);
 
 			return {
-				suggestedCode: selectorAnalysis.suggestedSelector,
-				originalCode: originalCode,
+				suggestedCode:
+					rewritesSourceLine && locator
+						? sourceLine.replace(locator, selectorAnalysis.suggestedSelector)
+						: selectorAnalysis.suggestedSelector,
+				originalCode: rewritesSourceLine
+					? sourceLine
+					: locator || failureFacts.failedStep,
 				explanation:
 					selectorAnalysis.suggestionReason ||
 					`Replace the fragile selector with a more stable Playwright locator. ${selectorAnalysis.issues.length > 0 ? `Issues found: ${selectorAnalysis.issues.join(", ")}.` : ""}`,
@@ -195,21 +225,70 @@ function applySolutionTemplates(
 		}
 	}
 
-	// Template 2: Timeout fixes
+	// Template 2: Timeout fixes, edited in playwright.config.ts where the
+	// timeout that ran out is set
 	if (finalDiagnosis.recommendedAction === "increase timeout") {
-		const currentTimeout = failureFacts.timeout || 30000; // Default Playwright timeout
-		const suggestedTimeout = Math.max(currentTimeout * 2, 60000); // At least 60s
+		const project = getRunProject(input.runContext, failureFacts.projectName);
+		const timeouts = getRunTimeouts(project);
+		const exceeded: ExceededTimeout = findExceededTimeout(
+			failureFacts.error,
+		) || { setting: "test", timeout: timeouts.testTimeout };
+		const currentTimeout = exceeded.timeout;
+		const suggestedTimeout =
+			exceeded.setting === "expect"
+				? Math.max(currentTimeout * 2, 10000)
+				: Math.max(currentTimeout * 2, 60000); // At least 60s
+
+		const configKey = {
+			test: "timeout",
+			expect: "expect.timeout",
+			action: "use.actionTimeout",
+			navigation: "use.navigationTimeout",
+		}[exceeded.setting];
+		const toConfigLine = (timeout: number) =>
+			({
+				test: `timeout: ${timeout},`,
+				expect: `expect: { timeout: ${timeout} },`,
+				action: `use: { actionTimeout: ${timeout} },`,
+				navigation: `use: { navigationTimeout: ${timeout} },`,
+			})[exceeded.setting];
+		const configLine = toConfigLine(suggestedTimeout);
+		const configFile =
+			input.runContext?.configFile?.split(/[\\/]/).pop() ||
+			"playwright.config.ts";
+		const inProject =
+			!!project?.name && (input.runContext?.projects.length || 0) > 1;
+
+		// A longer expect or action timeout only helps within the test timeout
+		const comparison =
+			exceeded.setting === "test"
+				? ""
+				: ` Your ${exceeded.setting} timeout is ${currentTimeout}ms versus a ${timeouts.testTimeout}ms test timeout.`;
+		const exceedsTestTimeout =
+			exceeded.setting !== "test" && suggestedTimeout >= timeouts.testTimeout;
 
 		return {
-			suggestedCode: `// Option 1: Set timeout for specific action\nawait page.locator('selector').click({ timeout: ${suggestedTimeout} });\n\n// Option 2: Set timeout globally in test\nawait page.setDefaultTimeout(${suggestedTimeout});\n\n// Option 3: Set timeout in playwright.config.ts\ntest.setTimeout(${suggestedTimeout});`,
-			originalCode: failureFacts.timeout
-				? `timeout: ${failureFacts.timeout}ms`
-				: "default timeout (30s)",
-			explanation: `The test timed out after ${currentTimeout}ms. Increase the timeout to ${suggestedTimeout}ms to allow more time for the page or element to load. This is especially important for slow networks or heavy pages.`,
+			suggestedCode: `// ${configFile}\nexport default defineConfig({\n${
+				inProject
+					? `  projects: [\n    {\n      name: '${project?.name}',\n      ${configLine}\n    },\n  ],`
+					: `  ${configLine}`
+			}${exceedsTestTimeout ? `\n  timeout: ${suggestedTimeout * 2},` : ""}\n});\n\n// Or only for the failing call\n${
+				exceeded.setting === "test"
+					? `test.setTimeout(${suggestedTimeout});`
+					: exceeded.setting === "expect"
+						? `await expect(locator).toBeVisible({ timeout: ${suggestedTimeout} });`
+						: exceeded.setting === "navigation"
+							? `await page.goto('/path', { timeout: ${suggestedTimeout} });`
+							: `await locator.click({ timeout: ${suggestedTimeout} });`
+			}`,
+			originalCode: `// ${configFile}\n${toConfigLine(currentTimeout)}`,
+			explanation: `The ${exceeded.setting} timeout of ${currentTimeout}ms ran out.${comparison} Increase it to ${suggestedTimeout}ms in ${configFile}${inProject ? ` for the ${project?.name} project` : ""} to allow more time for the page or element to load.`,
 			steps: [
 				`Identify the action that timed out: ${failureFacts.failedStep}`,
-				`Add a timeout parameter to the specific action, or set a global timeout for the test`,
-				`Consider investigating why the page is slow (network issues, heavy resources, etc.)`,
+				`Set ${configKey} to ${suggestedTimeout} in ${configFile}, or pass a timeout to the failing call only`,
+				exceedsTestTimeout
+					? `Raise the test timeout too: it is ${timeouts.testTimeout}ms, less than the new ${exceeded.setting} timeout`
+					: `Consider investigating why the page is slow (network issues, heavy resources, etc.)`,
 				`Run the test again with the increased timeout`,
 			],
 			alternativeApproaches: [
@@ -228,7 +307,8 @@ function applySolutionTemplates(
 	) {
 		return {
 			suggestedCode: `// Review your assertion logic\n// Original assertion likely failed because:\n// 1. Expected value doesn't match actual value\n// 2. Element state changed before assertion\n// 3. Async operation not awaited\n\n// Example fix:\nawait expect(page.locator('selector')).toHaveText('expected text');\n// Or:\nawait expect(page.locator('selector')).toBeVisible();`,
-			originalCode: failureFacts.failedStep,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
 			explanation: `The assertion failed, but the page loaded correctly. This suggests the test expectations may be incorrect or the assertion logic needs review. Check if you're asserting the right values or if async operations are properly awaited.`,
 			steps: [
 				`Review the assertion that failed: ${failureFacts.failedStep}`,
@@ -278,7 +358,8 @@ function applySolutionTemplates(
 	) {
 		return {
 			suggestedCode: `// Add error handling and debugging\nawait page.goto('/path', { waitUntil: 'networkidle', timeout: 60000 });\n\n// Or check for navigation errors:\ntry {\n  await page.goto('/path');\n} catch (error) {\n  console.error('Navigation failed:', error);\n  // Check network tab, server logs, etc.\n}`,
-			originalCode: failureFacts.failedStep,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
 			explanation: `Navigation error indicates the application may be down, the URL is incorrect, or there's a network/server issue. This is typically an application problem, not a test issue.`,
 			steps: [
 				`Verify the application is running and accessible`,
@@ -296,6 +377,322 @@ function applySolutionTemplates(
 		};
 	}
 
+	// Template 6: Global setup failures (globalSetup, setup projects, webServer)
+	if (finalDiagnosis.recommendedAction === "fix global setup") {
+		const affectedCount = failureFacts.affectedTests?.length || 0;
+		const isLogin = failureCategory.category === "auth_error";
+
+		return {
+			suggestedCode: isLogin
+				? `// global-setup.ts: fail loudly when the login does not complete\nawait page.goto(baseURL + '/login');\nawait page.getByLabel('Email').fill(process.env.TEST_EMAIL!);\nawait page.getByLabel('Password').fill(process.env.TEST_PASSWORD!);\nawait page.getByRole('button', { name: 'Sign in' }).click();\nawait page.waitForURL('**/dashboard');\nawait page.context().storageState({ path: 'playwright/.auth/user.json' });`
+				: `// playwright.config.ts: give the app time to start and check it is up\nwebServer: {\n  command: 'npm run start',\n  url: 'http://localhost:3000',\n  timeout: 120000,\n  reuseExistingServer: !process.env.CI,\n},`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `${failureFacts.scopeName || "Global setup"} failed before the tests ran${affectedCount > 0 ? `, and ${affectedCount} dependent test${affectedCount > 1 ? "s" : ""} failed because of it` : ""}. Fixing the setup fixes those tests too; analyze them again only if they still fail afterwards.`,
+			steps: [
+				`Open ${failureFacts.file}${failureFacts.lineNumber ? ` at line ${failureFacts.lineNumber}` : ""}`,
+				`Run the setup on its own (e.g. npx playwright test --project=setup) and watch it with --headed or --debug`,
+				isLogin
+					? `Check the login credentials and that the login page still matches the setup's locators`
+					: `Check that the application is reachable from the test environment (baseURL, webServer)`,
+				`Rerun the whole suite once the setup passes`,
+			],
+			alternativeApproaches: [
+				`Move the login from globalSetup into a setup project, so it shows in the report with a trace`,
+				`Record a trace in global setup (context.tracing.start) to see where it fails`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 7: Worker crashes
+	if (finalDiagnosis.recommendedAction === "investigate worker crash") {
+		return {
+			suggestedCode: `// playwright.config.ts: fewer workers while investigating\nworkers: process.env.CI ? 1 : undefined,\n\n// Or rerun the affected file alone:\n// npx playwright test ${failureFacts.file} --workers=1`,
+			originalCode: null,
+			explanation: `The worker process exited while running the test, so the test's own steps did not fail. Common causes are the machine running out of memory, a browser crash, or code under test calling process.exit.`,
+			steps: [
+				`Check the CI logs for out-of-memory kills (signal SIGKILL) around the failure`,
+				`Rerun the affected tests with --workers=1 to see if the crash is load-related`,
+				`Look for process.exit or unhandled rejections in fixtures and helpers`,
+			],
+			alternativeApproaches: [
+				`Give the CI machine more memory, or close pages and contexts the tests open`,
+				`Run heavy tests serially with test.describe.configure({ mode: 'serial' })`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 8: Fixture failures (setup or teardown)
+	if (finalDiagnosis.recommendedAction === "fix fixture") {
+		const isTeardown = /tearing down/i.test(failureFacts.error);
+		const fixtureName =
+			failureFacts.scopeName?.match(/"([^"]+)"/)?.[1] || "myFixture";
+
+		return {
+			suggestedCode: `// Keep fixture ${isTeardown ? "teardown" : "setup"} fast and bounded\n${fixtureName}: [async ({ page }, use) => {\n  const value = await setUp(page);\n  await use(value);\n  await tearDown(value); // e.g. delete test data with the API, not the UI\n}, { timeout: 60000 }],`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `The failure happened while ${isTeardown ? "tearing down" : "setting up"} ${failureFacts.scopeName || "a fixture"}, not in the test body. Fix the fixture; every test using it fails the same way.`,
+			steps: [
+				`Find the definition of ${failureFacts.scopeName || "the fixture"} (test.extend)`,
+				isTeardown
+					? `Check what the code after use() waits for (closing pages, cleaning up data)`
+					: `Check what the code before use() waits for (login, seeding data)`,
+				`Give the fixture its own timeout if it legitimately takes long`,
+				`Run the test again to verify the fix`,
+			],
+			alternativeApproaches: [
+				`Clean up test data through the API instead of the UI`,
+				`Make the fixture worker-scoped if it can be shared between tests`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 9: Hook failures
+	if (finalDiagnosis.recommendedAction === "fix hook") {
+		const isLogin = failureCategory.category === "auth_error";
+
+		return {
+			suggestedCode: isLogin
+				? `// Reuse a stored login instead of logging in in every hook\ntest.use({ storageState: 'playwright/.auth/user.json' });`
+				: `// Give a slow hook its own timeout\ntest.beforeAll(async ({ browser }) => {\n  test.setTimeout(60000);\n  // ...\n});`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `The ${failureFacts.scopeName || "hook"} failed before the test body ran${isLogin ? " while logging in" : ""}. Fix the hook; every test it prepares fails the same way.`,
+			steps: [
+				`Open the ${failureFacts.scopeName || "hook"} in ${failureFacts.file}`,
+				isLogin
+					? `Check the login credentials and locators used by the hook`
+					: `Find the slow action in the hook and wait for a specific condition instead`,
+				`Run the test again to verify the fix`,
+			],
+			alternativeApproaches: [
+				`Move shared setup into a fixture or a setup project`,
+				`Use beforeEach instead of beforeAll when tests must not share state`,
+			],
+			confidence: 0.75,
+		};
+	}
+
+	// Template 10: Strict mode violations
+	if (finalDiagnosis.recommendedAction === "make locator unique") {
+		const locator =
+			extractFullLocatorFromError(failureFacts.error) ||
+			extractSelector(failureFacts.error)?.originalFormat ||
+			"page.locator('selector')";
+		// "resolved to 3 elements", in the message or the call log
+		const count = failureFacts.error.match(/resolved to (\d+) elements/)?.[1];
+
+		return {
+			suggestedCode: selectorAnalysis?.suggestedSelector
+				? selectorAnalysis.suggestedSelector
+				: `// Narrow the locator to the intended element\npage.getByRole('button', { name: 'Save', exact: true });\n// Or scope it to a parent:\npage.getByTestId('order-form').getByRole('button', { name: 'Save' });\n// Or filter by content:\n${locator}.filter({ hasText: 'Save' });`,
+			originalCode: getFailingSourceLine(failureFacts) || locator,
+			explanation: `The locator ${locator} matched ${count ? `${count} elements` : "several elements"}, and actions need exactly one. Make it specific to the element the test means.`,
+			steps: [
+				`Run the test with --debug and highlight ${locator} to see every element it matches`,
+				`Pick what sets the intended element apart: its accessible name, a test id or its container`,
+				`Replace the locator and run the test again`,
+			],
+			alternativeApproaches: [
+				`Use .first() or .nth() only when the order is part of what the test checks`,
+				`Add a data-testid to the intended element`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 11: Detached elements
+	if (
+		finalDiagnosis.recommendedAction ===
+		"use locators instead of element handles"
+	) {
+		return {
+			suggestedCode: `// Element handles point to one DOM node and break when it is re-rendered\n// const button = await page.$('button.save');\n// await button.click();\n\n// Locators are resolved again on every action\nconst button = page.getByRole('button', { name: 'Save' });\nawait button.click();`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `The element was detached from the DOM between finding it and acting on it, usually because the page re-rendered it. Locators survive re-renders; element handles and stored references do not.`,
+			steps: [
+				`Find where the test stores the element (page.$, elementHandle, evaluateHandle)`,
+				`Replace it with a locator that is used directly in the action`,
+				`If the page re-renders after loading data, wait for the data first (e.g. an expect on the loaded content)`,
+				`Run the test again to verify the fix`,
+			],
+			alternativeApproaches: [
+				`Wait for the network request that triggers the re-render: await page.waitForResponse('**/api/...')`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 12: Unstable (animating) elements
+	if (finalDiagnosis.recommendedAction === "wait for animation") {
+		return {
+			suggestedCode: `// Disable CSS animations for the whole run (playwright.config.ts)\nuse: {\n  reducedMotion: 'reduce',\n},\n\n// Or wait for the end state before acting\nawait expect(page.getByRole('dialog')).toBeVisible();\nawait page.getByRole('button', { name: 'Confirm' }).click();`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `The element was still moving when the action timed out, so it never became stable. Wait for the animation to end or turn animations off in tests.`,
+			steps: [
+				`Identify the animation or transition on the element (open the trace and look at the snapshots)`,
+				`Wait for the state after the animation before acting on the element`,
+				`Or set reducedMotion: 'reduce' if the app honors prefers-reduced-motion`,
+				`Run the test again to verify the fix`,
+			],
+			alternativeApproaches: [
+				`Use toHaveScreenshot({ animations: 'disabled' }) for visual checks`,
+				`Avoid force: true: it skips the stability check and hides real problems`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 13: Pointer events intercepted by another element
+	if (finalDiagnosis.recommendedAction === "dismiss overlay") {
+		const overlay =
+			analyzeCallLog(extractCallLog(failureFacts.error)).interceptingElement ||
+			"An overlay";
+
+		return {
+			suggestedCode: `// Close the overlay before the action\nawait page.getByRole('button', { name: 'Accept cookies' }).click();\n\n// Or wait until it is gone\nawait expect(page.locator('.overlay')).toBeHidden();\n\n// Or handle it whenever it appears (Playwright 1.42+)\nawait page.addLocatorHandler(page.getByRole('dialog'), async (dialog) => {\n  await dialog.getByRole('button', { name: 'Close' }).click();\n});`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `${overlay} covered the target element and received the pointer events. Close or wait for it before the action; if it should not be there at all, the application has a layout bug.`,
+			steps: [
+				`Find ${overlay} in the trace snapshot at the time of the failure`,
+				`Dismiss it (cookie banner, modal, toast) or wait for it to disappear before the action`,
+				`Run the test again to verify the fix`,
+			],
+			alternativeApproaches: [
+				`Set the consent cookie up front with context.addCookies so the banner never shows`,
+				`Scroll the element into a free area with locator.scrollIntoViewIfNeeded()`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 14: Page or browser crashes
+	if (finalDiagnosis.recommendedAction === "investigate page crash") {
+		return {
+			suggestedCode: `// Log crashes with the URL they happened on\npage.on('crash', () => console.error('Page crashed at', page.url()));\n\n// Run with fewer workers to rule out memory pressure\n// npx playwright test ${failureFacts.file} --workers=1`,
+			originalCode: null,
+			explanation: `The page or browser crashed, so the step running at the time failed. Crashes usually come from memory pressure (many workers, huge pages) or a browser bug triggered by the page.`,
+			steps: [
+				`Check the CI machine's memory usage and the number of workers`,
+				`Rerun the test alone to see if the crash is reproducible`,
+				`Listen to page.on('crash') to find the page and action that crash`,
+			],
+			alternativeApproaches: [
+				`Update Playwright and its browsers: the crash may be a fixed browser bug`,
+				`Run the test on another browser project to see if the crash is browser-specific`,
+			],
+			confidence: 0.75,
+		};
+	}
+
+	// Template 15: Uncaught errors in the page
+	if (finalDiagnosis.recommendedAction === "fix page error") {
+		return {
+			suggestedCode: `// Fail fast and show the page error in the report\npage.on('pageerror', (error) => {\n  throw new Error(\`Uncaught error in the page: \${error.message}\`);\n});`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `An uncaught JavaScript error was thrown in the page. The application code is broken at this point; fix the error there rather than working around it in the test.`,
+			steps: [
+				`Find the error and its stack in the console logs or the trace`,
+				`Reproduce it manually with the same steps and data`,
+				`Fix the application code and run the test again`,
+			],
+			alternativeApproaches: [
+				`Collect page errors in a fixture and fail every test that triggers one`,
+			],
+			confidence: 0.75,
+		};
+	}
+
+	// Template 16: Failed API requests
+	if (finalDiagnosis.recommendedAction === "investigate network failure") {
+		return {
+			suggestedCode: `// Check the response before using it, so failures name the request\nconst response = await request.post('/api/orders', { data: order });\nawait expect(response).toBeOK();\n\n// Or watch for failing calls made by the page\npage.on('requestfailed', (request) =>\n  console.error(request.method(), request.url(), request.failure()?.errorText),\n);`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `An API request or network call failed. The backend was down, unreachable from the test environment, or returned an error; the UI failure follows from that.`,
+			steps: [
+				`Find the failed request in the trace's network tab or the test output`,
+				`Check the backend's health and logs at the time of the failure`,
+				`Verify the API base URL and network access from the test environment`,
+				`Run the test again once the backend responds`,
+			],
+			alternativeApproaches: [
+				`Mock the request with page.route if the test does not need the real backend`,
+				`Add a health check to globalSetup so an unreachable backend fails the run once`,
+			],
+			confidence: 0.75,
+		};
+	}
+
+	// Template 17: Test data conflicts
+	if (finalDiagnosis.recommendedAction === "isolate test data") {
+		return {
+			suggestedCode: `// Unique data per test, worker and retry\nconst email = \`user-\${test.info().workerIndex}-\${Date.now()}@example.com\`;\n\n// Or create the data in a fixture and delete it afterwards\nconst test = base.extend<{ user: User }>({\n  user: async ({ request }, use) => {\n    const user = await createUser(request, { email: uniqueEmail() });\n    await use(user);\n    await deleteUser(request, user.id);\n  },\n});`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `The test tried to create data that already existed. Fixed names, emails or ids collide when tests run in parallel, on retries, or against a database earlier runs did not clean up.`,
+			steps: [
+				`Find the value that collided in the error (name, email, id)`,
+				`Generate it per test, e.g. from test.info().workerIndex and a timestamp`,
+				`Clean up the data the test creates, or reset the database before the run`,
+				`Run the test again, also with --repeat-each=2 to check reruns`,
+			],
+			alternativeApproaches: [
+				`Give each worker its own account or tenant`,
+				`Run the conflicting tests serially with test.describe.configure({ mode: 'serial' })`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 18: Screenshot mismatches
+	if (finalDiagnosis.recommendedAction === "review screenshot diff") {
+		return {
+			suggestedCode: `// If the UI change is intended, update the baselines\n// npx playwright test ${failureFacts.file} --update-snapshots\n\n// Hide dynamic content and allow small rendering differences\nawait expect(page).toHaveScreenshot({\n  mask: [page.getByTestId('timestamp')],\n  animations: 'disabled',\n  maxDiffPixelRatio: 0.01,\n});`,
+			originalCode:
+				getFailingSourceLine(failureFacts) || failureFacts.failedStep,
+			explanation: `The screenshot did not match its baseline. Open the expected, actual and diff images in the HTML report: update the baseline for an intended change, fix the app for a regression.`,
+			steps: [
+				`Open the failing test in the HTML report and compare expected, actual and diff`,
+				`If the change is intended, run with --update-snapshots and commit the new baseline`,
+				`If dynamic content (dates, avatars, ads) differs, mask it`,
+				`If fonts or anti-aliasing differ, generate baselines on the same OS as CI`,
+			],
+			alternativeApproaches: [
+				`Take screenshots of a component instead of the whole page`,
+				`Run visual tests in the Playwright Docker image so local and CI renderings match`,
+			],
+			confidence: 0.8,
+		};
+	}
+
+	// Template 19: Environment and configuration errors
+	if (finalDiagnosis.recommendedAction === "fix environment") {
+		return {
+			suggestedCode: `// Install the browsers and system dependencies of this Playwright version\n// npx playwright install --with-deps\n\n// Check required environment variables before the run (global-setup.ts)\nfor (const name of ['BASE_URL', 'TEST_EMAIL', 'TEST_PASSWORD']) {\n  if (!process.env[name]) throw new Error(\`Missing environment variable \${name}\`);\n}`,
+			originalCode: null,
+			explanation: `The test environment is missing something the tests need: browsers, system dependencies, a module or an environment variable. Every test fails the same way until it is fixed.`,
+			steps: [
+				`Read the error for what is missing: ${failureFacts.error.split("\n")[0]}`,
+				`Install browsers with npx playwright install --with-deps after every Playwright upgrade`,
+				`Check the CI secrets and .env files for the variables the config reads`,
+				`Rerun the suite once the environment is fixed`,
+			],
+			alternativeApproaches: [
+				`Run the tests in the official Playwright Docker image matching your version`,
+			],
+			confidence: 0.8,
+		};
+	}
+
 	// No template match, return null to trigger LLM synthesis
 	return null;
 }
@@ -326,6 +723,7 @@ async function synthesizeSolutionWithLLM(
 		extractedSelector?.originalFormat ||
 		failureFacts.failedStep ||
 		null;
+	const sourceLine = getFailingSourceLine(failureFacts);
 
 	// Extract expected text from error message if it's a text-based selector
 	let expectedText: string | null = null;
@@ -395,12 +793,16 @@ Test Failure Context:
 - Error: ${failureFacts.error}
 ${failureFacts.timeout ? `- Timeout: ${failureFacts.timeout}ms` : ""}
 ${failureFacts.lineNumber ? `- Line: ${failureFacts.lineNumber}` : ""}
+${failureFacts.scope && failureFacts.scope !== "test" ? `- Scope: ${failureFacts.scopeName || failureFacts.scope} (fix it there, not in the test body)` : ""}
+${describeRunContext(input.runContext, failureFacts)
+	.map((line) => `- ${line}`)
+	.join("\n")}
 ${expectedText ? `- Expected Text in Selector: "${expectedText}"` : ""}
 ${textMismatch ? `- TEXT MISMATCH DETECTED: Test expected "${textMismatch.expected}" but page shows "${textMismatch.actual}" (similarity: ${(textMismatch.similarity * 100).toFixed(0)}%)` : ""}
 ${actualPageTexts.length > 0 ? `- Actual Text Found on Page: ${actualPageTexts.slice(0, 10).join(", ")}${actualPageTexts.length > 10 ? "..." : ""}` : ""}
 
 Failure Category:
-- Category: ${failureCategory.category}
+- Category: ${describeCategory(failureCategory)}
 - Confidence: ${(failureCategory.confidence * 100).toFixed(0)}%
 - Reasoning: ${failureCategory.reasoning}
 
@@ -434,6 +836,12 @@ Selector Analysis:
 }
 
 ${originalCode ? `Original Code (from error message): ${originalCode}` : ""}
+${
+	failureFacts.snippet
+		? `Failing Source (line ${failureFacts.snippet.highlightedLine} is the failing line):
+${failureFacts.snippet.lines.map((line) => `${line.lineNumber === failureFacts.snippet?.highlightedLine ? ">" : " "} ${line.lineNumber} | ${line.text}`).join("\n")}`
+		: ""
+}
 
 ${
 	templateHint
@@ -492,7 +900,7 @@ DO NOT use "${textMismatch.expected}" - it's wrong. ALWAYS use "${textMismatch.a
    - Include necessary imports if relevant
    - If no code fix is applicable, return null
 
-2. **originalCode**: The original code that failed. Extract the FULL locator from the error message (e.g., "getByRole('heading', { name: 'Thank you for orderRING!' })"), not just the partial selector. If the error shows "Locator: ...", use that exact locator.
+2. **originalCode**: The original code that failed. ${sourceLine ? `Use the failing source line exactly as shown: ${sourceLine}` : `Extract the FULL locator from the error message (e.g., "getByRole('heading', { name: 'Thank you for orderRING!' })"), not just the partial selector. If the error shows "Locator: ...", use that exact locator.`}
 
 3. **explanation**: A clear 2-3 sentence explanation of:
    - What the fix does
@@ -522,7 +930,7 @@ Important guidelines:
 
 	try {
 		const result = await generateText({
-			model: openai("gpt-4o"),
+			model: await getModel("solutionSuggester"),
 			output: Output.object({
 				schema: zodSchema(SolutionSuggestionSchema),
 			}),
@@ -67,6 +67,8 @@ export async function POST(req: NextRequest) {
 				screenshots: screenshotFiles,
 				video: videoFile,
 				contextMd: extracted.contextMd,
+				bundleFiles: extracted.files,
+				rulesFile: extracted.rulesFile,
 			};
 		} else {
 			// Fallback to individual file uploads
@@ -163,6 +165,9 @@ export async function POST(req: NextRequest) {
 				selectorAnalyses: results.selectorAnalyses,
 				diagnoses: results.diagnoses,
 				solutionSuggestions: results.solutionSuggestions,
+				errorAnalyses: results.errorAnalyses,
+				clusters: results.clusters,
+				runContext: results.runContext,
 				screenshotUrls,
 				traceSessionId,
 			},
@@ -1,5 +1,5 @@
 import { convertToModelMessages, streamText, UIMessage } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { getModel } from "@/tools/modelRegistry";
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
@@ -8,7 +8,7 @@ export async function POST(req: Request) {
 	const { messages }: { messages: UIMessage[] } = await req.json();
 
 	const result = streamText({
-		model: openai("gpt-4o"),
+		model: await getModel("chat"),
 		system: "You are a helpful assistant.",
 		messages: await convertToModelMessages(messages),
 	});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { extractArtifactsFromZip, isZipFile } from "@/tools/extractArtifacts";
 import { parsePlaywrightReport } from "@/tools/parseReport";
+import { convertJUnitReport, isJUnitReport } from "@/tools/parseJUnit";
 import { countTestsFromReport } from "@/tools/countTests";
 
 // Allow longer duration for parsing
@@ -62,7 +63,9 @@ export async function POST(req: NextRequest) {
 
 					// Count tests from the report structure (handles nested suites)
 					const reportStr = reportBuffer.toString("utf-8");
-					const reportData = JSON.parse(reportStr);
+					const reportData = isJUnitReport(reportStr)
+						? convertJUnitReport(reportStr)
+						: JSON.parse(reportStr);
 					const counts = countTestsFromReport(reportData);
 
 					info.report = {
@@ -127,7 +130,9 @@ export async function POST(req: NextRequest) {
 				try {
 					const reportText = await reportFile.text();
 					const failures = parsePlaywrightReport(reportText);
-					const reportData = JSON.parse(reportText);
+					const reportData = isJUnitReport(reportText)
+						? convertJUnitReport(reportText)
+						: JSON.parse(reportText);
 
 					// Count tests from the report structure (handles nested suites)
 					const counts = countTestsFromReport(reportData);
@@ -18,10 +18,14 @@ import {
 import type {
 	TestFailureFacts,
 	FailureCategory,
+	FailureSubcategory,
 	ArtifactSignals,
 	SelectorAnalysis,
 	FinalDiagnosis,
 	SolutionSuggestion,
+	ErrorAnalysis,
+	FailureCluster,
+	RunContext,
 } from "@/types/schemas";
 
 function formatFileSize(bytes: number): string {
@@ -72,6 +76,33 @@ function getCategoryLabel(category: FailureCategory["category"]): string {
 	}
 }
 
+function getSubcategoryLabel(subcategory: FailureSubcategory): string {
+	switch (subcategory) {
+		case "strict_mode_violation":
+			return "Strict Mode Violation";
+		case "element_detached":
+			return "Element Detached";
+		case "element_not_stable":
+			return "Element Not Stable";
+		case "pointer_intercepted":
+			return "Pointer Intercepted";
+		case "page_crash":
+			return "Page Crash";
+		case "page_error":
+			return "Page Error";
+		case "network_error":
+			return "Network Error";
+		case "test_data_conflict":
+			return "Test Data Conflict";
+		case "visual_mismatch":
+			return "Visual Mismatch";
+		case "environment_error":
+			return "Environment Error";
+		default:
+			return "Unknown";
+	}
+}
+
 function getConfidenceColor(confidence: number): string {
 	if (confidence >= 0.8) return "text-green-600";
 	if (confidence >= 0.5) return "text-yellow-600";
@@ -194,6 +225,11 @@ export default function Page() {
 		useState<Array<FinalDiagnosis | null> | null>(null);
 	const [solutionSuggestions, setSolutionSuggestions] =
 		useState<Array<SolutionSuggestion | null> | null>(null);
+	const [errorAnalyses, setErrorAnalyses] = useState<ErrorAnalysis[][] | null>(
+		null,
+	);
+	const [clusters, setClusters] = useState<FailureCluster[] | null>(null);
+	const [runContext, setRunContext] = useState<RunContext | null>(null);
 	const [screenshotUrls, setScreenshotUrls] = useState<string[]>([]);
 	const [analysisError, setAnalysisError] = useState<string | null>(null);
 	const [traceSessionId, setTraceSessionId] = useState<string | null>(null);
@@ -281,6 +317,9 @@ export default function Page() {
 		setSelectorAnalyses(null);
 		setDiagnoses(null);
 		setSolutionSuggestions(null);
+		setErrorAnalyses(null);
+		setClusters(null);
+		setRunContext(null);
 		setScreenshotUrls([]);
 
 		try {
@@ -343,6 +382,9 @@ export default function Page() {
 			setSelectorAnalyses(data.results.selectorAnalyses || null);
 			setDiagnoses(data.results.diagnoses || null);
 			setSolutionSuggestions(data.results.solutionSuggestions || null);
+			setErrorAnalyses(data.results.errorAnalyses || null);
+			setClusters(data.results.clusters || null);
+			setRunContext(data.results.runContext || null);
 
 			// Update screenshot URLs from API response (for ZIP files)
 			if (
@@ -383,8 +425,9 @@ export default function Page() {
 									<p className="text-xs text-muted-foreground mb-2">
 										Upload a ZIP file containing your Playwright artifacts. The
 										system will automatically identify: any Playwright report
-										JSON file (e.g., playwright-report.json), trace.zip,
-										screenshots, videos, and context.md
+										JSON file (e.g., playwright-report.json), HTML report
+										folder, blob reports of sharded runs or JUnit XML report,
+										trace.zip, screenshots, videos, and context.md
 									</p>
 									<Input
 										type="file"
@@ -434,15 +477,16 @@ export default function Page() {
 									{/* Report File */}
 									<div>
 										<label className="text-sm font-medium mb-2 block">
-											Playwright Report JSON (required)
+											Playwright Report JSON or JUnit XML (required)
 										</label>
 										<p className="text-xs text-muted-foreground mb-2">
 											Any JSON file containing Playwright test results (e.g.,
-											playwright-report.json, report.json, etc.)
+											playwright-report.json, report.json, etc.) or a JUnit XML
+											report (e.g., results.xml)
 										</p>
 										<Input
 											type="file"
-											accept=".json,application/json"
+											accept=".json,application/json,.xml,text/xml,application/xml"
 											onChange={(e) =>
 												setReportFile(e.target.files?.[0] || null)
 											}
@@ -827,539 +871,802 @@ export default function Page() {
 											</CardContent>
 										</Card>
 									) : (
-										analysisResults.map((failure, index) => {
-											const category = failureCategories?.[index];
-											const signals = artifactSignals?.[index];
-											const selectorAnalysis = selectorAnalyses?.[index];
-											const diagnosis = diagnoses?.[index];
-											const solutionSuggestion = solutionSuggestions?.[index];
-											return (
-												<Card key={index}>
-													<CardHeader>
-														<div className="flex items-center justify-between">
-															<CardTitle className="text-base">
-																{failure.testName}
-															</CardTitle>
-															<div className="flex items-center gap-2">
-																{category && (
-																	<>
-																		<Badge
-																			variant={getCategoryBadgeVariant(
-																				category.category,
-																			)}
-																		>
-																			{getCategoryLabel(category.category)}
+										<>
+											{/* Run configuration from the report */}
+											{runContext && (
+												<p className="text-xs text-muted-foreground">
+													{[
+														runContext.playwrightVersion &&
+															`Playwright ${runContext.playwrightVersion}`,
+														runContext.workers !== undefined &&
+															`${runContext.workers} workers`,
+														runContext.fullyParallel && "fully parallel",
+														`${runContext.projects.length} project(s)`,
+														runContext.projects[0]?.use?.baseURL,
+													]
+														.filter(Boolean)
+														.join(" · ")}
+												</p>
+											)}
+											{/* Failures by project, when several projects failed */}
+											{new Set(
+												analysisResults
+													.map((failure) => failure.projectName)
+													.filter(Boolean),
+											).size > 1 && (
+												<div className="flex items-center gap-2 flex-wrap">
+													<span className="text-sm font-medium">
+														Failures by project:
+													</span>
+													{Object.entries(
+														analysisResults.reduce<Record<string, number>>(
+															(counts, failure) => {
+																const project =
+																	failure.projectName || "unknown";
+																counts[project] = (counts[project] || 0) + 1;
+																return counts;
+															},
+															{},
+														),
+													).map(([project, count]) => (
+														<Badge key={project} variant="outline">
+															{project} ({count})
+														</Badge>
+													))}
+												</div>
+											)}
+											{/* Root causes shared by several failures */}
+											{clusters
+												?.filter((cluster) => cluster.memberIndexes.length > 1)
+												.map((cluster) => (
+													<div
+														key={cluster.id}
+														className="flex items-center gap-2"
+													>
+														<Badge variant="secondary">
+															1 root cause, {cluster.memberIndexes.length}{" "}
+															affected tests
+														</Badge>
+														<span className="text-xs text-muted-foreground truncate">
+															{cluster.fingerprint.split("\n")[0]}
+														</span>
+													</div>
+												))}
+											{analysisResults.map((failure, index) => {
+												const category = failureCategories?.[index];
+												const signals = artifactSignals?.[index];
+												const selectorAnalysis = selectorAnalyses?.[index];
+												const diagnosis = diagnoses?.[index];
+												const solutionSuggestion = solutionSuggestions?.[index];
+												const failureErrors = errorAnalyses?.[index] || [];
+												const cluster = clusters?.find((c) =>
+													c.memberIndexes.includes(index),
+												);
+												return (
+													<Card key={index}>
+														<CardHeader>
+															<div className="flex items-center justify-between">
+																<CardTitle className="text-base">
+																	{failure.testName}
+																</CardTitle>
+																<div className="flex items-center gap-2">
+																	{failure.projectName && (
+																		<Badge variant="outline">
+																			{failure.projectName}
 																		</Badge>
-																		<span
-																			className={`text-xs ${getConfidenceColor(category.confidence)}`}
-																		>
-																			{(category.confidence * 100).toFixed(0)}%
-																		</span>
-																	</>
-																)}
-																{traceSessionId && (
-																	<Button
-																		variant="outline"
-																		size="sm"
-																		onClick={async () => {
-																			// Verify trace is still available before opening viewer
-																			try {
-																				const response = await fetch(
-																					`/api/trace/${traceSessionId}`,
-																					{
-																						method: "HEAD",
-																					},
-																				);
-																				if (response.ok) {
-																					setTraceViewerLoading(true);
-																					setTraceViewerError(false);
-																					setShowTraceViewer(true);
-																				} else {
+																	)}
+																	{failure.scope &&
+																		failure.scope !== "test" && (
+																			<Badge variant="secondary">
+																				{failure.scopeName || failure.scope}
+																			</Badge>
+																		)}
+																	{cluster &&
+																		cluster.memberIndexes.length > 1 && (
+																			<Badge variant="outline">
+																				Shared root cause (
+																				{cluster.memberIndexes.length} tests)
+																			</Badge>
+																		)}
+																	{category && (
+																		<>
+																			<Badge
+																				variant={getCategoryBadgeVariant(
+																					category.category,
+																				)}
+																			>
+																				{getCategoryLabel(category.category)}
+																				{category.subcategory &&
+																					` · ${getSubcategoryLabel(category.subcategory)}`}
+																				{category.label &&
+																					` · ${category.label}`}
+																			</Badge>
+																			<span
+																				className={`text-xs ${getConfidenceColor(category.confidence)}`}
+																			>
+																				{(category.confidence * 100).toFixed(0)}
+																				%
+																			</span>
+																			{category.candidates?.[1] && (
+																				<span className="text-xs text-muted-foreground">
+																					or{" "}
+																					{getCategoryLabel(
+																						category.candidates[1].category,
+																					)}{" "}
+																					(
+																					{(
+																						category.candidates[1].confidence *
+																						100
+																					).toFixed(0)}
+																					%)
+																				</span>
+																			)}
+																		</>
+																	)}
+																	{traceSessionId && (
+																		<Button
+																			variant="outline"
+																			size="sm"
+																			onClick={async () => {
+																				// Verify trace is still available before opening viewer
+																				try {
+																					const response = await fetch(
+																						`/api/trace/${traceSessionId}`,
+																						{
+																							method: "HEAD",
+																						},
+																					);
+																					if (response.ok) {
+																						setTraceViewerLoading(true);
+																						setTraceViewerError(false);
+																						setShowTraceViewer(true);
+																					} else {
+																						setAnalysisError(
+																							"Trace session expired. Please re-analyze to view trace.",
+																						);
+																						setTraceSessionId(null);
+																					}
+																				} catch (error) {
 																					setAnalysisError(
-																						"Trace session expired. Please re-analyze to view trace.",
+																						"Failed to verify trace availability.",
 																					);
-																					setTraceSessionId(null);
 																				}
-																			} catch (error) {
-																				setAnalysisError(
-																					"Failed to verify trace availability.",
-																				);
-																			}
-																		}}
-																		className="flex items-center gap-1"
-																	>
-																		<FileTextIcon className="h-3 w-3" />
-																		View Trace
-																	</Button>
-																)}
+																			}}
+																			className="flex items-center gap-1"
+																		>
+																			<FileTextIcon className="h-3 w-3" />
+																			View Trace
+																		</Button>
+																	)}
+																</div>
 															</div>
-														</div>
-														{category && (
-															<p className="text-xs text-muted-foreground mt-2">
-																{category.reasoning}
-															</p>
-														)}
-													</CardHeader>
-													<CardContent className="space-y-2">
-														{/* Diagnosis Section - Prominent at top */}
-														{diagnosis && (
-															<Card
-																className={`mb-4 ${
-																	diagnosis.verdict === "app_issue"
-																		? "bg-destructive/10 border-destructive/20"
-																		: diagnosis.verdict === "test_issue"
-																			? "bg-secondary/10 border-secondary/20"
-																			: "bg-muted/50"
-																}`}
-															>
-																<CardContent className="pt-4">
-																	<div className="space-y-3">
-																		<div className="flex items-center gap-3 flex-wrap">
+															{category && (
+																<p className="text-xs text-muted-foreground mt-2">
+																	{category.reasoning}
+																</p>
+															)}
+														</CardHeader>
+														<CardContent className="space-y-2">
+															{/* Diagnosis Section - Prominent at top */}
+															{diagnosis && (
+																<Card
+																	className={`mb-4 ${
+																		diagnosis.verdict === "app_issue"
+																			? "bg-destructive/10 border-destructive/20"
+																			: diagnosis.verdict === "test_issue"
+																				? "bg-secondary/10 border-secondary/20"
+																				: "bg-muted/50"
+																	}`}
+																>
+																	<CardContent className="pt-4">
+																		<div className="space-y-3">
+																			<div className="flex items-center gap-3 flex-wrap">
+																				<div>
+																					<span className="text-sm font-medium">
+																						Verdict:{" "}
+																					</span>
+																					<Badge
+																						variant={getVerdictBadgeVariant(
+																							diagnosis.verdict,
+																						)}
+																						className="ml-2"
+																					>
+																						{getVerdictLabel(diagnosis.verdict)}
+																					</Badge>
+																				</div>
+																				<div>
+																					<span className="text-sm font-medium">
+																						Urgency:{" "}
+																					</span>
+																					<Badge
+																						variant={getUrgencyBadgeVariant(
+																							diagnosis.urgency,
+																						)}
+																						className="ml-2"
+																					>
+																						{getUrgencyLabel(diagnosis.urgency)}
+																					</Badge>
+																				</div>
+																			</div>
 																			<div>
-																				<span className="text-sm font-medium">
-																					Verdict:{" "}
+																				<span className="text-sm font-semibold">
+																					Recommended Action:{" "}
+																				</span>
+																				<span className="text-sm font-medium text-primary ml-2">
+																					{diagnosis.recommendedAction}
 																				</span>
-																				<Badge
-																					variant={getVerdictBadgeVariant(
-																						diagnosis.verdict,
-																					)}
-																					className="ml-2"
-																				>
-																					{getVerdictLabel(diagnosis.verdict)}
-																				</Badge>
 																			</div>
 																			<div>
 																				<span className="text-sm font-medium">
-																					Urgency:{" "}
+																					Reason:{" "}
 																				</span>
-																				<Badge
-																					variant={getUrgencyBadgeVariant(
-																						diagnosis.urgency,
-																					)}
-																					className="ml-2"
-																				>
-																					{getUrgencyLabel(diagnosis.urgency)}
-																				</Badge>
+																				<p className="text-sm text-muted-foreground mt-1">
+																					{diagnosis.reason}
+																				</p>
 																			</div>
 																		</div>
-																		<div>
-																			<span className="text-sm font-semibold">
-																				Recommended Action:{" "}
-																			</span>
-																			<span className="text-sm font-medium text-primary ml-2">
-																				{diagnosis.recommendedAction}
-																			</span>
-																		</div>
-																		<div>
-																			<span className="text-sm font-medium">
-																				Reason:{" "}
-																			</span>
-																			<p className="text-sm text-muted-foreground mt-1">
-																				{diagnosis.reason}
-																			</p>
-																		</div>
-																	</div>
-																</CardContent>
-															</Card>
-														)}
-
-														{/* Solution Suggestion Section - After Diagnosis */}
-														{solutionSuggestion && (
-															<Card className="mb-4 bg-primary/5 border-primary/20">
-																<CardHeader>
-																	<CardTitle className="text-base">
-																		Suggested Solution
-																	</CardTitle>
-																</CardHeader>
-																<CardContent className="space-y-4">
-																	{solutionSuggestion.explanation && (
-																		<div>
-																			<span className="text-sm font-medium">
-																				Explanation:{" "}
-																			</span>
-																			<p className="text-sm text-muted-foreground mt-1">
-																				{solutionSuggestion.explanation}
+																	</CardContent>
+																</Card>
+															)}
+
+															{/* Solution Suggestion Section - After Diagnosis */}
+															{solutionSuggestion && (
+																<Card className="mb-4 bg-primary/5 border-primary/20">
+																	<CardHeader>
+																		<CardTitle className="text-base">
+																			Suggested Solution
+																		</CardTitle>
+																	</CardHeader>
+																	<CardContent className="space-y-4">
+																		{solutionSuggestion.inheritedFrom && (
+																			<p className="text-xs text-muted-foreground">
+																				From the analysis of{" "}
+																				{solutionSuggestion.inheritedFrom},
+																				which shares this root cause; apply it
+																				to this test&apos;s own code.
 																			</p>
-																		</div>
-																	)}
+																		)}
+																		{solutionSuggestion.explanation && (
+																			<div>
+																				<span className="text-sm font-medium">
+																					Explanation:{" "}
+																				</span>
+																				<p className="text-sm text-muted-foreground mt-1">
+																					{solutionSuggestion.explanation}
+																				</p>
+																			</div>
+																		)}
 
-																	{/* Before/After Code Comparison */}
-																	{(solutionSuggestion.originalCode ||
-																		solutionSuggestion.suggestedCode) && (
-																		<div className="space-y-3">
-																			{solutionSuggestion.originalCode && (
+																		{/* Before/After Code Comparison */}
+																		{(solutionSuggestion.originalCode ||
+																			solutionSuggestion.suggestedCode) && (
+																			<div className="space-y-3">
+																				{solutionSuggestion.originalCode && (
+																					<div>
+																						<span className="text-sm font-medium">
+																							Original Code:{" "}
+																						</span>
+																						<Card className="bg-muted mt-2">
+																							<CardContent className="pt-4">
+																								<div className="flex items-center justify-between mb-2">
+																									<span className="text-xs text-muted-foreground">
+																										Before
+																									</span>
+																								</div>
+																								<pre className="text-xs overflow-auto max-h-32">
+																									<code>
+																										{
+																											solutionSuggestion.originalCode
+																										}
+																									</code>
+																								</pre>
+																							</CardContent>
+																						</Card>
+																					</div>
+																				)}
+
+																				{solutionSuggestion.suggestedCode && (
+																					<div>
+																						<span className="text-sm font-medium">
+																							Suggested Code:{" "}
+																						</span>
+																						<Card className="bg-muted mt-2">
+																							<CardContent className="pt-4">
+																								<div className="flex items-center justify-between mb-2">
+																									<span className="text-xs text-muted-foreground">
+																										After
+																									</span>
+																									<Button
+																										variant="outline"
+																										size="sm"
+																										onClick={() => {
+																											navigator.clipboard.writeText(
+																												solutionSuggestion.suggestedCode ||
+																													"",
+																											);
+																										}}
+																										className="h-6 text-xs"
+																									>
+																										Copy Code
+																									</Button>
+																								</div>
+																								<pre className="text-xs overflow-auto max-h-64">
+																									<code>
+																										{
+																											solutionSuggestion.suggestedCode
+																										}
+																									</code>
+																								</pre>
+																							</CardContent>
+																						</Card>
+																					</div>
+																				)}
+																			</div>
+																		)}
+
+																		{/* Step-by-step Instructions */}
+																		{solutionSuggestion.steps &&
+																			solutionSuggestion.steps.length > 0 && (
 																				<div>
-																					<span className="text-sm font-medium">
-																						Original Code:{" "}
+																					<span className="text-sm font-semibold">
+																						Implementation Steps:{" "}
 																					</span>
-																					<Card className="bg-muted mt-2">
-																						<CardContent className="pt-4">
-																							<div className="flex items-center justify-between mb-2">
-																								<span className="text-xs text-muted-foreground">
-																									Before
-																								</span>
-																							</div>
-																							<pre className="text-xs overflow-auto max-h-32">
-																								<code>
-																									{
-																										solutionSuggestion.originalCode
-																									}
-																								</code>
-																							</pre>
-																						</CardContent>
-																					</Card>
+																					<ol className="list-decimal list-inside mt-2 space-y-1">
+																						{solutionSuggestion.steps.map(
+																							(step, stepIndex) => (
+																								<li
+																									key={stepIndex}
+																									className="text-sm text-muted-foreground"
+																								>
+																									{step}
+																								</li>
+																							),
+																						)}
+																					</ol>
 																				</div>
 																			)}
 
-																			{solutionSuggestion.suggestedCode && (
+																		{/* Alternative Approaches */}
+																		{solutionSuggestion.alternativeApproaches &&
+																			solutionSuggestion.alternativeApproaches
+																				.length > 0 && (
 																				<div>
-																					<span className="text-sm font-medium">
-																						Suggested Code:{" "}
+																					<span className="text-sm font-semibold">
+																						Alternative Approaches:{" "}
 																					</span>
-																					<Card className="bg-muted mt-2">
-																						<CardContent className="pt-4">
-																							<div className="flex items-center justify-between mb-2">
-																								<span className="text-xs text-muted-foreground">
-																									After
-																								</span>
-																								<Button
-																									variant="outline"
-																									size="sm"
-																									onClick={() => {
-																										navigator.clipboard.writeText(
-																											solutionSuggestion.suggestedCode ||
-																												"",
-																										);
-																									}}
-																									className="h-6 text-xs"
+																					<ul className="list-disc list-inside mt-2 space-y-1">
+																						{solutionSuggestion.alternativeApproaches.map(
+																							(approach, altIndex) => (
+																								<li
+																									key={altIndex}
+																									className="text-sm text-muted-foreground"
 																								>
-																									Copy Code
-																								</Button>
-																							</div>
-																							<pre className="text-xs overflow-auto max-h-64">
-																								<code>
-																									{
-																										solutionSuggestion.suggestedCode
-																									}
-																								</code>
-																							</pre>
-																						</CardContent>
-																					</Card>
+																									{approach}
+																								</li>
+																							),
+																						)}
+																					</ul>
 																				</div>
 																			)}
-																		</div>
-																	)}
 
-																	{/* Step-by-step Instructions */}
-																	{solutionSuggestion.steps &&
-																		solutionSuggestion.steps.length > 0 && (
-																			<div>
-																				<span className="text-sm font-semibold">
-																					Implementation Steps:{" "}
-																				</span>
-																				<ol className="list-decimal list-inside mt-2 space-y-1">
-																					{solutionSuggestion.steps.map(
-																						(step, stepIndex) => (
-																							<li
-																								key={stepIndex}
-																								className="text-sm text-muted-foreground"
-																							>
-																								{step}
-																							</li>
-																						),
-																					)}
-																				</ol>
-																			</div>
-																		)}
+																		{/* Confidence Score */}
+																		<div>
+																			<span className="text-xs text-muted-foreground">
+																				Confidence:{" "}
+																				{(
+																					solutionSuggestion.confidence * 100
+																				).toFixed(0)}
+																				%
+																			</span>
+																		</div>
+																	</CardContent>
+																</Card>
+															)}
 
-																	{/* Alternative Approaches */}
-																	{solutionSuggestion.alternativeApproaches &&
-																		solutionSuggestion.alternativeApproaches
-																			.length > 0 && (
-																			<div>
-																				<span className="text-sm font-semibold">
-																					Alternative Approaches:{" "}
-																				</span>
-																				<ul className="list-disc list-inside mt-2 space-y-1">
-																					{solutionSuggestion.alternativeApproaches.map(
-																						(approach, altIndex) => (
-																							<li
-																								key={altIndex}
-																								className="text-sm text-muted-foreground"
-																							>
-																								{approach}
-																							</li>
-																						),
-																					)}
-																				</ul>
-																			</div>
+															<div>
+																<span className="text-sm font-medium">
+																	File:{" "}
+																</span>
+																<span className="text-sm">{failure.file}</span>
+															</div>
+															{failure.tags && (
+																<div className="flex items-center gap-1 flex-wrap">
+																	<span className="text-sm font-medium">
+																		Tags:{" "}
+																	</span>
+																	{failure.tags.map((tag) => (
+																		<Badge
+																			key={tag}
+																			variant="secondary"
+																			className="text-xs"
+																		>
+																			{tag}
+																		</Badge>
+																	))}
+																</div>
+															)}
+															{failure.annotations && (
+																<div>
+																	<span className="text-sm font-medium">
+																		Annotations:{" "}
+																	</span>
+																	<ul className="list-disc list-inside">
+																		{failure.annotations.map(
+																			(annotation, annotationIndex) => (
+																				<li
+																					key={annotationIndex}
+																					className="text-sm text-muted-foreground"
+																				>
+																					{annotation.type}
+																					{annotation.description &&
+																						`: ${annotation.description}`}
+																				</li>
+																			),
 																		)}
-
-																	{/* Confidence Score */}
-																	<div>
-																		<span className="text-xs text-muted-foreground">
-																			Confidence:{" "}
-																			{(
-																				solutionSuggestion.confidence * 100
-																			).toFixed(0)}
-																			%
-																		</span>
-																	</div>
-																</CardContent>
-															</Card>
-														)}
-
-														<div>
-															<span className="text-sm font-medium">
-																File:{" "}
-															</span>
-															<span className="text-sm">{failure.file}</span>
-														</div>
-														<div>
-															<span className="text-sm font-medium">
-																Failed Step:{" "}
-															</span>
-															<span className="text-sm">
-																{failure.failedStep}
-															</span>
-														</div>
-														<div>
-															<span className="text-sm font-medium">
-																Error:{" "}
-															</span>
-															<span className="text-sm text-destructive">
-																{failure.error}
-															</span>
-														</div>
-														{failure.timeout && (
+																	</ul>
+																</div>
+															)}
+															{failure.projectResults && (
+																<div className="flex items-center gap-1 flex-wrap">
+																	<span className="text-sm font-medium">
+																		Across projects:{" "}
+																	</span>
+																	{failure.projectResults.map((result) => (
+																		<Badge
+																			key={result.projectName}
+																			variant={
+																				result.outcome === "failed"
+																					? "destructive"
+																					: "outline"
+																			}
+																			className="text-xs"
+																		>
+																			{result.projectName}: {result.outcome}
+																		</Badge>
+																	))}
+																</div>
+															)}
+															{failure.affectedTests && (
+																<div>
+																	<span className="text-sm font-medium">
+																		Affected tests (
+																		{failure.affectedTests.length}, not analyzed
+																		separately):
+																	</span>
+																	<ul className="list-disc list-inside max-h-40 overflow-y-auto">
+																		{failure.affectedTests.map((test) => (
+																			<li
+																				key={test}
+																				className="text-sm text-muted-foreground"
+																			>
+																				{test}
+																			</li>
+																		))}
+																	</ul>
+																</div>
+															)}
 															<div>
 																<span className="text-sm font-medium">
-																	Timeout:{" "}
+																	Failed Step:{" "}
 																</span>
 																<span className="text-sm">
-																	{failure.timeout}ms
+																	{failure.failedStep}
 																</span>
 															</div>
-														)}
-														{(failure.lineNumber || failure.columnNumber) && (
 															<div>
 																<span className="text-sm font-medium">
-																	Location:{" "}
+																	Error:{" "}
 																</span>
-																<span className="text-sm">
-																	Line {failure.lineNumber}
-																	{failure.columnNumber &&
-																		`, Column ${failure.columnNumber}`}
+																<span className="text-sm text-destructive">
+																	{failure.error}
 																</span>
 															</div>
-														)}
-														{failure.stackTrace &&
-															failure.stackTrace.length > 0 && (
+															{failureErrors.length > 1 && (
 																<div>
 																	<span className="text-sm font-medium">
-																		Stack Trace:{" "}
+																		All Errors ({failureErrors.length}):
 																	</span>
-																	<Card className="bg-muted mt-2">
-																		<CardContent className="pt-4">
-																			<pre className="text-xs overflow-auto max-h-48">
-																				{failure.stackTrace.join("\n")}
-																			</pre>
-																		</CardContent>
-																	</Card>
+																	<div className="space-y-2 mt-2">
+																		{failureErrors.map(
+																			(analysis, errorIndex) => (
+																				<Card
+																					key={errorIndex}
+																					className="bg-muted"
+																				>
+																					<CardContent className="pt-4 space-y-1">
+																						<div className="flex items-center gap-2">
+																							<Badge
+																								variant={getCategoryBadgeVariant(
+																									analysis.category.category,
+																								)}
+																							>
+																								{getCategoryLabel(
+																									analysis.category.category,
+																								)}
+																								{analysis.category
+																									.subcategory &&
+																									` · ${getSubcategoryLabel(analysis.category.subcategory)}`}
+																								{analysis.category.label &&
+																									` · ${analysis.category.label}`}
+																							</Badge>
+																							<Badge
+																								variant={getVerdictBadgeVariant(
+																									analysis.diagnosis.verdict,
+																								)}
+																							>
+																								{getVerdictLabel(
+																									analysis.diagnosis.verdict,
+																								)}
+																							</Badge>
+																							<span className="text-xs text-muted-foreground">
+																								{analysis.error.failedStep}
+																								{analysis.error.lineNumber &&
+																									` (line ${analysis.error.lineNumber})`}
+																							</span>
+																						</div>
+																						<pre className="text-xs text-destructive whitespace-pre-wrap">
+																							{
+																								analysis.error.message.split(
+																									"\n",
+																								)[0]
+																							}
+																						</pre>
+																						<p className="text-xs text-muted-foreground">
+																							{
+																								analysis.diagnosis
+																									.recommendedAction
+																							}
+																						</p>
+																					</CardContent>
+																				</Card>
+																			),
+																		)}
+																	</div>
 																</div>
 															)}
-
-														{/* Screenshot Display */}
-														{screenshotUrls.length > 0 && (
-															<div className="mt-4 pt-4 border-t">
-																<h4 className="text-sm font-semibold mb-3">
-																	Screenshots
-																</h4>
-																<div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-																	{screenshotUrls.map((url, imgIndex) => (
-																		<div key={imgIndex} className="relative">
-																			<img
-																				src={url}
-																				alt={`Screenshot ${imgIndex + 1}`}
-																				className="w-full h-auto rounded border border-border max-h-96 object-contain bg-muted"
-																			/>
-																		</div>
-																	))}
+															{failure.timeout && (
+																<div>
+																	<span className="text-sm font-medium">
+																		Timeout:{" "}
+																	</span>
+																	<span className="text-sm">
+																		{failure.timeout}ms
+																	</span>
 																</div>
-															</div>
-														)}
-
-														{/* Artifact Signals Section */}
-														{signals && (
-															<div className="mt-4 pt-4 border-t">
-																<h4 className="text-sm font-semibold mb-3">
-																	UI State Analysis
-																</h4>
-																<div className="space-y-3">
-																	<div>
-																		<span className="text-sm font-medium">
-																			Page State:{" "}
-																		</span>
-																		<Badge
-																			variant={getPageStateBadgeVariant(
-																				signals.pageState,
-																			)}
-																			className="ml-2"
-																		>
-																			{getPageStateLabel(signals.pageState)}
-																		</Badge>
-																	</div>
+															)}
+															{(failure.lineNumber || failure.columnNumber) && (
+																<div>
+																	<span className="text-sm font-medium">
+																		Location:{" "}
+																	</span>
+																	<span className="text-sm">
+																		Line {failure.lineNumber}
+																		{failure.columnNumber &&
+																			`, Column ${failure.columnNumber}`}
+																	</span>
+																</div>
+															)}
+															{failure.stackTrace &&
+																failure.stackTrace.length > 0 && (
 																	<div>
 																		<span className="text-sm font-medium">
-																			UI State:{" "}
-																		</span>
-																		<span className="text-sm text-muted-foreground ml-2">
-																			{signals.uiState}
+																			Stack Trace:{" "}
 																		</span>
+																		<Card className="bg-muted mt-2">
+																			<CardContent className="pt-4">
+																				<pre className="text-xs overflow-auto max-h-48">
+																					{failure.stackTrace.join("\n")}
+																				</pre>
+																			</CardContent>
+																		</Card>
 																	</div>
-																	{signals.blockingFactors &&
-																		signals.blockingFactors.length > 0 && (
-																			<div>
-																				<span className="text-sm font-medium">
-																					Blocking Factors:{" "}
-																				</span>
-																				<ul className="list-disc list-inside mt-1 space-y-1">
-																					{signals.blockingFactors.map(
-																						(factor, factorIndex) => (
-																							<li
-																								key={factorIndex}
-																								className="text-sm text-muted-foreground"
-																							>
-																								{factor}
-																							</li>
-																						),
-																					)}
-																				</ul>
+																)}
+
+															{/* Screenshot Display */}
+															{screenshotUrls.length > 0 && (
+																<div className="mt-4 pt-4 border-t">
+																	<h4 className="text-sm font-semibold mb-3">
+																		Screenshots
+																	</h4>
+																	<div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+																		{screenshotUrls.map((url, imgIndex) => (
+																			<div key={imgIndex} className="relative">
+																				<img
+																					src={url}
+																					alt={`Screenshot ${imgIndex + 1}`}
+																					className="w-full h-auto rounded border border-border max-h-96 object-contain bg-muted"
+																				/>
 																			</div>
-																		)}
+																		))}
+																	</div>
 																</div>
-															</div>
-														)}
-														{signals === null && artifactSignals !== null && (
-															<div className="mt-4 pt-4 border-t">
-																<p className="text-xs text-muted-foreground">
-																	Artifact correlation unavailable (trace.zip
-																	required)
-																</p>
-															</div>
-														)}
-
-														{/* Selector Analysis Section */}
-														{selectorAnalysis && (
-															<div className="mt-4 pt-4 border-t">
-																<h4 className="text-sm font-semibold mb-3">
-																	Selector Analysis
-																</h4>
-																<div className="space-y-3">
-																	<div>
-																		<span className="text-sm font-medium">
-																			Quality:{" "}
-																		</span>
-																		<Badge
-																			variant={
-																				selectorAnalysis.selectorQuality ===
-																				"excellent"
-																					? "default"
-																					: selectorAnalysis.selectorQuality ===
-																							"good"
+															)}
+
+															{/* Artifact Signals Section */}
+															{signals && (
+																<div className="mt-4 pt-4 border-t">
+																	<h4 className="text-sm font-semibold mb-3">
+																		UI State Analysis
+																	</h4>
+																	<div className="space-y-3">
+																		<div>
+																			<span className="text-sm font-medium">
+																				Page State:{" "}
+																			</span>
+																			<Badge
+																				variant={getPageStateBadgeVariant(
+																					signals.pageState,
+																				)}
+																				className="ml-2"
+																			>
+																				{getPageStateLabel(signals.pageState)}
+																			</Badge>
+																		</div>
+																		<div>
+																			<span className="text-sm font-medium">
+																				UI State:{" "}
+																			</span>
+																			<span className="text-sm text-muted-foreground ml-2">
+																				{signals.uiState}
+																			</span>
+																		</div>
+																		{signals.blockingFactors &&
+																			signals.blockingFactors.length > 0 && (
+																				<div>
+																					<span className="text-sm font-medium">
+																						Blocking Factors:{" "}
+																					</span>
+																					<ul className="list-disc list-inside mt-1 space-y-1">
+																						{signals.blockingFactors.map(
+																							(factor, factorIndex) => (
+																								<li
+																									key={factorIndex}
+																									className="text-sm text-muted-foreground"
+																								>
+																									{factor}
+																								</li>
+																							),
+																						)}
+																					</ul>
+																				</div>
+																			)}
+																		{signals.testOutput &&
+																			signals.testOutput.length > 0 && (
+																				<div>
+																					<span className="text-sm font-medium">
+																						Test Output:{" "}
+																					</span>
+																					<pre className="text-xs bg-muted p-2 rounded mt-1 overflow-auto max-h-48">
+																						{signals.testOutput.join("\n")}
+																					</pre>
+																				</div>
+																			)}
+																	</div>
+																</div>
+															)}
+															{signals === null && artifactSignals !== null && (
+																<div className="mt-4 pt-4 border-t">
+																	<p className="text-xs text-muted-foreground">
+																		Artifact correlation unavailable (trace.zip
+																		required)
+																	</p>
+																</div>
+															)}
+
+															{/* Selector Analysis Section */}
+															{selectorAnalysis && (
+																<div className="mt-4 pt-4 border-t">
+																	<h4 className="text-sm font-semibold mb-3">
+																		Selector Analysis
+																	</h4>
+																	<div className="space-y-3">
+																		<div>
+																			<span className="text-sm font-medium">
+																				Quality:{" "}
+																			</span>
+																			<Badge
+																				variant={
+																					selectorAnalysis.selectorQuality ===
+																					"excellent"
 																						? "default"
 																						: selectorAnalysis.selectorQuality ===
-																								"fragile"
-																							? "secondary"
-																							: "destructive"
-																			}
-																			className="ml-2"
-																		>
-																			{selectorAnalysis.selectorQuality}
-																		</Badge>
-																		<span className="text-xs text-muted-foreground ml-2">
-																			(Score:{" "}
-																			{(
-																				selectorAnalysis.qualityScore * 100
-																			).toFixed(0)}
-																			%)
-																		</span>
-																	</div>
-																	{selectorAnalysis.issues &&
-																		selectorAnalysis.issues.length > 0 && (
+																								"good"
+																							? "default"
+																							: selectorAnalysis.selectorQuality ===
+																									"fragile"
+																								? "secondary"
+																								: "destructive"
+																				}
+																				className="ml-2"
+																			>
+																				{selectorAnalysis.selectorQuality}
+																			</Badge>
+																			<span className="text-xs text-muted-foreground ml-2">
+																				(Score:{" "}
+																				{(
+																					selectorAnalysis.qualityScore * 100
+																				).toFixed(0)}
+																				%)
+																			</span>
+																		</div>
+																		{selectorAnalysis.issues &&
+																			selectorAnalysis.issues.length > 0 && (
+																				<div>
+																					<span className="text-sm font-medium">
+																						Issues:{" "}
+																					</span>
+																					<ul className="list-disc list-inside mt-1 space-y-1">
+																						{selectorAnalysis.issues.map(
+																							(issue, issueIndex) => (
+																								<li
+																									key={issueIndex}
+																									className="text-sm text-muted-foreground"
+																								>
+																									{issue}
+																								</li>
+																							),
+																						)}
+																					</ul>
+																				</div>
+																			)}
+																		{selectorAnalysis.suggestedSelector && (
 																			<div>
 																				<span className="text-sm font-medium">
-																					Issues:{" "}
+																					Suggested Selector:{" "}
 																				</span>
-																				<ul className="list-disc list-inside mt-1 space-y-1">
-																					{selectorAnalysis.issues.map(
-																						(issue, issueIndex) => (
-																							<li
-																								key={issueIndex}
-																								className="text-sm text-muted-foreground"
-																							>
-																								{issue}
-																							</li>
-																						),
-																					)}
-																				</ul>
+																				<Card className="bg-muted mt-2">
+																					<CardContent className="pt-4">
+																						<code className="text-xs text-primary font-mono">
+																							{
+																								selectorAnalysis.suggestedSelector
+																							}
+																						</code>
+																					</CardContent>
+																				</Card>
+																				{selectorAnalysis.suggestionReason && (
+																					<p className="text-xs text-muted-foreground mt-2">
+																						{selectorAnalysis.suggestionReason}
+																					</p>
+																				)}
 																			</div>
 																		)}
-																	{selectorAnalysis.suggestedSelector && (
 																		<div>
-																			<span className="text-sm font-medium">
-																				Suggested Selector:{" "}
+																			<span className="text-xs text-muted-foreground">
+																				Confidence:{" "}
+																				{(
+																					selectorAnalysis.confidence * 100
+																				).toFixed(0)}
+																				%
 																			</span>
-																			<Card className="bg-muted mt-2">
-																				<CardContent className="pt-4">
-																					<code className="text-xs text-primary font-mono">
-																						{selectorAnalysis.suggestedSelector}
-																					</code>
-																				</CardContent>
-																			</Card>
-																			{selectorAnalysis.suggestionReason && (
-																				<p className="text-xs text-muted-foreground mt-2">
-																					{selectorAnalysis.suggestionReason}
-																				</p>
-																			)}
 																		</div>
-																	)}
-																	<div>
-																		<span className="text-xs text-muted-foreground">
-																			Confidence:{" "}
-																			{(
-																				selectorAnalysis.confidence * 100
-																			).toFixed(0)}
-																			%
-																		</span>
 																	</div>
 																</div>
-															</div>
-														)}
-														{selectorAnalysis === null &&
-															selectorAnalyses !== null &&
-															category?.category === "selector_not_found" && (
+															)}
+															{selectorAnalysis === null &&
+																selectorAnalyses !== null &&
+																category?.category === "selector_not_found" && (
+																	<div className="mt-4 pt-4 border-t">
+																		<p className="text-xs text-muted-foreground">
+																			Selector analysis unavailable (could not
+																			extract selector from failed step)
+																		</p>
+																	</div>
+																)}
+
+															{/* Diagnosis unavailable message */}
+															{diagnosis === null && diagnoses !== null && (
 																<div className="mt-4 pt-4 border-t">
 																	<p className="text-xs text-muted-foreground">
-																		Selector analysis unavailable (could not
-																		extract selector from failed step)
+																		Diagnosis unavailable (insufficient data to
+																		determine verdict)
 																	</p>
 																</div>
 															)}
-
-														{/* Diagnosis unavailable message */}
-														{diagnosis === null && diagnoses !== null && (
-															<div className="mt-4 pt-4 border-t">
-																<p className="text-xs text-muted-foreground">
-																	Diagnosis unavailable (insufficient data to
-																	determine verdict)
-																</p>
-															</div>
-														)}
-													</CardContent>
-												</Card>
-											);
-										})
+														</CardContent>
+													</Card>
+												);
+											})}
+										</>
 									)}
 								</div>
 							)}
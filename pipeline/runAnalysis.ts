@@ -3,32 +3,61 @@
  *
  * Orchestrates multiple agents in sequence:
  * - Phase 1: Report Decomposition
+ * - Clustering: one representative per root cause is analyzed in depth
  * - Phase 2: Failure Classification
  * - Phase 3: Artifact Correlation
  * - Phase 4: Selector Heuristics
  * - Phase 5: Action Synthesis
  * - Phase 5.5: Solution Suggestion
+ * - Phase 5.6: Per-error analysis (failures with several errors)
  */
 
 import type {
 	PlaywrightArtifacts,
+	TestFailureFacts,
 	FailureCategory,
 	ArtifactSignals,
 	SelectorAnalysis,
 	FinalDiagnosis,
 	SolutionSuggestion,
+	TestError,
+	ErrorAnalysis,
 } from "@/types/schemas";
 import {
 	decomposeReport,
 	type ReportDecomposerInput,
 } from "@/agents/reportDecomposer";
-import { classifyFailures } from "@/agents/failureClassifier";
+import {
+	classifyFailure,
+	classifyFailures,
+	withRunnerUp,
+} from "@/agents/failureClassifier";
 import { correlateArtifacts } from "@/agents/artifactCorrelator";
 import { analyzeSelectorHeuristics } from "@/agents/selectorHeuristics";
-import { synthesizeAction } from "@/agents/actionSynthesizer";
+import { combineDiagnoses, synthesizeAction } from "@/agents/actionSynthesizer";
 import { suggestSolution } from "@/agents/solutionSuggester";
-import { readTraceZip } from "@/tools/readTrace";
-import { extractDOMSnapshot } from "@/tools/extractDOM";
+import { readTraceZip, type TraceData } from "@/tools/readTrace";
+import { extractDOMSnapshot, type DOMSnapshot } from "@/tools/extractDOM";
+import {
+	buildTraceIndex,
+	getActionByCallId,
+	type TraceIndex,
+} from "@/tools/traceIndex";
+import { findFailedTestStep, getStepPath } from "@/tools/testSteps";
+import { resolveFailureAnchor } from "@/tools/resolveFailureAnchor";
+import {
+	resolveConsoleLogs,
+	resolveFailureArtifacts,
+} from "@/tools/resolveAttachments";
+import { readRunContext } from "@/tools/runContext";
+import {
+	collectRuleEvidence,
+	loadClassificationRules,
+} from "@/tools/classificationRules";
+import {
+	clusterFailures,
+	getFailureSignature,
+} from "@/tools/fingerprintFailure";
 
 /**
  * Run the complete analysis pipeline
@@ -37,6 +66,17 @@ import { extractDOMSnapshot } from "@/tools/extractDOM";
  * @returns Analysis results
  */
 export async function runAnalysis(artifacts: PlaywrightArtifacts) {
+	// User classification rules; an invalid rules file fails the analysis
+	// with the problems it has
+	const classificationRules = await loadClassificationRules(
+		artifacts.rulesFile,
+	);
+	if (classificationRules.length > 0) {
+		console.log(
+			`[Pipeline] Loaded ${classificationRules.length} classification rule(s): ${classificationRules.map((rule) => rule.id).join(", ")}`,
+		);
+	}
+
 	// Phase 1: Report Decomposition
 	const reportJson =
 		typeof artifacts.reportJson === "string"
@@ -48,64 +88,176 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 		contextMd: artifacts.contextMd,
 	};
 
-	const failureFacts = await decomposeReport(decompositionInput);
+	// Console logs attached as files are read from the uploaded bundle
+	const decomposedFacts = (await decomposeReport(decompositionInput)).map(
+		(facts) => resolveConsoleLogs(facts, artifacts),
+	);
+
+	// Run configuration (timeouts, baseURL, projects), shared by every agent
+	const runContext = readRunContext(reportJson);
+	if (runContext) {
+		console.log(
+			`[Pipeline] Run configuration: Playwright ${runContext.playwrightVersion || "unknown"}, ${runContext.projects.length} project(s), ${runContext.workers ?? "default"} workers`,
+		);
+	}
+
+	const flakyCount = decomposedFacts.filter(
+		(facts) => facts.outcome === "flaky",
+	).length;
+	if (flakyCount > 0) {
+		console.log(
+			`[Pipeline] ${flakyCount} of ${decomposedFacts.length} failed tests passed on retry (flaky)`,
+		);
+	}
+
+	for (const facts of decomposedFacts) {
+		if (facts.affectedTests) {
+			console.log(
+				`[Pipeline] ${facts.scopeName} failure accounts for ${facts.affectedTests.length} failed tests; analyzing it once`,
+			);
+		}
+	}
+
+	const projectCounts = new Map<string, number>();
+	for (const facts of decomposedFacts) {
+		if (facts.projectName) {
+			projectCounts.set(
+				facts.projectName,
+				(projectCounts.get(facts.projectName) || 0) + 1,
+			);
+		}
+	}
+	if (projectCounts.size > 1) {
+		console.log(
+			`[Pipeline] Failures by project: ${[...projectCounts].map(([name, count]) => `${name} ${count}`).join(", ")}`,
+		);
+	}
+
+	// Analyze each failure with its own trace, screenshots and video from the
+	// report attachments; every phase shares the trace indexes
+	const failureArtifacts = decomposedFacts.map((facts) =>
+		resolveFailureArtifacts(facts, artifacts),
+	);
+	const traceIndexes = await readTraceIndexes(failureArtifacts);
+
+	// Locate the failed step in the trace's test-runner steps, so it is
+	// known even when the report has no steps, then anchor each failure on
+	// its own failing trace action
+	const failureFacts = decomposedFacts.map((decomposed, i) => {
+		const traceIndex = traceIndexes[i];
+		if (!traceIndex) {
+			return decomposed;
+		}
+		const facts = applyTraceSteps(decomposed, traceIndex.traceData);
+		const failureAnchor = resolveFailureAnchor(traceIndex, facts);
+		console.log(
+			`[Pipeline] Failure anchor for "${facts.testName}": ${failureAnchor.callId || "trace end"} (${failureAnchor.matchedBy.join(", ") || "no match"})`,
+		);
+		return { ...facts, failureAnchor };
+	});
+
+	// Failures with the same error fingerprint on the same selector and page
+	// (or test line), outcome and scope share a root cause: one representative
+	// per cluster is analyzed in depth and its result fans out to the other
+	// members
+	const clusters = clusterFailures(
+		failureFacts.map((facts, i) => getFailureSignature(facts, traceIndexes[i])),
+		traceIndexes.map((traceIndex) => traceIndex !== null),
+	);
+	const representativeOf: number[] = [];
+	for (const cluster of clusters) {
+		for (const member of cluster.memberIndexes) {
+			representativeOf[member] = cluster.representativeIndex;
+		}
+		if (cluster.memberIndexes.length > 1) {
+			console.log(
+				`[Pipeline] 1 root cause, ${cluster.memberIndexes.length} affected tests; analyzing "${failureFacts[cluster.representativeIndex].testName}": ${cluster.fingerprint.substring(0, 100)}`,
+			);
+		}
+	}
+	const isRepresentative = (i: number) => representativeOf[i] === i;
+	const representatives = clusters.map(
+		(cluster) => cluster.representativeIndex,
+	);
+
+	// DOM snapshot at each failure anchor, shared by Phases 3, 4 and 5.5
+	const domSnapshots: Array<DOMSnapshot | null> = [];
+	for (const [i, facts] of failureFacts.entries()) {
+		const traceIndex = traceIndexes[i];
+		const anchor = facts.failureAnchor;
+		domSnapshots.push(
+			traceIndex && anchor && isRepresentative(i)
+				? await extractDOMSnapshot(traceIndex, anchor.timestamp, {
+						callId: anchor.callId,
+						pageId: anchor.pageId,
+					})
+				: null,
+		);
+	}
 
 	// Phase 2: Failure Classification
-	const failureCategories: FailureCategory[] =
-		failureFacts.length > 0 ? await classifyFailures(failureFacts) : [];
+	// User rules match the page URL, console and network of each trace
+	const ruleEvidence = failureFacts.map((facts, i) =>
+		classificationRules.length > 0 && isRepresentative(i)
+			? collectRuleEvidence(facts, traceIndexes[i])
+			: null,
+	);
+	const representativeCategories: FailureCategory[] =
+		failureFacts.length > 0
+			? await classifyFailures(
+					representatives.map((i) => failureFacts[i]),
+					runContext,
+					classificationRules,
+					representatives.map((i) => ruleEvidence[i]),
+				)
+			: [];
+	const failureCategories: FailureCategory[] = failureFacts.map(
+		(_, i) =>
+			representativeCategories[representatives.indexOf(representativeOf[i])],
+	);
 
 	// Phase 3: Artifact Correlation (conditional - requires trace.zip)
-	const artifactSignals: Array<ArtifactSignals | null> = [];
-	let traceData: Awaited<ReturnType<typeof readTraceZip>> | null = null;
-
-	if (artifacts.traceZip && failureFacts.length > 0) {
-		// Read trace data once for reuse
-		traceData = await readTraceZip(artifacts.traceZip);
-
-		// Correlate artifacts for each failure
-		const correlations = await Promise.all(
-			failureFacts.map((facts) =>
-				correlateArtifacts({
-					failureFacts: facts,
-					artifacts,
-				}),
-			),
+	// Failures without a trace get null; so do cluster members until the
+	// results fan out
+	const artifactSignals: Array<ArtifactSignals | null> = await Promise.all(
+		failureFacts.map((facts, i) => {
+			const traceIndex = traceIndexes[i];
+			return traceIndex && isRepresentative(i)
+				? correlateArtifacts({
+						failureFacts: facts,
+						artifacts: failureArtifacts[i],
+						traceIndex,
+						domSnapshot: domSnapshots[i],
+						runContext,
+					})
+				: null;
+		}),
+	);
+
+	// Artifacts that contradict a category switch it to the runner-up, for the
+	// later phases and the reported category alike
+	for (const [i, failureCategory] of failureCategories.entries()) {
+		failureCategories[i] = withRunnerUp(
+			failureCategory,
+			artifactSignals[representativeOf[i]],
 		);
-		artifactSignals.push(...correlations);
-	} else {
-		// No trace available, return null for each failure
-		artifactSignals.push(...failureFacts.map(() => null));
 	}
 
 	// Phase 4: Selector Heuristics Agent (conditional - only for selector-related failures)
 	const selectorAnalyses: Array<SelectorAnalysis | null> = [];
 
 	if (failureFacts.length > 0 && failureCategories.length > 0) {
-		// Extract DOM snapshots for each failure (if trace available)
-		const domSnapshots: Array<Awaited<
-			ReturnType<typeof extractDOMSnapshot>
-		> | null> = [];
-
-		if (traceData) {
-			// Extract DOM snapshot for each failure
-			for (let i = 0; i < failureFacts.length; i++) {
-				const failureTime =
-					traceData.metadata?.endTime ||
-					(traceData.actions.length > 0
-						? Math.max(...traceData.actions.map((a) => a.timestamp))
-						: Date.now());
-				const domSnapshot = await extractDOMSnapshot(traceData, failureTime);
-				domSnapshots.push(domSnapshot);
-			}
-		} else {
-			// No trace available, no DOM snapshots
-			domSnapshots.push(...failureFacts.map(() => null));
-		}
-
 		// Run selector heuristics for each failure
 		for (let i = 0; i < failureFacts.length; i++) {
+			if (!isRepresentative(i)) {
+				selectorAnalyses.push(null);
+				continue;
+			}
+
 			const failureCategory = failureCategories[i];
 			const domSnapshot = domSnapshots[i];
+			const traceIndex = traceIndexes[i];
+			const traceData = traceIndex?.traceData;
 
 			// Check if this is a selector-related failure
 			const isSelectorRelated =
@@ -123,35 +275,23 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 					`[Pipeline] Looking for failed action in trace. Total actions: ${traceData.actions.length}`,
 				);
 
-				// Find actions with errors, closest to failure time
-				const failureTime =
-					traceData.metadata?.endTime ||
-					(traceData.actions.length > 0
-						? Math.max(...traceData.actions.map((a) => a.timestamp))
-						: Date.now());
-
-				// Find actions with errors, sorted by proximity to failure time
-				const actionsWithErrors = traceData.actions
-					.filter((a) => a.error)
-					.sort(
-						(a, b) =>
-							Math.abs(a.timestamp - failureTime) -
-							Math.abs(b.timestamp - failureTime),
-					);
-
-				console.log(
-					`[Pipeline] Found ${actionsWithErrors.length} actions with errors`,
-				);
+				// Use the action this failure is anchored on
+				const anchor = failureFacts[i].failureAnchor;
+				const anchoredAction =
+					traceIndex && anchor?.callId
+						? getActionByCallId(traceIndex, anchor.callId)
+						: null;
 
-				if (actionsWithErrors.length > 0) {
-					failedAction = actionsWithErrors[0];
+				if (anchoredAction) {
+					failedAction = anchoredAction;
 					console.log("[Pipeline] Using failed action:", {
+						callId: failedAction.callId,
 						actionName: failedAction.action?.name,
 						selector: failedAction.action?.selector,
 						error: failedAction.error?.message?.substring(0, 100),
 					});
 				} else {
-					// If no actions with errors, try to find the last action (might be the one that failed)
+					// If no action is anchored, try to find the last action (might be the one that failed)
 					const lastAction =
 						traceData.actions.length > 0
 							? traceData.actions[traceData.actions.length - 1]
@@ -178,6 +318,7 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 					failureCategory,
 					domSnapshot,
 					failedAction,
+					runContext,
 				});
 				selectorAnalyses.push(analysis);
 			} else {
@@ -194,11 +335,18 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 
 	if (failureFacts.length > 0) {
 		for (let i = 0; i < failureFacts.length; i++) {
+			if (!isRepresentative(i)) {
+				diagnoses.push(null);
+				continue;
+			}
+
 			const diagnosis = await synthesizeAction({
 				failureFacts: failureFacts[i],
 				failureCategory: failureCategories[i],
 				artifactSignals: artifactSignals[i],
 				selectorAnalysis: selectorAnalyses[i],
+				runContext,
+				rules: classificationRules,
 			});
 			diagnoses.push(diagnosis);
 		}
@@ -208,25 +356,6 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 	const solutionSuggestions: Array<SolutionSuggestion | null> = [];
 
 	if (failureFacts.length > 0 && diagnoses.length > 0) {
-		// Extract DOM snapshots for solution suggester (reuse from Phase 4 if available)
-		const domSnapshotsForSolutions: Array<Awaited<
-			ReturnType<typeof extractDOMSnapshot>
-		> | null> = [];
-
-		if (traceData) {
-			for (let i = 0; i < failureFacts.length; i++) {
-				const failureTime =
-					traceData.metadata?.endTime ||
-					(traceData.actions.length > 0
-						? Math.max(...traceData.actions.map((a) => a.timestamp))
-						: Date.now());
-				const domSnapshot = await extractDOMSnapshot(traceData, failureTime);
-				domSnapshotsForSolutions.push(domSnapshot);
-			}
-		} else {
-			domSnapshotsForSolutions.push(...failureFacts.map(() => null));
-		}
-
 		for (let i = 0; i < failureFacts.length; i++) {
 			const diagnosis = diagnoses[i];
 
@@ -238,7 +367,8 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 					artifactSignals: artifactSignals[i],
 					selectorAnalysis: selectorAnalyses[i],
 					finalDiagnosis: diagnosis,
-					domSnapshot: domSnapshotsForSolutions[i],
+					domSnapshot: domSnapshots[i],
+					runContext,
 				});
 				solutionSuggestions.push(suggestion);
 			} else {
@@ -250,12 +380,209 @@ export async function runAnalysis(artifacts: PlaywrightArtifacts) {
 		solutionSuggestions.push(...failureFacts.map(() => null));
 	}
 
+	// Phase 5.6: Per-error analysis (soft assertions, teardown errors)
+	// The first error is the one analyzed above; the others are classified,
+	// diagnosed and solved on their own, and the verdict combines them all
+	const errorAnalyses: ErrorAnalysis[][] = [];
+
+	for (let i = 0; i < failureFacts.length; i++) {
+		const errors = failureFacts[i].errors;
+		const diagnosis = diagnoses[i];
+		if (!errors || errors.length < 2 || !diagnosis) {
+			errorAnalyses.push([]);
+			continue;
+		}
+
+		const analyses: ErrorAnalysis[] = [
+			{
+				error: errors[0],
+				category: failureCategories[i],
+				diagnosis,
+				solution: solutionSuggestions[i],
+			},
+		];
+		for (const error of errors.slice(1)) {
+			const errorFacts = toErrorFacts(failureFacts[i], error);
+			const category = withRunnerUp(
+				await classifyFailure({
+					facts: errorFacts,
+					runContext,
+					rules: classificationRules,
+					ruleEvidence: ruleEvidence[i],
+				}),
+				artifactSignals[i],
+			);
+			const errorDiagnosis = await synthesizeAction({
+				failureFacts: errorFacts,
+				failureCategory: category,
+				artifactSignals: artifactSignals[i],
+				selectorAnalysis: null,
+				runContext,
+				rules: classificationRules,
+			});
+			if (!errorDiagnosis) continue;
+
+			const solution = await suggestSolution({
+				failureFacts: errorFacts,
+				failureCategory: category,
+				artifactSignals: artifactSignals[i],
+				selectorAnalysis: null,
+				finalDiagnosis: errorDiagnosis,
+				domSnapshot: domSnapshots[i],
+				runContext,
+			});
+			analyses.push({ error, category, diagnosis: errorDiagnosis, solution });
+		}
+
+		console.log(
+			`[Pipeline] Analyzed ${analyses.length} errors for "${failureFacts[i].testName}"`,
+		);
+		diagnoses[i] = combineDiagnoses(analyses.map((a) => a.diagnosis));
+		errorAnalyses.push(analyses);
+	}
+
+	// Members of a cluster get the analysis of its representative; its
+	// solutions are marked as inherited, without the representative's code
+	const toMemberSolution = (
+		solution: SolutionSuggestion | null,
+		i: number,
+	): SolutionSuggestion | null => {
+		if (!solution || isRepresentative(i)) {
+			return solution;
+		}
+		const representative = failureFacts[representativeOf[i]];
+		return {
+			...solution,
+			originalCode: null,
+			suggestedCode: null,
+			inheritedFrom: `${representative.file} › ${representative.testName}`,
+		};
+	};
+
 	return {
 		failureFacts,
 		failureCategories,
-		artifactSignals,
-		selectorAnalyses,
-		diagnoses,
-		solutionSuggestions,
+		artifactSignals: fanOutToMembers(artifactSignals, representativeOf),
+		selectorAnalyses: fanOutToMembers(selectorAnalyses, representativeOf),
+		diagnoses: fanOutToMembers(diagnoses, representativeOf),
+		solutionSuggestions: fanOutToMembers(
+			solutionSuggestions,
+			representativeOf,
+		).map(toMemberSolution),
+		errorAnalyses: fanOutToMembers(errorAnalyses, representativeOf).map(
+			(analyses, i) =>
+				analyses.map((analysis) => ({
+					...analysis,
+					solution: toMemberSolution(analysis.solution, i),
+				})),
+		),
+		clusters,
+		runContext,
+	};
+}
+
+/**
+ * Give every failure the result of its cluster's representative
+ *
+ * @param values - Result of each failure, set for representatives
+ * @param representativeOf - Representative index of each failure
+ * @returns Result of each failure
+ */
+function fanOutToMembers<T>(values: T[], representativeOf: number[]): T[] {
+	return values.map((_, i) => values[representativeOf[i]]);
+}
+
+/**
+ * Failure facts describing one of the errors of a failure
+ */
+function toErrorFacts(
+	facts: TestFailureFacts,
+	error: TestError,
+): TestFailureFacts {
+	return {
+		...facts,
+		failedStep: error.failedStep,
+		error: error.message,
+		file: error.file || facts.file,
+		lineNumber: error.lineNumber,
+		columnNumber: error.columnNumber,
+		snippet: error.snippet,
+		stackTrace: undefined,
+		stepPath: undefined,
+		failureAnchor: undefined,
+		errors: undefined,
+	};
+}
+
+/**
+ * Read and index the trace of each failure
+ *
+ * Failures sharing a trace (the run-level one, or the same attachment)
+ * share its index, so each trace is read once.
+ *
+ * @param failureArtifacts - Artifacts of each failure
+ * @returns Trace index of each failure, or null if it has no trace
+ */
+async function readTraceIndexes(
+	failureArtifacts: PlaywrightArtifacts[],
+): Promise<Array<TraceIndex | null>> {
+	const indexes = new Map<Buffer | File, TraceIndex>();
+	const traceIndexes: Array<TraceIndex | null> = [];
+
+	for (const { traceZip } of failureArtifacts) {
+		if (!traceZip) {
+			traceIndexes.push(null);
+			continue;
+		}
+		let traceIndex = indexes.get(traceZip);
+		if (!traceIndex) {
+			traceIndex = buildTraceIndex(await readTraceZip(traceZip));
+			indexes.set(traceZip, traceIndex);
+		}
+		traceIndexes.push(traceIndex);
+	}
+
+	console.log(
+		`[Pipeline] Read ${indexes.size} trace(s) for ${failureArtifacts.length} failure(s)`,
+	);
+	return traceIndexes;
+}
+
+/**
+ * Enrich failure facts with the failed test-runner step from the trace
+ *
+ * The trace covers a single test, so the step is only applied when its
+ * source location matches the failure (same file, and same line if known).
+ *
+ * @param facts - Failure facts from the report
+ * @param traceData - Parsed trace data
+ * @returns Failure facts with stepPath and location filled in
+ */
+function applyTraceSteps(
+	facts: TestFailureFacts,
+	traceData: TraceData,
+): TestFailureFacts {
+	const failedStep = findFailedTestStep(traceData);
+	if (!failedStep?.location) {
+		return facts;
+	}
+
+	const { file, line, column } = failedStep.location;
+	const fileName = (path: string) => path.split(/[\\/]/).pop();
+	if (
+		fileName(file) !== fileName(facts.file) ||
+		(facts.lineNumber !== undefined && facts.lineNumber !== line)
+	) {
+		return facts;
+	}
+
+	const stepPath = getStepPath(traceData, failedStep).map((step) => step.title);
+	console.log(`[Pipeline] Failed step from trace: ${stepPath.join(" > ")}`);
+
+	return {
+		...facts,
+		stepPath,
+		lineNumber: facts.lineNumber ?? line,
+		columnNumber: facts.columnNumber ?? column,
 	};
 }
@@ -0,0 +1,226 @@
+/**
+ * Analyze Playwright call logs for actionability problems
+ *
+ * Before acting on an element Playwright waits for it to be attached, visible,
+ * stable, enabled and able to receive events, logging every check:
+ *
+ *   - waiting for locator('#submit')
+ *   - locator resolved to <button id="submit">Pay</button>
+ *   - attempting click action
+ *   - element is not stable
+ *   - <div class="overlay"></div> intercepts pointer events
+ *   - retrying click action, attempt #2
+ *
+ * The same lines appear in trace `log` events and in the "Call log:" section
+ * of report errors. Repeated lines may be folded as "9 × ...".
+ */
+
+import { stripAnsi } from "./stripAnsi";
+
+/**
+ * Structured findings from a call log
+ */
+export interface ActionabilityFindings {
+	retryCount: number; // Retried actions, or extra polls of an expect
+	resolvedElement?: string; // Last element the locator resolved to
+	resolvedCount?: number; // Elements matched when more than one (strict mode)
+	interceptingElement?: string; // Element receiving the pointer events instead
+	notVisible: boolean;
+	notStable: boolean;
+	notEnabled: boolean;
+	notEditable: boolean;
+	outsideViewport: boolean;
+	detached: boolean;
+	lastIssue?: string; // Last actionability problem reported
+}
+
+/**
+ * Actionability problems reported in call logs
+ */
+const ISSUE_PATTERNS: Array<{
+	pattern: RegExp;
+	flag: keyof Pick<
+		ActionabilityFindings,
+		| "notVisible"
+		| "notStable"
+		| "notEnabled"
+		| "notEditable"
+		| "outsideViewport"
+		| "detached"
+	>;
+}> = [
+	{ pattern: /^element is not visible/i, flag: "notVisible" },
+	{ pattern: /^element is not stable/i, flag: "notStable" },
+	{ pattern: /^element is not enabled/i, flag: "notEnabled" },
+	{ pattern: /^element is not editable/i, flag: "notEditable" },
+	{ pattern: /^element is outside of the viewport/i, flag: "outsideViewport" },
+	{
+		pattern: /^element (?:was detached|is not attached)/i,
+		flag: "detached",
+	},
+];
+
+/**
+ * Parse call log lines into actionability findings
+ *
+ * @param lines - Call log lines, in order
+ * @returns Actionability findings
+ */
+export function analyzeCallLog(lines: string[]): ActionabilityFindings {
+	const findings: ActionabilityFindings = {
+		retryCount: 0,
+		notVisible: false,
+		notStable: false,
+		notEnabled: false,
+		notEditable: false,
+		outsideViewport: false,
+		detached: false,
+	};
+
+	let unexpectedValueCount = 0;
+
+	for (const rawLine of lines) {
+		const { text: line, repeat } = unfoldLine(rawLine);
+		if (!line) continue;
+
+		// "retrying click action, attempt #3" / "retrying click action"
+		if (/^retrying \w+ action/i.test(line)) {
+			findings.retryCount += repeat;
+			continue;
+		}
+
+		// Expect polls log each unexpected value it saw
+		if (/^unexpected value/i.test(line)) {
+			unexpectedValueCount += repeat;
+			continue;
+		}
+
+		// "locator resolved to 3 elements" (strict mode) or to a single element
+		const countMatch = line.match(/resolved to (\d+) elements/i);
+		if (countMatch) {
+			findings.resolvedCount = Number.parseInt(countMatch[1], 10);
+			continue;
+		}
+		const elementMatch = line.match(/^locator resolved to (.+)$/i);
+		if (elementMatch) {
+			findings.resolvedElement = elementMatch[1];
+			continue;
+		}
+
+		// "<div class="overlay"></div> intercepts pointer events" or
+		// "<span>…</span> from <div class="modal">…</div> subtree intercepts pointer events"
+		const interceptMatch = line.match(
+			/^(.+?)(?: from (.+?) subtree)? intercepts pointer events/i,
+		);
+		if (interceptMatch) {
+			findings.interceptingElement = interceptMatch[2] || interceptMatch[1];
+			findings.lastIssue = line;
+			continue;
+		}
+
+		for (const { pattern, flag } of ISSUE_PATTERNS) {
+			if (pattern.test(line)) {
+				findings[flag] = true;
+				findings.lastIssue = line;
+			}
+		}
+	}
+
+	findings.retryCount += Math.max(unexpectedValueCount - 1, 0);
+
+	return findings;
+}
+
+/**
+ * Extract the "Call log:" section from an error message
+ *
+ * @param message - Error message (may contain ANSI color codes)
+ * @returns Call log lines without the leading "- "
+ */
+export function extractCallLog(message: string): string[] {
+	const plain = stripAnsi(message);
+	const start = plain.search(/^Call log:\s*$/m);
+	if (start === -1) {
+		return [];
+	}
+
+	return plain
+		.slice(start)
+		.split("\n")
+		.slice(1)
+		.map((line) => line.trim().replace(/^-\s*/, ""))
+		.filter((line) => line.length > 0);
+}
+
+/**
+ * Check if findings contain anything worth reporting
+ */
+export function hasActionabilityIssues(
+	findings: ActionabilityFindings,
+): boolean {
+	return (
+		!!findings.interceptingElement ||
+		(findings.resolvedCount ?? 0) > 1 ||
+		findings.notVisible ||
+		findings.notStable ||
+		findings.notEnabled ||
+		findings.notEditable ||
+		findings.outsideViewport ||
+		findings.detached
+	);
+}
+
+/**
+ * Describe findings as human-readable blocking factors
+ *
+ * @param findings - Actionability findings
+ * @returns One line per problem
+ */
+export function describeActionabilityFindings(
+	findings: ActionabilityFindings,
+): string[] {
+	const descriptions: string[] = [];
+	const retries =
+		findings.retryCount > 0 ? ` (retried ${findings.retryCount} times)` : "";
+
+	if (findings.interceptingElement) {
+		descriptions.push(
+			`${findings.interceptingElement} intercepts pointer events${retries}`,
+		);
+	}
+	if ((findings.resolvedCount ?? 0) > 1) {
+		descriptions.push(
+			`Locator resolved to ${findings.resolvedCount} elements (strict mode violation)`,
+		);
+	}
+
+	const target = findings.resolvedElement
+		? `Element ${findings.resolvedElement}`
+		: "Element";
+	if (findings.notVisible) descriptions.push(`${target} is not visible`);
+	if (findings.notStable) {
+		descriptions.push(`${target} is not stable (still animating)`);
+	}
+	if (findings.notEnabled) descriptions.push(`${target} is not enabled`);
+	if (findings.notEditable) descriptions.push(`${target} is not editable`);
+	if (findings.outsideViewport) {
+		descriptions.push(`${target} is outside of the viewport`);
+	}
+	if (findings.detached) {
+		descriptions.push(`${target} was detached from the DOM`);
+	}
+
+	return descriptions;
+}
+
+/**
+ * Split a folded "N × line" into its text and repeat count
+ */
+function unfoldLine(line: string): { text: string; repeat: number } {
+	const trimmed = line.trim().replace(/^-\s*/, "");
+	const folded = trimmed.match(/^(\d+)\s*×\s*(.*)$/);
+	if (folded) {
+		return { text: folded[2], repeat: Number.parseInt(folded[1], 10) };
+	}
+	return { text: trimmed, repeat: 1 };
+}
@@ -10,8 +10,8 @@
  */
 
 import { generateText, zodSchema, Output } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
+import { getModel } from "./modelRegistry";
 
 /**
  * Screenshot analysis result
@@ -49,10 +49,12 @@ const ScreenshotAnalysisSchema = z.object({
  * Analyze a screenshot image for visual clues
  *
  * @param screenshot - Screenshot file or buffer
+ * @param mimeType - Image type for buffers (defaults to PNG; trace frames are JPEG)
  * @returns Screenshot analysis result
  */
 export async function analyzeScreenshot(
 	screenshot: File | Buffer,
+	mimeType = "image/png",
 ): Promise<ScreenshotAnalysis> {
 	try {
 		// Convert to base64 for LLM vision API
@@ -62,11 +64,12 @@ export async function analyzeScreenshot(
 				: screenshot;
 
 		const base64Image = imageBuffer.toString("base64");
-		const mimeType = screenshot instanceof File ? screenshot.type : "image/png";
+		const imageType =
+			screenshot instanceof File ? screenshot.type || mimeType : mimeType;
 
 		// Use GPT-4o with vision capabilities
 		const result = await generateText({
-			model: openai("gpt-4o"),
+			model: await getModel("screenshot"),
 			messages: [
 				{
 					role: "user",
@@ -82,7 +85,7 @@ Be specific and accurate. If the page shows an error (404, 500, etc.), note that
 						},
 						{
 							type: "image",
-							image: `data:${mimeType};base64,${base64Image}`,
+							image: `data:${imageType};base64,${base64Image}`,
 						},
 					],
 				},
@@ -0,0 +1,134 @@
+/**
+ * Find the lines of a test's output related to its failure
+ *
+ * Helpers that seed data through the API (and the app itself, when it runs
+ * as the webServer) log backend errors to the test's stdout/stderr:
+ *
+ *   POST /api/orders failed: 500 Internal Server Error
+ *   Error: connect ECONNREFUSED 127.0.0.1:5432
+ *       at TCPConnectWrap.afterConnect [as oncomplete] (node:net:1555:16)
+ *
+ * These lines often explain a UI failure better than the UI does.
+ */
+
+import type { TestFailureFacts } from "@/types/schemas";
+
+/**
+ * Relevant line of test output
+ */
+export interface OutputFinding {
+	source: "stdout" | "stderr" | "console";
+	kind: "connection" | "http" | "error" | "stack";
+	line: string;
+}
+
+/**
+ * Lines worth surfacing, most specific first
+ */
+const FINDING_PATTERNS: Array<{
+	pattern: RegExp;
+	kind: OutputFinding["kind"];
+}> = [
+	{
+		pattern:
+			/\b(?:ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE)\b|socket hang up/i,
+		kind: "connection",
+	},
+	{
+		pattern:
+			/\b(?:HTTP(?:\/\d(?:\.\d)?)?|status(?:\s*code)?|response)\W{0,3}[45]\d{2}\b/i,
+		kind: "http",
+	},
+	{
+		pattern:
+			/\b[45]\d{2}\s+(?:Bad Request|Unauthorized|Forbidden|Not Found|Conflict|Too Many Requests|Internal Server Error|Bad Gateway|Service Unavailable|Gateway Timeout)\b/i,
+		kind: "http",
+	},
+	{
+		pattern:
+			/^\s*(?:Uncaught |Unhandled )?[A-Z]?\w*(?:Error|Exception)\b\s*[:[]/,
+		kind: "error",
+	},
+];
+
+/**
+ * Stack frame: "at fn (file.ts:12:5)" or "at file.ts:12:5"
+ */
+const STACK_FRAME_PATTERN = /^\s*at\s+\S.*:\d+(?::\d+)?\)?\s*$/;
+
+/**
+ * Frames kept after an error line
+ */
+const MAX_STACK_FRAMES = 3;
+
+/**
+ * Findings kept per failure
+ */
+const MAX_FINDINGS = 20;
+
+/**
+ * Find stack traces, HTTP errors and connection errors in a test's output
+ *
+ * @param facts - Failure facts with stdout, stderr and console logs
+ * @returns Relevant lines, stderr first, in output order
+ */
+export function analyzeTestOutput(facts: TestFailureFacts): OutputFinding[] {
+	const findings: OutputFinding[] = [];
+	const sources: Array<[OutputFinding["source"], string[] | undefined]> = [
+		["stderr", facts.stderr],
+		["stdout", facts.stdout],
+		["console", facts.consoleLogs],
+	];
+
+	for (const [source, lines] of sources) {
+		// Frames kept after the last error line; null outside a stack
+		let frames: number | null = null;
+
+		for (const line of lines || []) {
+			if (STACK_FRAME_PATTERN.test(line)) {
+				if (frames !== null && frames < MAX_STACK_FRAMES) {
+					findings.push({ source, kind: "stack", line: line.trim() });
+					frames++;
+				}
+				continue;
+			}
+
+			const match = FINDING_PATTERNS.find(({ pattern }) => pattern.test(line));
+			frames = match ? 0 : null;
+			if (match) {
+				findings.push({ source, kind: match.kind, line: line.trim() });
+			}
+		}
+	}
+
+	return findings.slice(0, MAX_FINDINGS);
+}
+
+/**
+ * Check if the output shows the backend failing (connection errors, 5xx)
+ *
+ * @param findings - Output findings
+ * @returns The first backend error line, or null
+ */
+export function findBackendError(findings: OutputFinding[]): string | null {
+	const finding = findings.find(
+		(f) =>
+			f.kind === "connection" ||
+			(f.kind === "http" && /\b5\d{2}\b/.test(f.line)),
+	);
+	return finding ? finding.line : null;
+}
+
+/**
+ * Describe output findings as "stderr: <line>" lines, frames indented
+ *
+ * @param findings - Output findings
+ * @returns One description per finding
+ */
+export function describeOutputFindings(findings: OutputFinding[]): string[] {
+	return findings.map((finding) =>
+		finding.kind === "stack"
+			? `${finding.source}:     ${finding.line}`
+			: `${finding.source}: ${finding.line}`,
+	);
+}
@@ -0,0 +1,274 @@
+/**
+ * User-defined classification rules
+ *
+ * Teams teach the classifier their application's own failure signatures in a
+ * rules file, JSON or YAML, at the repository root or in the uploaded bundle:
+ *
+ *   # pwsniffer.rules.yaml
+ *   rules:
+ *     - id: sso-session-expired
+ *       description: The SSO page shows its "Session expired" banner
+ *       match:
+ *         url: 'sso\.example\.com'
+ *         console: 'Session expired'
+ *       category: auth_error
+ *       confidence: 0.95
+ *       verdict: app_issue
+ *       action: check SSO session lifetime
+ *
+ * Conditions are case-insensitive regular expressions of up to 200
+ * characters, without repeated groups that contain quantifiers or
+ * alternatives, e.g. "(a+)+" or "(a|b)+", nor backreferences (bundles are
+ * uploaded by anyone); all conditions of a rule must match. Rules run before
+ * the built-in patterns, in file order, bundle rules before repository rules;
+ * the first match wins.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+	ClassificationRulesFileSchema,
+	type ClassificationRule,
+	type FailureCategory,
+	type TestFailureFacts,
+} from "@/types/schemas";
+import { FAILURE_SUBCATEGORY_PARENTS } from "./failureTaxonomy";
+import { getPage, getPageUrlAt } from "./tracePages";
+import type { TraceIndex } from "./traceIndex";
+
+/**
+ * Rules files read from the repository root
+ */
+const REPO_RULES_FILES = [
+	"pwsniffer.rules.json",
+	"pwsniffer.rules.yaml",
+	"pwsniffer.rules.yml",
+];
+
+/**
+ * Rules file in an uploaded bundle, at any depth
+ */
+const RULES_FILE_PATTERN = /(?:^|\/)pwsniffer\.rules\.(?:json|ya?ml)$/i;
+
+/**
+ * Trace evidence the url, console and network conditions match against
+ */
+export interface RuleEvidence {
+	url?: string; // Page URL at the failure
+	console: string[]; // Console messages up to the failure
+	network: string[]; // "METHOD url status" of requests up to the failure
+}
+
+/**
+ * Rule that matched a failure
+ */
+export interface RuleMatch {
+	rule: ClassificationRule;
+	matchedConditions: string[]; // e.g. ["console /Session expired/i"]
+}
+
+/**
+ * Check if a bundle entry is a rules file
+ *
+ * @param entryPath - Path inside the bundle
+ * @returns True for pwsniffer.rules.json, .yaml and .yml
+ */
+export function isRulesFile(entryPath: string): boolean {
+	return RULES_FILE_PATTERN.test(entryPath);
+}
+
+/**
+ * Parse and validate a rules file
+ *
+ * @param content - File content
+ * @param fileName - File name, to pick JSON or YAML and name errors
+ * @returns Rules in file order
+ * @throws Error listing the problems of an invalid file
+ */
+export function parseClassificationRules(
+	content: string,
+	fileName: string,
+): ClassificationRule[] {
+	let data: unknown;
+	try {
+		data = /\.ya?ml$/i.test(fileName)
+			? parseYaml(content)
+			: JSON.parse(content);
+	} catch (error) {
+		throw new Error(
+			`Invalid rules file ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const result = ClassificationRulesFileSchema.safeParse(data);
+	if (!result.success) {
+		const problems = result.error.issues
+			.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+			.join("; ");
+		throw new Error(`Invalid rules file ${fileName}: ${problems}`);
+	}
+	return result.data.rules;
+}
+
+/**
+ * Load the rules of the uploaded bundle and the repository
+ *
+ * @param bundleRulesFile - Rules file found in the uploaded bundle
+ * @returns Bundle rules, then repository rules whose id the bundle does not
+ * redefine
+ * @throws Error if a rules file is invalid
+ */
+export async function loadClassificationRules(
+	bundleRulesFile?: { name: string; content: string } | null,
+): Promise<ClassificationRule[]> {
+	const bundleRules = bundleRulesFile
+		? parseClassificationRules(bundleRulesFile.content, bundleRulesFile.name)
+		: [];
+
+	const repoRules: ClassificationRule[] = [];
+	for (const fileName of REPO_RULES_FILES) {
+		let content: string;
+		try {
+			content = await readFile(path.join(process.cwd(), fileName), "utf-8");
+		} catch {
+			continue; // No rules file of this name
+		}
+		repoRules.push(...parseClassificationRules(content, fileName));
+	}
+
+	const bundleIds = new Set(bundleRules.map((rule) => rule.id));
+	return [
+		...bundleRules,
+		...repoRules.filter((rule) => !bundleIds.has(rule.id)),
+	];
+}
+
+/**
+ * Collect the page URL, console messages and network requests of a failure
+ *
+ * @param facts - Failure facts, with the failure anchor if resolved
+ * @param traceIndex - Trace of the failure, if any
+ * @returns Evidence up to the failure (the whole trace without an anchor)
+ */
+export function collectRuleEvidence(
+	facts: TestFailureFacts,
+	traceIndex: TraceIndex | null,
+): RuleEvidence {
+	if (!traceIndex) {
+		return { console: [], network: [] };
+	}
+
+	const { traceData } = traceIndex;
+	const anchor = facts.failureAnchor;
+	const until = anchor?.timestamp ?? Number.POSITIVE_INFINITY;
+
+	const page =
+		(anchor?.pageId && getPage(traceData, anchor.pageId)) || traceData.pages[0];
+	const url = page ? getPageUrlAt(page, until) : null;
+
+	return {
+		url: url || undefined,
+		console: traceIndex.consoleByTime
+			.filter((message) => message.timestamp <= until)
+			.map((message) => message.text),
+		network: traceData.network
+			.filter(
+				(event) =>
+					event.timestamp <= until &&
+					(event.status !== undefined || event.error),
+			)
+			.map((event) =>
+				[
+					event.method || "GET",
+					event.url,
+					event.error ? `failed: ${event.error}` : event.status,
+					event.statusText,
+				]
+					.filter((part) => part !== undefined && part !== "")
+					.join(" "),
+			),
+	};
+}
+
+/**
+ * Find the first rule whose conditions all match a failure
+ *
+ * @param facts - Failure facts
+ * @param rules - Rules in evaluation order
+ * @param evidence - Trace evidence, if the failure has a trace
+ * @returns Matching rule and its matched conditions, or null
+ */
+export function applyClassificationRules(
+	facts: TestFailureFacts,
+	rules: ClassificationRule[],
+	evidence?: RuleEvidence | null,
+): RuleMatch | null {
+	const texts: Record<keyof ClassificationRule["match"], string[]> = {
+		error: [facts.error],
+		step: [facts.failedStep, ...(facts.stepPath || [])],
+		stack: facts.stackTrace || [],
+		url: evidence?.url ? [evidence.url] : [],
+		console: [...(facts.consoleLogs || []), ...(evidence?.console || [])],
+		network: evidence?.network || [],
+	};
+
+	for (const rule of rules) {
+		const conditions = Object.entries(rule.match).filter(
+			(entry): entry is [keyof ClassificationRule["match"], string] =>
+				!!entry[1],
+		);
+		const matchesAll = conditions.every(([field, pattern]) => {
+			const regex = new RegExp(pattern, "i");
+			return texts[field].some((text) => regex.test(text));
+		});
+		if (matchesAll) {
+			return {
+				rule,
+				matchedConditions: conditions.map(
+					([field, pattern]) => `${field} /${pattern}/i`,
+				),
+			};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Classify a failure by the rule that matched it
+ *
+ * @param match - Matching rule
+ * @returns Classification naming the rule; a subcategory decides the
+ * category, and a label without either is "unknown"
+ */
+export function classifyByRule(match: RuleMatch): FailureCategory {
+	const { rule, matchedConditions } = match;
+	const category =
+		(rule.subcategory && FAILURE_SUBCATEGORY_PARENTS[rule.subcategory]) ||
+		rule.category ||
+		"unknown";
+
+	return {
+		category,
+		subcategory: rule.subcategory,
+		confidence: rule.confidence,
+		reasoning: `Matched rule "${rule.id}"${rule.description ? ` (${rule.description})` : ""} on ${matchedConditions.join(", ")}.`,
+		label: rule.label,
+		ruleId: rule.id,
+	};
+}
+
+/**
+ * Find a rule by id
+ *
+ * @param rules - Loaded rules
+ * @param ruleId - Rule id of a classification, if any
+ * @returns The rule, or undefined
+ */
+export function findClassificationRule(
+	rules: ClassificationRule[] | undefined,
+	ruleId: string | undefined,
+): ClassificationRule | undefined {
+	return ruleId ? rules?.find((rule) => rule.id === ruleId) : undefined;
+}
@@ -5,7 +5,13 @@
  * before falling back to LLM reasoning for ambiguous cases.
  */
 
-import type { TestFailureFacts } from "@/types/schemas";
+import type {
+	CategoryCandidate,
+	FailureSubcategory,
+	TestFailureFacts,
+} from "@/types/schemas";
+import { analyzeCallLog, extractCallLog } from "./analyzeCallLog";
+import { FAILURE_SUBCATEGORY_PARENTS } from "./failureTaxonomy";
 
 export interface PatternMatchResult {
 	category:
@@ -15,8 +21,269 @@ export interface PatternMatchResult {
 		| "navigation_error"
 		| "auth_error"
 		| "unknown";
+	subcategory?: FailureSubcategory; // Set by subcategory rules
 	confidence: number;
 	matchedPatterns: string[];
+	reason?: string; // Set by scope rules, which explain themselves
+	candidates?: CategoryCandidate[]; // Every category that matched, best first
+}
+
+/**
+ * Error signatures of the subcategories, most specific first: a screenshot
+ * mismatch also times out, a strict mode violation also names a locator
+ */
+const SUBCATEGORY_RULES: Array<{
+	subcategory: FailureSubcategory;
+	patterns: RegExp[];
+}> = [
+	{
+		subcategory: "environment_error",
+		patterns: [
+			/executable doesn't exist/i,
+			/please run the following command to download new browsers/i,
+			/host system is missing dependencies/i,
+			/cannot find module|err_module_not_found/i,
+			/process\.env\.\w+ is (?:undefined|not set)/i,
+			/(?:environment variable|env var)\b.*\b(?:missing|not set|undefined|required)/i,
+			/error in (?:playwright\.)?config|invalid config/i,
+		],
+	},
+	{
+		subcategory: "page_crash",
+		patterns: [
+			/page crashed|target crashed/i,
+			/browser (?:has )?(?:crashed|disconnected)/i,
+			/renderer process (?:crashed|gone)/i,
+		],
+	},
+	{
+		subcategory: "visual_mismatch",
+		patterns: [
+			/tohavescreenshot|tomatchsnapshot/i,
+			/screenshot comparison failed/i,
+			/pixels? \(ratio [\d.]+ of all image pixels\) (?:is|are) different/i,
+			/expected an image \d+px by \d+px, received/i,
+		],
+	},
+	{
+		subcategory: "strict_mode_violation",
+		patterns: [/strict mode violation/i],
+	},
+	{
+		subcategory: "element_detached",
+		patterns: [
+			/element is not attached to the dom/i,
+			/element (?:was|is|has been) detached/i,
+			/node is detached from document/i,
+		],
+	},
+	{
+		subcategory: "pointer_intercepted",
+		patterns: [/intercepts pointer events/i],
+	},
+	{
+		subcategory: "element_not_stable",
+		patterns: [/element is not stable/i],
+	},
+	{
+		subcategory: "test_data_conflict",
+		patterns: [
+			/duplicate key|unique constraint|violates .*constraint/i,
+			/already (?:exists|taken|registered|in use)/i,
+			/\b409\b.*conflict|conflict.*\b409\b/i,
+		],
+	},
+	{
+		subcategory: "network_error",
+		patterns: [
+			/apirequestcontext\.\w+:/i,
+			/fetch failed|request failed|failed to fetch/i,
+			/econnreset|socket hang up/i,
+			/tobeok\(\)/i,
+			/net::err_(?:connection|internet|network|name_not_resolved|timed_out)/i,
+		],
+	},
+	{
+		subcategory: "page_error",
+		patterns: [
+			/\bpageerror\b/i,
+			/uncaught (?:\w*error|exception|\(in promise\))/i,
+			/unhandled (?:promise )?rejection/i,
+		],
+	},
+];
+
+/**
+ * Login, stored auth state or credentials
+ */
+const AUTH_SETUP_PATTERN =
+	/log\s?in|sign\s?in|auth|storage\s?state|credential|password/i;
+
+/**
+ * The application could not be reached
+ */
+const UNREACHABLE_PATTERN =
+	/net::err_|econnrefused|enotfound|connection refused|webserver|timed out waiting .* from config/i;
+
+/**
+ * Apply the classification rules of failures outside the test body
+ *
+ * What broke (login in globalSetup, a fixture's teardown, a crashed worker)
+ * matters more there than the action that raised the error: a login form
+ * missing in globalSetup is a broken login for every test, not a missing
+ * selector. Returns null for test body failures and when no rule applies.
+ */
+export function applyScopeRules(
+	facts: TestFailureFacts,
+): PatternMatchResult | null {
+	const scope = facts.scope;
+	const scopeName = facts.scopeName || scope;
+	const text = [
+		facts.error,
+		facts.failedStep,
+		facts.file,
+		...(facts.stackTrace || []),
+	].join("\n");
+
+	switch (scope) {
+		case "worker":
+			return {
+				category: "unknown",
+				confidence: 0.9,
+				matchedPatterns: ["scope: worker"],
+				reason:
+					"The worker process running the test crashed or could not shut down (out of memory, a browser crash, or process.exit in the code under test); the test's own steps did not fail.",
+			};
+
+		case "global":
+			if (UNREACHABLE_PATTERN.test(text)) {
+				return {
+					category: "navigation_error",
+					confidence: 0.9,
+					matchedPatterns: ["scope: global", UNREACHABLE_PATTERN.toString()],
+					reason: `${scopeName} could not reach the application, so no test could run against it.`,
+				};
+			}
+			if (AUTH_SETUP_PATTERN.test(text)) {
+				return {
+					category: "auth_error",
+					confidence: 0.9,
+					matchedPatterns: ["scope: global", AUTH_SETUP_PATTERN.toString()],
+					reason: `${scopeName} failed while logging in, so the tests that reuse its session start unauthenticated. The failing step was "${facts.failedStep}".`,
+				};
+			}
+			return null;
+
+		case "fixture": {
+			const phase = /tearing down/i.test(facts.error)
+				? "tearing down"
+				: "setting up";
+			if (
+				/test timeout of \d+ms exceeded|fixture .*timeout/i.test(facts.error)
+			) {
+				return {
+					category: "timeout",
+					confidence: 0.9,
+					matchedPatterns: ["scope: fixture", "fixture timeout"],
+					reason: `The ${scopeName} exceeded the timeout while ${phase}. The test body may have passed; the time went into the fixture.`,
+				};
+			}
+			if (AUTH_SETUP_PATTERN.test(scopeName || "")) {
+				return {
+					category: "auth_error",
+					confidence: 0.85,
+					matchedPatterns: ["scope: fixture", AUTH_SETUP_PATTERN.toString()],
+					reason: `The ${scopeName} failed while ${phase}; it provides the logged-in state the test needs.`,
+				};
+			}
+			return null;
+		}
+
+		case "hook":
+			if (/hook timeout|test timeout of \d+ms exceeded/i.test(facts.error)) {
+				return {
+					category: "timeout",
+					confidence: 0.85,
+					matchedPatterns: ["scope: hook", "hook timeout"],
+					reason: `The ${scopeName} exceeded its timeout before the test body ran.`,
+				};
+			}
+			if (AUTH_SETUP_PATTERN.test(`${facts.failedStep}\n${facts.error}`)) {
+				return {
+					category: "auth_error",
+					confidence: 0.85,
+					matchedPatterns: ["scope: hook", AUTH_SETUP_PATTERN.toString()],
+					reason: `The ${scopeName} failed while logging in, so the tests it prepares start unauthenticated.`,
+				};
+			}
+			return null;
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Apply the subcategory rules: error signatures specific enough to name the
+ * failure type, e.g. "strict mode violation" or "intercepts pointer events"
+ *
+ * Page navigations that fail with net::ERR are left to the navigation_error
+ * patterns; network_error is for API and fetch calls.
+ *
+ * @returns Subcategory with its parent category, or null if no rule applies
+ */
+export function applySubcategoryRules(
+	facts: TestFailureFacts,
+): PatternMatchResult | null {
+	const text = [facts.error, facts.failedStep, ...(facts.stackTrace || [])]
+		.join("\n")
+		.toLowerCase();
+	const isPageNavigation = /page\.(goto|reload|goback|goforward)/i.test(
+		`${facts.failedStep}\n${facts.error}`,
+	);
+
+	for (const { subcategory, patterns } of SUBCATEGORY_RULES) {
+		if (subcategory === "network_error" && isPageNavigation) {
+			continue;
+		}
+		const matched = patterns.filter((p) => p.test(text));
+		if (matched.length > 0) {
+			return {
+				category: FAILURE_SUBCATEGORY_PARENTS[subcategory],
+				subcategory,
+				confidence: Math.min(0.85 + matched.length * 0.05, 0.95),
+				matchedPatterns: matched.map((p) => p.toString()),
+			};
+		}
+	}
+
+	// The call log names actionability problems even when the message does not
+	const actionability = analyzeCallLog(extractCallLog(facts.error));
+	const callLogMatch: [FailureSubcategory, string] | null =
+		(actionability.resolvedCount ?? 0) > 1
+			? [
+					"strict_mode_violation",
+					`call log: locator resolved to ${actionability.resolvedCount} elements`,
+				]
+			: actionability.interceptingElement
+				? [
+						"pointer_intercepted",
+						`call log: ${actionability.interceptingElement} intercepts pointer events`,
+					]
+				: actionability.notStable
+					? ["element_not_stable", "call log: element is not stable"]
+					: null;
+	if (callLogMatch) {
+		const [subcategory, pattern] = callLogMatch;
+		return {
+			category: FAILURE_SUBCATEGORY_PARENTS[subcategory],
+			subcategory,
+			confidence: 0.85,
+			matchedPatterns: [pattern],
+		};
+	}
+
+	return null;
 }
 
 /**
@@ -37,6 +304,7 @@ export function applyPatternMatching(
 		category: PatternMatchResult["category"];
 		score: number;
 		patterns: string[];
+		signals?: string[]; // Evidence other than patterns, for candidates
 	}> = [];
 
 	// Check selector_not_found patterns
@@ -75,6 +343,7 @@ export function applyPatternMatching(
 			category: "timeout",
 			score: timeoutMatches.length * 0.2 + (hasTimeoutValue ? 0.3 : 0),
 			patterns: timeoutMatches.map((p) => p.toString()),
+			signals: hasTimeoutValue ? [`timeout of ${facts.timeout}ms`] : [],
 		});
 	}
 
@@ -97,6 +366,7 @@ export function applyPatternMatching(
 			category: "assertion_failed",
 			score: assertionMatches.length * 0.2 + (hasExpectInStep ? 0.25 : 0),
 			patterns: assertionMatches.map((p) => p.toString()),
+			signals: hasExpectInStep ? ["assertion in the failed step"] : [],
 		});
 	}
 
@@ -120,6 +390,7 @@ export function applyPatternMatching(
 			category: "navigation_error",
 			score: navigationMatches.length * 0.2 + (hasNavigationStep ? 0.25 : 0),
 			patterns: navigationMatches.map((p) => p.toString()),
+			signals: hasNavigationStep ? ["navigation in the failed step"] : [],
 		});
 	}
 
@@ -141,26 +412,71 @@ export function applyPatternMatching(
 			category: "auth_error",
 			score: authMatches.length * 0.2 + (hasAuthStep ? 0.25 : 0),
 			patterns: authMatches.map((p) => p.toString()),
+			signals: hasAuthStep ? ["login or session in the failed step"] : [],
 		});
 	}
 
+	// Check call log actionability findings: these name the exact problem, so
+	// they outweigh keyword matches
+	const actionability = analyzeCallLog(extractCallLog(facts.error));
+	const callLogMatches: Array<{
+		category: PatternMatchResult["category"];
+		pattern: string;
+	}> = [];
+	if ((actionability.resolvedCount ?? 0) > 1) {
+		callLogMatches.push({
+			category: "selector_not_found",
+			pattern: `call log: locator resolved to ${actionability.resolvedCount} elements`,
+		});
+	}
+	if (actionability.interceptingElement) {
+		callLogMatches.push({
+			category: "timeout",
+			pattern: `call log: ${actionability.interceptingElement} intercepts pointer events`,
+		});
+	}
+	if (
+		actionability.notStable ||
+		actionability.notEnabled ||
+		actionability.notEditable ||
+		actionability.outsideViewport
+	) {
+		callLogMatches.push({
+			category: "timeout",
+			pattern: `call log: ${actionability.lastIssue}`,
+		});
+	}
+	for (const { category, pattern } of callLogMatches) {
+		const existing = matches.find((m) => m.category === category);
+		if (existing) {
+			existing.score += 0.4;
+			existing.patterns.push(pattern);
+		} else {
+			matches.push({ category, score: 0.6, patterns: [pattern] });
+		}
+	}
+
 	// If no matches, return null (will use LLM)
 	if (matches.length === 0) {
 		return null;
 	}
 
-	// Find the best match (highest score)
-	const bestMatch = matches.reduce((best, current) =>
-		current.score > best.score ? current : best,
-	);
-
-	// Normalize confidence (cap at 0.95 for pattern matching, leave room for LLM)
-	const confidence = Math.min(bestMatch.score, 0.95);
+	// Rank the matches (highest score first) and keep the runner-ups as
+	// candidates. Normalize confidence (cap at 0.95 for pattern matching,
+	// leave room for LLM)
+	const ranked = [...matches].sort((a, b) => b.score - a.score);
+	const candidates: CategoryCandidate[] = ranked.map((match) => ({
+		category: match.category,
+		confidence: Math.min(match.score, 0.95),
+		evidence: [...match.patterns, ...(match.signals || [])],
+	}));
+	const bestMatch = ranked[0];
 
 	return {
 		category: bestMatch.category,
-		confidence,
+		confidence: candidates[0].confidence,
 		matchedPatterns: bestMatch.patterns,
+		candidates,
 	};
 }
 
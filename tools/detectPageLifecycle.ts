@@ -5,7 +5,12 @@
  * to determine if the page was fully loaded, still loading, or failed.
  */
 
-import type { TraceData, NetworkEvent, ActionEvent } from "./readTrace";
+import {
+	loadSnapshotHtml,
+	type ActionEvent,
+	type NetworkEvent,
+	type TraceData,
+} from "./readTrace";
 
 /**
  * Page load state
@@ -61,12 +66,7 @@ export function detectPageLoadState(traceData: TraceData): PageLoadState {
 	};
 
 	// Find main document request (usually the first navigation request)
-	const documentRequests = networkEvents.filter(
-		(e) =>
-			e.type === "request" &&
-			(e.url.endsWith(".html") ||
-				!e.url.match(/\.(js|css|png|jpg|jpeg|gif|svg|woff|woff2|ttf|ico)$/i)),
-	);
+	const documentRequests = networkEvents.filter(isDocumentRequest);
 
 	// Find load events in actions
 	const loadEvents = actions.filter(
@@ -159,6 +159,23 @@ export function detectPageLoadState(traceData: TraceData): PageLoadState {
 	return loadState;
 }
 
+/**
+ * Check if a network event is for an HTML document
+ *
+ * Uses the response MIME type when the trace recorded one (HAR entries),
+ * otherwise falls back to the URL extension.
+ */
+function isDocumentRequest(event: NetworkEvent): boolean {
+	if (event.mimeType) {
+		return event.mimeType.includes("text/html");
+	}
+
+	return (
+		event.url.endsWith(".html") ||
+		!event.url.match(/\.(js|css|png|jpg|jpeg|gif|svg|woff|woff2|ttf|ico)$/i)
+	);
+}
+
 /**
  * Detect navigation events from trace data
  *
@@ -251,11 +268,12 @@ export function detectRedirects(traceData: TraceData): RedirectEvent[] {
 	for (const [url, responses] of responseMap.entries()) {
 		for (const response of responses) {
 			if (response.status && response.status >= 300 && response.status < 400) {
-				// Check for Location header
+				// Check for Location header (HAR entries also carry redirectURL)
 				const location =
 					response.headers?.["location"] ||
 					response.headers?.["Location"] ||
-					response.headers?.["LOCATION"];
+					response.headers?.["LOCATION"] ||
+					response.redirectURL;
 
 				if (location) {
 					// Resolve relative URLs
@@ -277,8 +295,9 @@ export function detectRedirects(traceData: TraceData): RedirectEvent[] {
 
 	// Check for meta refresh redirects in snapshots
 	for (const snapshot of traceData.snapshots) {
-		if (snapshot.html) {
-			const metaRefreshMatch = snapshot.html.match(
+		const html = loadSnapshotHtml(traceData, snapshot);
+		if (html) {
+			const metaRefreshMatch = html.match(
 				/<meta[^>]+http-equiv=["']refresh["'][^>]+content=["']\d+;\s*url=([^"']+)["']/i,
 			);
 
@@ -293,7 +312,7 @@ export function detectRedirects(traceData: TraceData): RedirectEvent[] {
 			}
 
 			// Check for JavaScript redirects (window.location)
-			const jsRedirectMatch = snapshot.html.match(
+			const jsRedirectMatch = html.match(
 				/window\.location\s*=\s*["']([^"']+)["']/i,
 			);
 
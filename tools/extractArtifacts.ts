@@ -3,25 +3,40 @@
  */
 
 import AdmZip from "adm-zip";
+import { isBlobReport, mergeBlobReports } from "./parseBlobReport";
+import {
+	convertHtmlReport,
+	isHtmlReportArchive,
+	readEmbeddedHtmlReport,
+} from "./parseHtmlReport";
+import { isJUnitReport } from "./parseJUnit";
+import { isRulesFile } from "./classificationRules";
+
+type ReportFormat = "json" | "junit" | "html" | "blob";
 
 export interface ExtractedArtifacts {
-	reportJson?: Buffer | string;
+	reportJson?: Buffer | string; // Playwright JSON (HTML and blob reports converted) or JUnit XML report
 	reportFileName?: string;
+	reportFormat?: ReportFormat;
 	traceZip?: Buffer;
 	traceFileName?: string;
 	screenshots?: Array<{ name: string; data: Buffer; type: string }>;
 	video?: { name: string; data: Buffer; type: string };
 	contextMd?: string;
+	rulesFile?: { name: string; content: string }; // pwsniffer.rules.json or .yaml
+	files?: Array<{ path: string; data: Buffer }>; // Traces, images, videos and logs by path, for report attachments
 }
 
 /**
  * Extract and identify Playwright artifacts from a ZIP file
  * Automatically identifies:
- * - report.json (required)
+ * - report.json, an HTML report folder, blob reports of sharded runs, or a
+ *   JUnit XML report (required)
  * - trace.zip or trace files (required)
  * - screenshots (PNG/JPEG)
  * - video files (MP4/WebM)
  * - context.md (optional)
+ * - pwsniffer.rules.json / .yaml classification rules (optional)
  */
 export async function extractArtifactsFromZip(
 	zipFile: File | Buffer,
@@ -32,18 +47,30 @@ export async function extractArtifactsFromZip(
 			: zipFile;
 
 	const zip = new AdmZip(zipBuffer);
-	const entries = zip.getEntries();
+
+	// HTML and blob reports are converted up front; their archives are
+	// replaced by the attachment files they hold
+	const { entries, convertedReport } = readReportArchives(
+		zip
+			.getEntries()
+			.filter((entry) => !entry.isDirectory)
+			.map((entry) => ({ path: entry.entryName, data: entry.getData() })),
+	);
 
 	const artifacts: ExtractedArtifacts = {};
 	const screenshotFiles: Array<{ name: string; data: Buffer; type: string }> =
 		[];
+	const bundleFiles: Array<{ path: string; data: Buffer }> = [];
 
 	for (const entry of entries) {
-		if (entry.isDirectory) continue;
+		const entryName = entry.path.toLowerCase();
+		const originalEntryName = entry.path;
+		const entryData = entry.data;
 
-		const entryName = entry.entryName.toLowerCase();
-		const originalEntryName = entry.entryName;
-		const entryData = entry.getData();
+		// Keep files that report attachments can point at
+		if (entryName.match(/\.(zip|png|jpg|jpeg|mp4|webm|txt|log|json)$/i)) {
+			bundleFiles.push({ path: originalEntryName, data: entryData });
+		}
 
 		// Identify Playwright report JSON (any .json file that has Playwright structure)
 		// Don't check filename - check content structure instead
@@ -57,11 +84,13 @@ export async function extractArtifactsFromZip(
 					// Only store if we haven't found one yet, or this one looks more complete
 					if (
 						!artifacts.reportJson ||
+						artifacts.reportFormat === "junit" ||
 						(parsed.suites && parsed.suites.length > 0)
 					) {
 						artifacts.reportJson = Buffer.from(entryData);
 						artifacts.reportFileName =
 							originalEntryName.split("/").pop() || originalEntryName;
+						artifacts.reportFormat = "json";
 					}
 				}
 			} catch {
@@ -69,6 +98,18 @@ export async function extractArtifactsFromZip(
 			}
 		}
 
+		// Identify JUnit XML reports; a Playwright JSON report is preferred
+		if (
+			entryName.endsWith(".xml") &&
+			!artifacts.reportJson &&
+			isJUnitReport(entryData.toString("utf-8"))
+		) {
+			artifacts.reportJson = Buffer.from(entryData);
+			artifacts.reportFileName =
+				originalEntryName.split("/").pop() || originalEntryName;
+			artifacts.reportFormat = "junit";
+		}
+
 		// Identify trace.zip (any .zip file that might be a trace)
 		// Check for common patterns but also accept any .zip if we haven't found one
 		if (entryName.endsWith(".zip")) {
@@ -84,7 +125,7 @@ export async function extractArtifactsFromZip(
 		if (entryName.match(/\.(png|jpg|jpeg)$/i)) {
 			// Create a File-like object for Node.js environment
 			// In the browser, we'll convert Buffer to Blob/File in the API route
-			const fileName = entry.entryName.split("/").pop() || "screenshot.png";
+			const fileName = entry.path.split("/").pop() || "screenshot.png";
 			const fileData = {
 				name: fileName,
 				data: entryData,
@@ -96,7 +137,7 @@ export async function extractArtifactsFromZip(
 
 		// Identify video files
 		if (entryName.match(/\.(mp4|webm)$/i)) {
-			const fileName = entry.entryName.split("/").pop() || "video.mp4";
+			const fileName = entry.path.split("/").pop() || "video.mp4";
 			// Store as Buffer for now, will be converted to File in API route if needed
 			artifacts.video = {
 				name: fileName,
@@ -112,6 +153,24 @@ export async function extractArtifactsFromZip(
 		) {
 			artifacts.contextMd = entryData.toString("utf-8");
 		}
+
+		// Identify the classification rules file
+		if (isRulesFile(entryName)) {
+			artifacts.rulesFile = {
+				name: originalEntryName.split("/").pop() || originalEntryName,
+				content: entryData.toString("utf-8"),
+			};
+		}
+	}
+
+	// A JSON report in the bundle is preferred over converted reports
+	if (
+		convertedReport &&
+		(!artifacts.reportJson || artifacts.reportFormat === "junit")
+	) {
+		artifacts.reportJson = convertedReport.json;
+		artifacts.reportFileName = convertedReport.fileName;
+		artifacts.reportFormat = convertedReport.format;
 	}
 
 	// If we found screenshots, add them
@@ -119,9 +178,88 @@ export async function extractArtifactsFromZip(
 		artifacts.screenshots = screenshotFiles;
 	}
 
+	if (bundleFiles.length > 0) {
+		artifacts.files = bundleFiles;
+	}
+
 	return artifacts;
 }
 
+/**
+ * Find HTML and blob reports among the bundle entries and convert them
+ *
+ * Blob reports of all shards are merged, and preferred over an HTML report
+ * (their errors keep location and snippet).
+ */
+function readReportArchives(entries: Array<{ path: string; data: Buffer }>): {
+	entries: Array<{ path: string; data: Buffer }>;
+	convertedReport?: {
+		json: string;
+		fileName: string;
+		format: ReportFormat;
+	};
+} {
+	const otherEntries: Array<{ path: string; data: Buffer }> = [];
+	const blobArchives: Array<{ path: string; data: Buffer }> = [];
+	let htmlArchive: { path: string; data: Buffer } | undefined;
+
+	for (const entry of entries) {
+		const entryName = entry.path.toLowerCase();
+
+		if (entryName.endsWith("index.html")) {
+			const archive = readEmbeddedHtmlReport(entry.data.toString("utf-8"));
+			if (archive) {
+				htmlArchive = { path: entry.path, data: archive };
+				continue;
+			}
+		}
+
+		if (entryName.endsWith(".zip") && isBlobReport(entry.data)) {
+			blobArchives.push(entry);
+			continue;
+		}
+
+		if (entryName.endsWith(".zip") && isHtmlReportArchive(entry.data)) {
+			htmlArchive ??= entry;
+			continue;
+		}
+
+		otherEntries.push(entry);
+	}
+
+	if (blobArchives.length > 0) {
+		const merged = mergeBlobReports(
+			blobArchives
+				.sort((a, b) => a.path.localeCompare(b.path))
+				.map((archive) => archive.data),
+		);
+		return {
+			entries: [...otherEntries, ...merged.files],
+			convertedReport: {
+				json: JSON.stringify(merged.report),
+				fileName:
+					blobArchives.length === 1
+						? blobArchives[0].path.split("/").pop() || blobArchives[0].path
+						: `${blobArchives.length} blob reports`,
+				format: "blob",
+			},
+		};
+	}
+
+	if (htmlArchive) {
+		return {
+			entries: otherEntries,
+			convertedReport: {
+				json: JSON.stringify(convertHtmlReport(htmlArchive.data)),
+				fileName: htmlArchive.path.split("/").pop() || htmlArchive.path,
+				format: "html",
+			},
+		};
+	}
+
+	return { entries: otherEntries };
+}
+
 /**
  * Check if a file is a ZIP archive
  */
@@ -7,7 +7,8 @@
  * - Page state indicators
  */
 
-import type { TraceData, SnapshotEntry } from "./readTrace";
+import { loadSnapshotHtml, type SnapshotEntry } from "./readTrace";
+import { getSnapshotsBefore, type TraceIndex } from "./traceIndex";
 
 /**
  * DOM snapshot structure
@@ -17,6 +18,9 @@ export interface DOMSnapshot {
 	timestamp: number;
 	url: string;
 	viewport: { width: number; height: number };
+	callId?: string;
+	phase?: "before" | "action" | "after";
+	frameId?: string;
 }
 
 /**
@@ -52,47 +56,83 @@ export interface BlockingElement {
 	confidence: number;
 }
 
+/**
+ * Options for picking the DOM snapshot
+ */
+export interface DOMSnapshotOptions {
+	callId?: string; // Prefer snapshots taken for this call (e.g. the failed action)
+	pageId?: string; // Only use snapshots of this page (popups, multiple tabs)
+}
+
 /**
  * Extract DOM snapshot closest to the failure timestamp
  *
- * @param traceData - Parsed trace data
+ * When a callId is given, the snapshots recorded for that call are used,
+ * preferring the page after the call, then at the action, then before it.
+ * Main-frame snapshots are preferred over iframe snapshots. A pageId limits
+ * the lookup to one page.
+ *
+ * @param traceIndex - Index of the parsed trace
  * @param failureTime - Timestamp when failure occurred (in milliseconds)
+ * @param options - Optional call and page to pick snapshots for
  * @returns DOM snapshot at or before the failure point
  */
 export async function extractDOMSnapshot(
-	traceData: TraceData,
+	traceIndex: TraceIndex,
 	failureTime: number,
+	options: DOMSnapshotOptions = {},
 ): Promise<DOMSnapshot | null> {
-	// Find the snapshot closest to (but not after) the failure time
-	const snapshots = traceData.snapshots
-		.filter((s) => s.timestamp <= failureTime && s.html)
-		.sort((a, b) => b.timestamp - a.timestamp); // Most recent first
-
-	if (snapshots.length === 0) {
-		// If no snapshot before failure, try to get the most recent one
-		const allSnapshots = traceData.snapshots
-			.filter((s) => s.html)
-			.sort((a, b) => b.timestamp - a.timestamp);
+	const onPage = (s: SnapshotEntry) =>
+		!options.pageId || s.pageId === options.pageId;
+	const pickMainFrame = (snapshots: SnapshotEntry[]) =>
+		snapshots.find((s) => s.isMainFrame !== false) || snapshots[0];
 
-		if (allSnapshots.length === 0) {
-			return null;
+	if (options.callId) {
+		const phaseOrder = ["after", "action", "before"];
+		const callSnapshots = (
+			traceIndex.snapshotsByCallId.get(options.callId) || []
+		)
+			.filter((s) => onPage(s) && s.phase)
+			.sort(
+				(a, b) =>
+					phaseOrder.indexOf(a.phase as string) -
+					phaseOrder.indexOf(b.phase as string),
+			);
+		if (callSnapshots.length > 0) {
+			return toDOMSnapshot(traceIndex, pickMainFrame(callSnapshots));
 		}
+	}
 
-		const snapshot = allSnapshots[0];
-		return {
-			html: snapshot.html || "",
-			timestamp: snapshot.timestamp,
-			url: snapshot.url || "",
-			viewport: snapshot.viewport || { width: 1280, height: 720 },
-		};
+	// Find the snapshot closest to (but not after) the failure time
+	const snapshots = getSnapshotsBefore(traceIndex, failureTime).filter(onPage);
+	if (snapshots.length > 0) {
+		return toDOMSnapshot(traceIndex, pickMainFrame(snapshots));
+	}
+
+	// If no snapshot before failure, try to get the most recent one
+	const allSnapshots = [...traceIndex.snapshotsByTime].reverse().filter(onPage);
+	if (allSnapshots.length === 0) {
+		return null;
 	}
 
-	const snapshot = snapshots[0];
+	return toDOMSnapshot(traceIndex, pickMainFrame(allSnapshots));
+}
+
+/**
+ * Convert a trace snapshot entry to a DOM snapshot
+ */
+function toDOMSnapshot(
+	traceIndex: TraceIndex,
+	snapshot: SnapshotEntry,
+): DOMSnapshot {
 	return {
-		html: snapshot.html || "",
+		html: loadSnapshotHtml(traceIndex.traceData, snapshot) || "",
 		timestamp: snapshot.timestamp,
 		url: snapshot.url || "",
 		viewport: snapshot.viewport || { width: 1280, height: 720 },
+		callId: snapshot.callId,
+		phase: snapshot.phase,
+		frameId: snapshot.frameId,
 	};
 }
 
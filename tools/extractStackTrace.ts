@@ -2,6 +2,9 @@
  * Extract and normalize stack traces from error messages
  */
 
+import type { SourceSnippet } from "@/types/schemas";
+import { stripAnsi } from "./stripAnsi";
+
 export interface StackTraceLine {
 	file?: string;
 	line?: number;
@@ -80,13 +83,25 @@ export function parseStackTraceLine(line: string): StackTraceLine {
 /**
  * Extract file path and line number from error message
  * @param error - Error message or stack trace
+ * @param location - Structured location from the report (`error.location`), preferred when complete
  * @returns Object with file path and line number if found
  */
-export function extractFileLocation(error: string): {
+export function extractFileLocation(
+	error: string,
+	location?: { file?: string; line?: number; column?: number },
+): {
 	file?: string;
 	line?: number;
 	column?: number;
 } {
+	if (location?.file && location.line) {
+		return {
+			file: location.file,
+			line: location.line,
+			column: location.column,
+		};
+	}
+
 	const stackLines = extractStackTrace(error);
 
 	for (const line of stackLines) {
@@ -102,3 +117,46 @@ export function extractFileLocation(error: string): {
 
 	return {};
 }
+
+/**
+ * Parse the source snippet of a report error
+ *
+ * Snippets are code frames like:
+ *
+ *     92 |     await page.click('#next');
+ *   > 93 |     await expect(page.getByText('Done')).toBeVisible();
+ *        |                                          ^
+ *     94 |
+ *
+ * @param snippet - Snippet from `error.snippet` (may contain ANSI codes)
+ * @returns Parsed snippet, or null if no line is highlighted
+ */
+export function parseErrorSnippet(snippet: string): SourceSnippet | null {
+	const lines: SourceSnippet["lines"] = [];
+	let highlightedLine: number | undefined;
+	let column: number | undefined;
+
+	for (const rawLine of stripAnsi(snippet).split("\n")) {
+		const lineMatch = rawLine.match(/^\s*(>?)\s*(\d+) \|(.*)$/);
+		if (lineMatch) {
+			const lineNumber = Number.parseInt(lineMatch[2], 10);
+			lines.push({ lineNumber, text: lineMatch[3].replace(/^ /, "") });
+			if (lineMatch[1]) {
+				highlightedLine = lineNumber;
+			}
+			continue;
+		}
+
+		// Caret line under the highlighted line: "     |      ^"
+		const caretMatch = rawLine.match(/^(\s*\|)( *)\^/);
+		if (caretMatch && highlightedLine !== undefined) {
+			column = caretMatch[2].length;
+		}
+	}
+
+	if (highlightedLine === undefined) {
+		return null;
+	}
+
+	return { lines, highlightedLine, column };
+}
@@ -0,0 +1,220 @@
+/**
+ * Find where a failure happened: the test body, a hook, a fixture, global
+ * setup or the worker process
+ *
+ * Playwright reports failures outside the test body in the test's result,
+ * like any other failure. The scope shows in the failing step path:
+ *
+ *   Before Hooks > beforeEach hook > page.goto(/login)
+ *   After Hooks > fixture: page
+ *
+ * and in the error message:
+ *
+ *   Test timeout of 30000ms exceeded while tearing down "page".
+ *   "beforeAll" hook timeout of 30000ms exceeded.
+ *   Error: worker process exited unexpectedly (code=null, signal=SIGKILL)
+ *
+ * Failures of globalSetup, globalTeardown and the webServer are top-level
+ * report errors, told apart by the file they were raised in and by
+ * Playwright's own webServer messages; setup projects are projects other
+ * projects depend on.
+ */
+
+import type { FailureScope } from "@/types/schemas";
+
+/**
+ * Scope of a failure, with the hook, fixture or setup that failed
+ */
+export interface FailureScopeInfo {
+	scope: FailureScope;
+	scopeName?: string; // e.g. "beforeAll hook", 'fixture "page"', "globalSetup"
+}
+
+/**
+ * globalSetup and globalTeardown files of the config
+ */
+export interface GlobalHookFiles {
+	globalSetup: string[];
+	globalTeardown: string[];
+}
+
+/**
+ * The worker process crashed or could not shut down
+ */
+const WORKER_PATTERN =
+	/worker process exited unexpectedly|worker teardown timeout|internal error:.*worker/i;
+
+/**
+ * "Process from config.webServer was not able to start. Exit code: 1",
+ * "Timed out waiting 60000ms from config.webServer."
+ */
+const WEB_SERVER_PATTERN = /\bconfig\.webServer\b/;
+
+/**
+ * Errors of a test that was stopped, not failed, when the run broke
+ */
+const INTERRUPTED_PATTERN = /\btest (?:was )?(?:interrupted|skipped)\b/i;
+
+/**
+ * Errors of tests that ran without what the root cause should have provided:
+ * the web server refused connections, or the file a setup writes (e.g. the
+ * storageState JSON) is missing
+ */
+const MISSING_SETUP_PATTERNS: Record<string, RegExp> = {
+	webServer: /\b(?:ECONNREFUSED|ERR_CONNECTION_REFUSED)\b/,
+	setup: /\bENOENT\b[^\n]*\.json\b/,
+};
+
+/**
+ * 'while setting up "page"', "Tearing down \"context\" exceeded the test timeout"
+ */
+const FIXTURE_MESSAGE_PATTERN =
+	/\b(?:setting up|tearing down) ["']([^"']+)["']/i;
+
+/**
+ * 'while running "beforeEach" hook', '"beforeAll" hook timeout of 30000ms'
+ */
+const HOOK_MESSAGE_PATTERN =
+	/["']?\b((?:before|after)(?:All|Each))["']? hook\b/i;
+
+/**
+ * Find the scope of a test failure
+ *
+ * The error message wins over the step path: a fixture torn down after a
+ * hook failed is reported inside the hook's step.
+ *
+ * @param errorMessage - Error message, without ANSI codes
+ * @param stepPath - Titles of the failing step and its parents, outermost first
+ * @returns Scope of the failure ("test" for the test body)
+ */
+export function getFailureScope(
+	errorMessage: string,
+	stepPath: string[],
+): FailureScopeInfo {
+	if (WORKER_PATTERN.test(errorMessage)) {
+		return { scope: "worker", scopeName: "worker process" };
+	}
+
+	const fixtureMatch = errorMessage.match(FIXTURE_MESSAGE_PATTERN);
+	if (fixtureMatch) {
+		return { scope: "fixture", scopeName: `fixture "${fixtureMatch[1]}"` };
+	}
+
+	const hookMatch = errorMessage.match(HOOK_MESSAGE_PATTERN);
+	if (hookMatch) {
+		return { scope: "hook", scopeName: `${hookMatch[1]} hook` };
+	}
+
+	// Innermost step first: a fixture set up by a hook is the fixture's failure
+	for (const title of [...stepPath].reverse()) {
+		const fixture = title.match(/^fixture:\s*(.+)$/i);
+		if (fixture) {
+			return { scope: "fixture", scopeName: `fixture "${fixture[1].trim()}"` };
+		}
+		const hook = title.match(/^((?:before|after)(?:All|Each)) hook\b/i);
+		if (hook) {
+			return { scope: "hook", scopeName: `${hook[1]} hook` };
+		}
+		if (/^worker cleanup$/i.test(title)) {
+			return { scope: "worker", scopeName: "worker cleanup" };
+		}
+		if (/^(before|after) hooks$/i.test(title)) {
+			return { scope: "hook", scopeName: title.toLowerCase() };
+		}
+	}
+
+	return { scope: "test" };
+}
+
+/**
+ * Find the scope of a top-level report error (not tied to a test)
+ *
+ * Global setup and teardown errors are recognized by where they were raised
+ * (error location or stack frames in a configured file), not by words in the
+ * message, which may quote anything.
+ *
+ * @param errorMessage - Error message, without ANSI codes
+ * @param errorFiles - Files of the error location and stack frames
+ * @param hookFiles - globalSetup and globalTeardown files of the config
+ * @returns Worker scope for worker crashes, global scope otherwise
+ */
+export function getReportErrorScope(
+	errorMessage: string,
+	errorFiles: string[],
+	hookFiles: GlobalHookFiles,
+): FailureScopeInfo {
+	const raisedIn = (configFiles: string[]) =>
+		errorFiles.some((file) =>
+			configFiles.some((configFile) => isSameFile(file, configFile)),
+		);
+
+	if (WORKER_PATTERN.test(errorMessage)) {
+		return { scope: "worker", scopeName: "worker process" };
+	}
+	if (raisedIn(hookFiles.globalTeardown)) {
+		return { scope: "global", scopeName: "globalTeardown" };
+	}
+	if (raisedIn(hookFiles.globalSetup)) {
+		return { scope: "global", scopeName: "globalSetup" };
+	}
+	if (WEB_SERVER_PATTERN.test(errorMessage)) {
+		return { scope: "global", scopeName: "webServer" };
+	}
+	return { scope: "global", scopeName: "test run" };
+}
+
+/**
+ * Check if a global failure keeps the tests from running correctly: global
+ * setup, setup projects and the web server do; teardown runs after the tests
+ *
+ * @param info - Scope of a failure
+ * @returns True if the failures of dependent tests follow from it
+ */
+export function isRootCauseScope(info: Partial<FailureScopeInfo>): boolean {
+	return (
+		info.scope === "global" &&
+		(info.scopeName === "globalSetup" ||
+			info.scopeName === "webServer" ||
+			!!info.scopeName?.startsWith("setup project"))
+	);
+}
+
+/**
+ * Check if a test's own error shows it failed because of a root-cause
+ * failure: it was interrupted or skipped, or ran without what the setup or
+ * web server provides
+ *
+ * @param errorMessage - Error message of the test, without ANSI codes
+ * @param rootCause - Scope of the root-cause failure
+ * @returns True if the test failure follows from the root cause
+ */
+export function followsFromRootCause(
+	errorMessage: string,
+	rootCause: Partial<FailureScopeInfo>,
+): boolean {
+	const missingSetup =
+		rootCause.scopeName === "webServer"
+			? MISSING_SETUP_PATTERNS.webServer
+			: MISSING_SETUP_PATTERNS.setup;
+	return (
+		INTERRUPTED_PATTERN.test(errorMessage) || missingSetup.test(errorMessage)
+	);
+}
+
+/**
+ * Check if two paths name the same file: equal, or one is the other relative
+ * to some folder (config paths are absolute, stack paths may be relative)
+ */
+function isSameFile(a: string, b: string): boolean {
+	const [pathA, pathB] = [a, b].map((file) =>
+		file.replace(/\\/g, "/").replace(/^file:\/\//, ""),
+	);
+	if (!pathA || !pathB) {
+		return false;
+	}
+	return (
+		pathA === pathB ||
+		pathA.endsWith(`/${pathB.replace(/^\.\//, "")}`) ||
+		pathB.endsWith(`/${pathA.replace(/^\.\//, "")}`)
+	);
+}
@@ -0,0 +1,87 @@
+/**
+ * Failure taxonomy: specific failure types under the six top-level categories
+ *
+ *   selector_not_found   strict_mode_violation, element_detached
+ *   timeout              element_not_stable, pointer_intercepted
+ *   assertion_failed     test_data_conflict, visual_mismatch
+ *   navigation_error     network_error
+ *   unknown              page_crash, page_error, environment_error
+ *
+ * Consumers that only know the top-level categories keep working: a
+ * subcategory always comes with its parent as the category.
+ */
+
+import type { FailureCategory, FailureSubcategory } from "@/types/schemas";
+
+/**
+ * Top-level category of each subcategory
+ */
+export const FAILURE_SUBCATEGORY_PARENTS: Record<
+	FailureSubcategory,
+	FailureCategory["category"]
+> = {
+	strict_mode_violation: "selector_not_found",
+	element_detached: "selector_not_found",
+	element_not_stable: "timeout",
+	pointer_intercepted: "timeout",
+	page_crash: "unknown",
+	page_error: "unknown",
+	network_error: "navigation_error",
+	test_data_conflict: "assertion_failed",
+	visual_mismatch: "assertion_failed",
+	environment_error: "unknown",
+};
+
+/**
+ * What each subcategory means, for prompts and reasoning
+ */
+export const FAILURE_SUBCATEGORY_DESCRIPTIONS: Record<
+	FailureSubcategory,
+	string
+> = {
+	strict_mode_violation: "The locator matched more than one element",
+	element_detached:
+		"The element was removed from the DOM (re-rendered) while the test used it",
+	element_not_stable: "The element kept moving (animation or transition)",
+	pointer_intercepted: "Another element (overlay, modal, banner) covered it",
+	page_crash: "The page or browser crashed",
+	page_error: "An uncaught JavaScript error was thrown in the page",
+	network_error: "An API request or network call failed",
+	test_data_conflict:
+		"Test data collided with existing data (duplicate or already taken)",
+	visual_mismatch: "A screenshot did not match its baseline",
+	environment_error:
+		"The browser, dependencies or configuration of the environment are missing or wrong",
+};
+
+/**
+ * Make the category of a classification match its subcategory
+ *
+ * @param failureCategory - Classification, e.g. from the LLM
+ * @returns Classification whose category is the subcategory's parent
+ */
+export function withParentCategory(
+	failureCategory: FailureCategory,
+): FailureCategory {
+	const { subcategory } = failureCategory;
+	if (!subcategory) {
+		return failureCategory;
+	}
+	return {
+		...failureCategory,
+		category: FAILURE_SUBCATEGORY_PARENTS[subcategory],
+	};
+}
+
+/**
+ * Describe a classification as "category" or "category > subcategory", with
+ * the label of the user rule that matched
+ *
+ * @param failureCategory - Classification
+ * @returns Category path
+ */
+export function describeCategory(failureCategory: FailureCategory): string {
+	const { category, subcategory, label } = failureCategory;
+	const categoryPath = subcategory ? `${category} > ${subcategory}` : category;
+	return label ? `${categoryPath} (${label})` : categoryPath;
+}
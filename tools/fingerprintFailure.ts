@@ -0,0 +1,176 @@
+/**
+ * Error fingerprinting and root-cause clustering within a run
+ *
+ * When the login page changes, 40 tests fail with the same error on the same
+ * selector and page, differing only in ids, numbers and test data:
+ *
+ *   Session 8f3a2c91e4b7 expired at https://app.example.com/login?next=/cart
+ *   Session 1d9e77a0c2f4 expired at https://app.example.com/login?next=/orders/17
+ *
+ * Both normalize to "Session <id> expired at https://app.example.com/login".
+ * Failures with the same fingerprint, selector, URL, outcome and scope form a
+ * cluster; one representative is analyzed in depth and its diagnosis applies
+ * to every member. Without a selector or URL, the fingerprint alone says
+ * too little ("expect(received).toBe(expected)"), so only failures at the
+ * same test file and line are clustered.
+ */
+
+import { createHash } from "node:crypto";
+import type {
+	FailureCluster,
+	TestFailureFacts,
+	TestOutcome,
+} from "@/types/schemas";
+import { extractSelector } from "./extractSelector";
+import { getActionByCallId, type TraceIndex } from "./traceIndex";
+import { getPage, getPageUrlAt } from "./tracePages";
+
+/**
+ * What a failure is clustered on
+ */
+export interface FailureSignature {
+	fingerprint: string; // Normalized error messages
+	selector?: string; // Selector of the failing action
+	url?: string; // Normalized page URL at the failure
+	location?: string; // Test file and line, without selector and URL
+	outcome?: TestOutcome; // Flaky failures only cluster with flaky ones
+	scope?: string; // e.g. "beforeEach hook"; test body failures have none
+}
+
+/**
+ * Dynamic parts of error messages and their placeholders, in order: URLs
+ * lose their query string before quoted text and numbers are replaced
+ */
+const DYNAMIC_PARTS: Array<[RegExp, string]> = [
+	[/(https?:\/\/[^\s?#'"`]*)[?#][^\s'"`]*/g, "$1"], // Query strings, fragments
+	[
+		/\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g,
+		"<timestamp>",
+	],
+	[/\b\d{1,2}:\d{2}:\d{2}(?:\.\d+)?\b/g, "<timestamp>"],
+	[
+		/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+		"<id>",
+	], // UUIDs
+	[/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<id>"], // Hex ids and hashes
+	[/"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`[^`\n]*`/g, "<text>"], // Quoted text
+	[/\d+(?:\.\d+)?/g, "<n>"],
+	[/\s+/g, " "],
+];
+
+/**
+ * Call logs differ in length between runs (retries, waits); the fingerprint
+ * keeps the message before them
+ */
+const CALL_LOG_PATTERN = /\n\s*Call log:[\s\S]*$/;
+
+/**
+ * Normalize an error message or URL into a stable signature
+ *
+ * @param text - Error message (without ANSI codes) or URL
+ * @returns Text without query strings, timestamps, ids, numbers and quoted text
+ */
+export function normalizeErrorSignature(text: string): string {
+	return DYNAMIC_PARTS.reduce(
+		(normalized, [pattern, placeholder]) =>
+			normalized.replace(pattern, placeholder),
+		text.replace(CALL_LOG_PATTERN, ""),
+	).trim();
+}
+
+/**
+ * Compute the signature a failure is clustered on
+ *
+ * @param facts - Failure facts, with the failure anchor if resolved
+ * @param traceIndex - Trace of the failure, if any
+ * @returns Fingerprint of its errors, failing selector, page URL, outcome
+ * and scope
+ */
+export function getFailureSignature(
+	facts: TestFailureFacts,
+	traceIndex: TraceIndex | null,
+): FailureSignature {
+	const messages = facts.errors?.map((error) => error.message) || [facts.error];
+	const fingerprint = messages.map(normalizeErrorSignature).join("\n");
+
+	const anchor = facts.failureAnchor;
+	const anchoredAction =
+		traceIndex && anchor?.callId
+			? getActionByCallId(traceIndex, anchor.callId)
+			: null;
+	// Selectors guessed from text (".toBe" in "expect(received).toBe()") are
+	// too loose to cluster on; only locator calls count
+	const locator = [
+		extractSelector(facts.failedStep),
+		extractSelector(facts.error),
+	].find((extracted) => extracted?.type === "playwright_locator");
+	const selector = anchoredAction?.action?.selector || locator?.originalFormat;
+
+	let url: string | null = null;
+	if (traceIndex) {
+		const { traceData } = traceIndex;
+		const page =
+			(anchor?.pageId && getPage(traceData, anchor.pageId)) ||
+			traceData.pages[0];
+		url = page
+			? getPageUrlAt(page, anchor?.timestamp ?? Number.POSITIVE_INFINITY)
+			: null;
+	}
+
+	return {
+		fingerprint,
+		selector: selector || undefined,
+		url: url ? normalizeErrorSignature(url) : undefined,
+		location:
+			selector || url ? undefined : `${facts.file}:${facts.lineNumber ?? ""}`,
+		outcome: facts.outcome,
+		scope:
+			facts.scope && facts.scope !== "test"
+				? facts.scopeName || facts.scope
+				: undefined,
+	};
+}
+
+/**
+ * Group failures with the same signature
+ *
+ * @param signatures - Signature of each failure
+ * @param hasTrace - Whether each failure has a trace; the first member with
+ * one represents the cluster, since it can be analyzed in most depth
+ * @returns Clusters in the order of their first member
+ */
+export function clusterFailures(
+	signatures: FailureSignature[],
+	hasTrace: boolean[] = [],
+): FailureCluster[] {
+	const clusters = new Map<string, FailureCluster>();
+
+	for (const [i, signature] of signatures.entries()) {
+		const key = [
+			signature.fingerprint,
+			signature.selector || "",
+			signature.url || "",
+			signature.location || "",
+			signature.outcome || "",
+			signature.scope || "",
+		].join("\n");
+
+		const cluster = clusters.get(key);
+		if (!cluster) {
+			clusters.set(key, {
+				id: createHash("sha1").update(key).digest("hex").slice(0, 12),
+				...signature,
+				representativeIndex: i,
+				memberIndexes: [i],
+			});
+			continue;
+		}
+
+		cluster.memberIndexes.push(i);
+		if (hasTrace[i] && !hasTrace[cluster.representativeIndex]) {
+			cluster.representativeIndex = i;
+		}
+	}
+
+	return [...clusters.values()];
+}
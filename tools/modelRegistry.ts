@@ -0,0 +1,470 @@
+/**
+ * LLM model registry
+ *
+ * Every agent asks the registry for its model instead of naming one, so a
+ * run can use a cheap model for classification, a vision model for
+ * screenshots, or a self-hosted model for everything:
+ *
+ *   # pwsniffer.models.yaml
+ *   providers:
+ *     vllm:
+ *       type: openai-compatible
+ *       baseURL: http://gpu-box:8000/v1
+ *   models:
+ *     default: vllm:qwen2.5-72b-instruct
+ *     failureClassifier: ollama:llama3.1
+ *     screenshot: openai:gpt-4o
+ *   fallback: [ollama:llama3.1]
+ *
+ * Environment variables override the file: PWSNIFFER_MODEL (default),
+ * PWSNIFFER_MODEL_<ROLE> (e.g. PWSNIFFER_MODEL_FAILURE_CLASSIFIER) and
+ * PWSNIFFER_FALLBACK_MODELS (comma-separated).
+ *
+ * Built-in providers: openai (OPENAI_API_KEY), anthropic (ANTHROPIC_API_KEY),
+ * azure (AZURE_OPENAI_API_KEY with AZURE_OPENAI_RESOURCE_NAME or
+ * AZURE_OPENAI_BASE_URL), ollama (OLLAMA_BASE_URL, default localhost) and
+ * openai-compatible (OPENAI_COMPATIBLE_BASE_URL).
+ *
+ * A role uses its own model, then the default model, then the fallback
+ * models, skipping providers that are not configured and falling back when a
+ * call (or a stream, before its first content) fails. Only models named in
+ * the configuration are tried, so a self-hosted setup never sends artifacts
+ * to a hosted provider; openai:gpt-4o is used only when no model is
+ * configured at all. The models
+ * file is read from the repository root only; an uploaded bundle cannot
+ * choose where its artifacts are sent.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { wrapLanguageModel } from "ai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createAzure } from "@ai-sdk/azure";
+import { createOpenAI } from "@ai-sdk/openai";
+import { parse as parseYaml } from "yaml";
+import {
+	ModelRoleSchema,
+	ModelsConfigSchema,
+	type LlmProvider,
+	type ModelRole,
+	type ModelsConfig,
+} from "@/types/schemas";
+
+/**
+ * Language model returned to the agents
+ */
+type RegistryModel = ReturnType<typeof wrapLanguageModel>;
+
+/**
+ * Result of starting a stream, and the parts it streams
+ */
+type StreamResult = Awaited<ReturnType<RegistryModel["doStream"]>>;
+type StreamPart =
+	StreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
+
+/**
+ * Model with the reference it was created from, e.g. "ollama:llama3.1"
+ */
+interface NamedModel {
+	ref: string;
+	model: RegistryModel;
+}
+
+/**
+ * Models files read from the repository root, first found wins
+ */
+const MODELS_FILES = [
+	"pwsniffer.models.json",
+	"pwsniffer.models.yaml",
+	"pwsniffer.models.yml",
+];
+
+/**
+ * Model of every role when no model is configured at all
+ */
+const DEFAULT_MODEL = "openai:gpt-4o";
+
+/**
+ * Stream parts sent before any content; a stream that fails after only
+ * these can still fall back to the next model
+ */
+const METADATA_PARTS = new Set<string>([
+	"stream-start",
+	"response-metadata",
+	"raw",
+]);
+
+/**
+ * Providers available without a models file
+ */
+const BUILT_IN_PROVIDERS: Record<string, LlmProvider> = {
+	openai: { type: "openai" },
+	anthropic: { type: "anthropic" },
+	azure: { type: "azure" },
+	ollama: {
+		type: "openai-compatible",
+		baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+	},
+	"openai-compatible": { type: "openai-compatible" },
+};
+
+/**
+ * Environment variable holding the API key of each provider type
+ */
+const API_KEY_ENV: Record<LlmProvider["type"], string> = {
+	openai: "OPENAI_API_KEY",
+	anthropic: "ANTHROPIC_API_KEY",
+	azure: "AZURE_OPENAI_API_KEY",
+	"openai-compatible": "OPENAI_COMPATIBLE_API_KEY",
+};
+
+let modelsConfig: Promise<ModelsConfig> | null = null;
+const modelsByRole = new Map<ModelRole, RegistryModel>();
+
+/**
+ * Get the model of an agent or tool
+ *
+ * @param role - Agent or tool calling the LLM
+ * @returns Model that falls back to the next configured model when a call
+ * fails
+ * @throws Error if the configuration is invalid or no configured model is
+ * available
+ */
+export async function getModel(role: ModelRole): Promise<RegistryModel> {
+	const cached = modelsByRole.get(role);
+	if (cached) {
+		return cached;
+	}
+
+	// A failed load (e.g. an invalid models file) is retried on the next call
+	modelsConfig ??= loadModelsConfig().catch((error) => {
+		modelsConfig = null;
+		throw error;
+	});
+	const config = await modelsConfig;
+	const providers = { ...BUILT_IN_PROVIDERS, ...config.providers };
+
+	// The built-in default is only used when no model is configured at all
+	const isUnconfigured =
+		Object.keys(config.models).length === 0 && config.fallback.length === 0;
+	const refs = isUnconfigured
+		? [DEFAULT_MODEL]
+		: [
+				...new Set(
+					[
+						config.models[role],
+						config.models.default,
+						...config.fallback,
+					].filter((ref): ref is string => !!ref),
+				),
+			];
+	if (refs.length === 0) {
+		throw new Error(
+			`No model configured for ${role}; set models.${role} or models.default`,
+		);
+	}
+
+	const models: NamedModel[] = [];
+	const unavailable: string[] = [];
+	for (const ref of refs) {
+		const model = createModel(ref, providers);
+		if (typeof model === "string") {
+			unavailable.push(`${ref}: ${model}`);
+		} else {
+			models.push({ ref, model });
+		}
+	}
+
+	if (models.length === 0) {
+		throw new Error(
+			`No available model for ${role} (${unavailable.join("; ")})`,
+		);
+	}
+
+	console.log(
+		`[Models] ${role}: ${models.map((m) => m.ref).join(" > ")}${unavailable.length > 0 ? ` (skipped ${unavailable.join("; ")})` : ""}`,
+	);
+	const model = withFallbacks(models);
+	modelsByRole.set(role, model);
+	return model;
+}
+
+/**
+ * Parse and validate a models file
+ *
+ * @param content - File content
+ * @param fileName - File name, to pick JSON or YAML and name errors
+ * @returns Models configuration
+ * @throws Error listing the problems of an invalid file
+ */
+export function parseModelsConfig(
+	content: string,
+	fileName: string,
+): ModelsConfig {
+	let data: unknown;
+	try {
+		data = /\.ya?ml$/i.test(fileName)
+			? parseYaml(content)
+			: JSON.parse(content);
+	} catch (error) {
+		throw new Error(
+			`Invalid models file ${fileName}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	return validateModelsConfig(data ?? {}, `models file ${fileName}`);
+}
+
+/**
+ * Load the models file, then apply the environment variables
+ */
+async function loadModelsConfig(): Promise<ModelsConfig> {
+	let fileConfig: ModelsConfig = { providers: {}, models: {}, fallback: [] };
+	for (const fileName of MODELS_FILES) {
+		let content: string;
+		try {
+			content = await readFile(path.join(process.cwd(), fileName), "utf-8");
+		} catch {
+			continue; // No models file of this name
+		}
+		fileConfig = parseModelsConfig(content, fileName);
+		break;
+	}
+
+	const envModels: Record<string, string> = {};
+	for (const role of ModelRoleSchema.options) {
+		const name =
+			role === "default"
+				? "PWSNIFFER_MODEL"
+				: `PWSNIFFER_MODEL_${role.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`;
+		const ref = process.env[name]?.trim();
+		if (ref) {
+			envModels[role] = ref;
+		}
+	}
+	const envFallback = process.env.PWSNIFFER_FALLBACK_MODELS?.split(",")
+		.map((ref) => ref.trim())
+		.filter(Boolean);
+
+	const envConfig = validateModelsConfig(
+		{ models: envModels, fallback: envFallback },
+		"model environment variables",
+	);
+	return {
+		providers: fileConfig.providers,
+		models: { ...fileConfig.models, ...envConfig.models },
+		fallback: envFallback ? envConfig.fallback : fileConfig.fallback,
+	};
+}
+
+/**
+ * Validate a models configuration
+ *
+ * @throws Error listing the problems, naming the source
+ */
+function validateModelsConfig(data: unknown, source: string): ModelsConfig {
+	const result = ModelsConfigSchema.safeParse(data);
+	if (!result.success) {
+		const problems = result.error.issues
+			.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+			.join("; ");
+		throw new Error(`Invalid ${source}: ${problems}`);
+	}
+	return result.data;
+}
+
+/**
+ * Create the model of a "provider:model" reference
+ *
+ * Local servers are reached through their OpenAI-compatible APIs.
+ *
+ * @returns Model, or why the provider is unavailable
+ */
+function createModel(
+	ref: string,
+	providers: Record<string, LlmProvider>,
+): RegistryModel | string {
+	const separator = ref.indexOf(":");
+	const providerName = ref.slice(0, separator);
+	const modelId = ref.slice(separator + 1);
+
+	const provider = providers[providerName];
+	if (!provider) {
+		return `unknown provider "${providerName}"`;
+	}
+	const apiKeyEnv = provider.apiKeyEnv || API_KEY_ENV[provider.type];
+	const apiKey = process.env[apiKeyEnv];
+
+	switch (provider.type) {
+		case "openai": {
+			if (!apiKey) return `${apiKeyEnv} is not set`;
+			return createOpenAI({ apiKey, baseURL: provider.baseURL })(modelId);
+		}
+
+		case "anthropic": {
+			if (!apiKey) return `${apiKeyEnv} is not set`;
+			return createAnthropic({
+				apiKey,
+				baseURL: provider.baseURL || process.env.ANTHROPIC_BASE_URL,
+			})(modelId);
+		}
+
+		case "azure": {
+			// The model is the deployment name
+			const resourceName =
+				provider.resourceName || process.env.AZURE_OPENAI_RESOURCE_NAME;
+			const baseURL = provider.baseURL || process.env.AZURE_OPENAI_BASE_URL;
+			if (!apiKey) return `${apiKeyEnv} is not set`;
+			if (!resourceName && !baseURL) return "no resource name or base URL";
+			return createAzure({ apiKey, resourceName, baseURL }).chat(modelId);
+		}
+
+		case "openai-compatible": {
+			const baseURL =
+				provider.baseURL || process.env.OPENAI_COMPATIBLE_BASE_URL;
+			if (!baseURL) return "no base URL";
+			// Local servers (Ollama, vLLM) accept any key
+			return createOpenAI({
+				name: providerName,
+				apiKey: apiKey || "none",
+				baseURL,
+			}).chat(modelId);
+		}
+	}
+}
+
+/**
+ * Call the next model when a call fails (provider down, key rejected, model
+ * missing)
+ */
+function withFallbacks(models: NamedModel[]): RegistryModel {
+	const [primary, ...fallbacks] = models;
+	if (fallbacks.length === 0) {
+		return primary.model;
+	}
+
+	const callWithFallbacks = async <T>(
+		call: () => PromiseLike<T>,
+		callModel: (model: RegistryModel) => PromiseLike<T>,
+	): Promise<T> => {
+		try {
+			return await call();
+		} catch (error) {
+			let lastError = error;
+			let failedRef = primary.ref;
+			for (const fallback of fallbacks) {
+				warnFallback(failedRef, lastError, fallback.ref);
+				try {
+					return await callModel(fallback.model);
+				} catch (fallbackError) {
+					lastError = fallbackError;
+					failedRef = fallback.ref;
+				}
+			}
+			throw lastError;
+		}
+	};
+
+	return wrapLanguageModel({
+		model: primary.model,
+		middleware: {
+			specificationVersion: "v3",
+			wrapGenerate: ({ doGenerate, params }) =>
+				callWithFallbacks(doGenerate, (model) => model.doGenerate(params)),
+			wrapStream: ({ doStream, params }) =>
+				streamWithFallbacks(models, 0, (model) =>
+					model === primary.model ? doStream() : model.doStream(params),
+				),
+		},
+	});
+}
+
+/**
+ * Start a stream, moving on to the next model when the call or the stream
+ * fails before any content arrives
+ *
+ * Parts are held back until the first content part; once content has been
+ * passed on, a later error cannot be retried and ends the stream as usual.
+ *
+ * @param models - Models in order of preference
+ * @param index - Model to start the stream with
+ * @param callModel - Starts the stream of a model
+ * @returns Stream of the first model that produced content
+ */
+async function streamWithFallbacks(
+	models: NamedModel[],
+	index: number,
+	callModel: (model: RegistryModel) => PromiseLike<StreamResult>,
+): Promise<StreamResult> {
+	const { ref, model } = models[index];
+	const next = models[index + 1];
+	if (!next) {
+		return callModel(model);
+	}
+
+	const fallBack = (error: unknown) => {
+		warnFallback(ref, error, next.ref);
+		return streamWithFallbacks(models, index + 1, callModel);
+	};
+
+	let result: StreamResult;
+	try {
+		result = await callModel(model);
+	} catch (error) {
+		return fallBack(error);
+	}
+
+	const reader = result.stream.getReader();
+	const heldParts: StreamPart[] = [];
+	while (!heldParts.some((part) => !METADATA_PARTS.has(part.type))) {
+		let chunk: ReadableStreamReadResult<StreamPart>;
+		try {
+			chunk = await reader.read();
+		} catch (error) {
+			return fallBack(error);
+		}
+		if (chunk.done) {
+			break;
+		}
+		if (chunk.value.type === "error") {
+			reader.cancel().catch(() => {});
+			return fallBack(chunk.value.error);
+		}
+		heldParts.push(chunk.value);
+	}
+
+	return {
+		...result,
+		stream: new ReadableStream<StreamPart>({
+			start(controller) {
+				for (const part of heldParts) {
+					controller.enqueue(part);
+				}
+			},
+			async pull(controller) {
+				const chunk = await reader.read();
+				if (chunk.done) {
+					controller.close();
+				} else {
+					controller.enqueue(chunk.value);
+				}
+			},
+			cancel(reason) {
+				return reader.cancel(reason);
+			},
+		}),
+	};
+}
+
+/**
+ * Log that a model failed and the next one is used
+ */
+function warnFallback(failedRef: string, error: unknown, nextRef: string) {
+	// Stream error parts carry the provider's error object
+	const message =
+		error instanceof Error
+			? error.message
+			: (error as { message?: unknown } | null)?.message || String(error);
+	console.warn(
+		`[Models] ${failedRef} failed (${message}), falling back to ${nextRef}`,
+	);
+}
@@ -0,0 +1,357 @@
+/**
+ * Merge Playwright blob reports from sharded runs into the Playwright report structure
+ *
+ * Each shard writes blob-report/report-<shard>.zip:
+ *
+ *   report-<shard>.jsonl   reporter events, one JSON object per line
+ *   resources/<sha1>.*     attachments (traces, screenshots, videos)
+ *
+ * Events are replayed like `npx playwright merge-reports` does: onConfigure
+ * gives the run configuration, onProject
+ * gives the suites and tests of a project, onTestBegin/onTestEnd the results,
+ * onStepBegin/onStepEnd their steps, onStdIO their output and onError the
+ * errors outside tests (globalSetup, worker crashes). Tests are keyed
+ * by testId, which is the same on every shard. Attachment paths
+ * ("resources/<sha1>.zip") resolve against the returned resource files.
+ */
+
+import AdmZip from "adm-zip";
+import type {
+	PlaywrightAnnotation,
+	PlaywrightConfig,
+	PlaywrightError,
+	PlaywrightLocation,
+	PlaywrightProject,
+	PlaywrightReport,
+	PlaywrightSpec,
+	PlaywrightStep,
+	PlaywrightSuite,
+	PlaywrightTestResult,
+} from "./parseReport";
+
+/**
+ * Reporter event of a blob report
+ */
+interface BlobEvent {
+	method: string;
+	params?: BlobEventParams;
+}
+
+/**
+ * Parameters of the events used for merging (each event sets a subset)
+ */
+interface BlobEventParams {
+	config?: PlaywrightConfig;
+	project?: PlaywrightProject & { suites?: BlobSuite[] };
+	testId?: string;
+	resultId?: string;
+	test?: { testId: string; annotations?: PlaywrightAnnotation[] };
+	result?: {
+		id: string;
+		retry?: number;
+		status?: PlaywrightTestResult["status"];
+		duration?: number;
+		errors?: PlaywrightError[];
+		attachments?: PlaywrightTestResult["attachments"];
+	};
+	step?: {
+		id: string;
+		parentStepId?: string;
+		title?: string;
+		duration?: number;
+		error?: PlaywrightError;
+	};
+	type?: string;
+	data?: string;
+	isBase64?: boolean;
+	error?: PlaywrightError;
+}
+
+/**
+ * Suite of an onProject event: entries in newer versions, suites and tests
+ * in older ones
+ */
+interface BlobSuite {
+	title?: string;
+	location?: PlaywrightLocation;
+	entries?: Array<BlobSuite | BlobTestCase>;
+	suites?: BlobSuite[];
+	tests?: BlobTestCase[];
+}
+
+interface BlobTestCase {
+	testId: string;
+	title?: string;
+	location?: PlaywrightLocation;
+	tags?: string[];
+	annotations?: PlaywrightAnnotation[];
+}
+
+/**
+ * Test collected from all shards
+ */
+interface MergedTest {
+	file: string;
+	title?: string;
+	location?: PlaywrightLocation;
+	projectName?: string;
+	tags?: string[];
+	annotations?: PlaywrightAnnotation[];
+	results: Map<string, MergedResult>;
+}
+
+interface MergedResult {
+	result: PlaywrightTestResult;
+	steps: Map<string, PlaywrightStep>;
+}
+
+/**
+ * Check if a ZIP archive is a blob report
+ *
+ * @param data - ZIP archive
+ * @returns True if it holds a .jsonl event log
+ */
+export function isBlobReport(data: Buffer): boolean {
+	try {
+		return new AdmZip(data)
+			.getEntries()
+			.some((entry) => entry.entryName.endsWith(".jsonl"));
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Merge blob reports into one report
+ *
+ * @param archives - Blob report ZIP archives, one per shard
+ * @returns Report with one suite per test file, and the attachment files
+ */
+export function mergeBlobReports(archives: Buffer[]): {
+	report: PlaywrightReport;
+	files: Array<{ path: string; data: Buffer }>;
+} {
+	const tests = new Map<string, MergedTest>();
+	const projects = new Map<string, PlaywrightProject>();
+	let config: PlaywrightConfig = {};
+	const errors: PlaywrightError[] = [];
+	const files: Array<{ path: string; data: Buffer }> = [];
+
+	archives.forEach((archive, shardIndex) => {
+		for (const entry of new AdmZip(archive).getEntries()) {
+			if (entry.isDirectory) continue;
+
+			if (entry.entryName.endsWith(".jsonl")) {
+				const events = entry
+					.getData()
+					.toString("utf-8")
+					.split("\n")
+					.filter((line) => line.trim().length > 0)
+					.flatMap((line) => {
+						try {
+							return [JSON.parse(line) as BlobEvent];
+						} catch (error) {
+							// Skip malformed JSON lines
+							console.warn("Failed to parse blob report line:", error);
+							return [];
+						}
+					});
+				for (const event of events) {
+					const { project, error } = event.params || {};
+					if (event.method === "onConfigure" && event.params?.config) {
+						config = { ...config, ...event.params.config };
+					}
+					if (event.method === "onProject" && project?.name) {
+						projects.set(project.name, {
+							name: project.name,
+							testDir: project.testDir,
+							timeout: project.timeout,
+							retries: project.retries,
+							repeatEach: project.repeatEach,
+							dependencies: project.dependencies,
+							teardown: project.teardown,
+							use: project.use,
+						});
+					}
+					if (event.method === "onError" && error) {
+						errors.push(error);
+					}
+					// Result ids are only unique within a shard
+					applyEvent(tests, event, `${shardIndex}`);
+				}
+			} else {
+				files.push({ path: entry.entryName, data: entry.getData() });
+			}
+		}
+	});
+
+	console.log(
+		`[BlobReport] Merged ${archives.length} blob report(s): ${tests.size} tests, ${files.length} attachments`,
+	);
+
+	return {
+		report: {
+			config: { ...config, projects: [...projects.values()] },
+			suites: buildSuites(tests),
+			errors,
+		},
+		files,
+	};
+}
+
+/**
+ * Apply a reporter event to the merged tests
+ */
+function applyEvent(
+	tests: Map<string, MergedTest>,
+	event: BlobEvent,
+	shardId: string,
+): void {
+	const { project, test, result, step, ...params } = event.params || {};
+	const getResult = (testId?: string, resultId?: string) =>
+		testId && resultId
+			? tests.get(testId)?.results.get(`${shardId}:${resultId}`)
+			: undefined;
+
+	switch (event.method) {
+		case "onProject": {
+			for (const suite of project?.suites || []) {
+				collectTests(
+					tests,
+					suite,
+					suite.location?.file || suite.title || "Unknown file",
+					project?.name,
+				);
+			}
+			break;
+		}
+
+		case "onTestBegin": {
+			if (!params.testId || !result) break;
+			tests.get(params.testId)?.results.set(`${shardId}:${result.id}`, {
+				result: { retry: result.retry, steps: [] },
+				steps: new Map(),
+			});
+			break;
+		}
+
+		case "onTestEnd": {
+			const merged = getResult(test?.testId, result?.id);
+			if (!merged || !result) break;
+			const mergedTest = test && tests.get(test.testId);
+			if (mergedTest && test.annotations) {
+				mergedTest.annotations = test.annotations;
+			}
+			const errors = result.errors || [];
+			Object.assign(merged.result, {
+				status: result.status,
+				duration: result.duration,
+				error: errors[0],
+				errors,
+				attachments: result.attachments,
+			});
+			break;
+		}
+
+		case "onStepBegin": {
+			const merged = getResult(params.testId, params.resultId);
+			if (!merged || !step) break;
+			const newStep: PlaywrightStep = { title: step.title, steps: [] };
+			merged.steps.set(step.id, newStep);
+			const parent = step.parentStepId
+				? merged.steps.get(step.parentStepId)
+				: undefined;
+			(parent?.steps || merged.result.steps)?.push(newStep);
+			break;
+		}
+
+		case "onStepEnd": {
+			if (!step) break;
+			const endedStep = getResult(params.testId, params.resultId)?.steps.get(
+				step.id,
+			);
+			if (!endedStep) break;
+			endedStep.duration = step.duration;
+			endedStep.error = step.error;
+			break;
+		}
+
+		case "onStdIO": {
+			const merged = getResult(params.testId, params.resultId);
+			const type = params.type;
+			if (!merged || (type !== "stdout" && type !== "stderr")) break;
+			merged.result[type] = [
+				...(merged.result[type] || []),
+				params.isBase64 ? { buffer: params.data } : { text: params.data },
+			];
+			break;
+		}
+	}
+}
+
+/**
+ * Register the tests of a suite and its nested suites
+ */
+function collectTests(
+	tests: Map<string, MergedTest>,
+	suite: BlobSuite,
+	file: string,
+	projectName: string | undefined,
+): void {
+	const entries = suite.entries || [
+		...(suite.suites || []),
+		...(suite.tests || []),
+	];
+
+	for (const entry of entries) {
+		if (!("testId" in entry)) {
+			collectTests(tests, entry, file, projectName);
+			continue;
+		}
+		if (!tests.has(entry.testId)) {
+			tests.set(entry.testId, {
+				file: entry.location?.file || file,
+				title: entry.title,
+				location: entry.location,
+				projectName,
+				tags: entry.tags,
+				annotations: entry.annotations,
+				results: new Map(),
+			});
+		}
+	}
+}
+
+/**
+ * Build one suite per test file from the merged tests
+ */
+function buildSuites(tests: Map<string, MergedTest>): PlaywrightSuite[] {
+	const suites = new Map<string, PlaywrightSuite>();
+
+	for (const test of tests.values()) {
+		const results = [...test.results.values()].map(({ result }) => result);
+		if (results.length === 0) continue;
+
+		const spec: PlaywrightSpec = {
+			title: test.title,
+			file: test.file,
+			line: test.location?.line,
+			column: test.location?.column,
+			tags: test.tags,
+			tests: [
+				{
+					title: test.title,
+					projectName: test.projectName,
+					annotations: test.annotations,
+					results,
+				},
+			],
+		};
+
+		const suite = suites.get(test.file) || { title: test.file, specs: [] };
+		suite.specs?.push(spec);
+		suites.set(test.file, suite);
+	}
+
+	return [...suites.values()];
+}
@@ -0,0 +1,243 @@
+/**
+ * Convert Playwright HTML reports to the Playwright report structure
+ *
+ * The HTML reporter writes a folder:
+ *
+ *   playwright-report/
+ *     index.html    viewer, with report.zip embedded as base64
+ *     report.zip    (older versions write it next to index.html)
+ *     data/         attachments by content hash: <sha1>.zip (traces), .png, .webm
+ *
+ * report.zip holds report.json (the test files) and one <fileId>.json per
+ * test file with its tests, results, steps and errors; report.json also
+ * lists the errors outside tests (globalSetup, worker crashes). Errors are stored as
+ * formatted terminal text and are split back with parseFormattedError.
+ * Attachment paths ("data/<sha1>.zip") are relative to the report folder and
+ * resolve against the bundle like JSON report attachments.
+ */
+
+import AdmZip from "adm-zip";
+import { parseFormattedError } from "./parseJUnit";
+import type {
+	PlaywrightAnnotation,
+	PlaywrightError,
+	PlaywrightLocation,
+	PlaywrightOutput,
+	PlaywrightReport,
+	PlaywrightSpec,
+	PlaywrightStep,
+	PlaywrightSuite,
+	PlaywrightTestResult,
+} from "./parseReport";
+
+/**
+ * HTML report structure (simplified)
+ */
+interface HtmlReport {
+	files?: Array<{ fileId: string; fileName: string }>;
+	errors?: HtmlError[]; // Errors outside tests, e.g. in globalSetup
+}
+
+interface HtmlTestFile {
+	fileId?: string;
+	fileName?: string;
+	tests?: HtmlTestCase[];
+}
+
+interface HtmlTestCase {
+	title?: string;
+	projectName?: string;
+	location?: PlaywrightLocation;
+	tags?: string[];
+	annotations?: PlaywrightAnnotation[];
+	results?: HtmlTestResult[];
+}
+
+interface HtmlTestResult {
+	retry?: number;
+	duration?: number;
+	status?: PlaywrightTestResult["status"];
+	steps?: HtmlTestStep[];
+	errors?: HtmlError[];
+	annotations?: PlaywrightAnnotation[];
+	attachments?: Array<{
+		name?: string;
+		contentType?: string;
+		path?: string;
+		body?: string; // Inline attachments, e.g. stdout and stderr
+	}>;
+}
+
+interface HtmlTestStep {
+	title?: string;
+	duration?: number;
+	error?: HtmlError;
+	steps?: HtmlTestStep[];
+}
+
+/**
+ * Formatted error text, or { message } in newer versions
+ */
+type HtmlError = string | { message?: string };
+
+/**
+ * Embedded report.zip in index.html
+ */
+const EMBEDDED_REPORT_PATTERN =
+	/playwrightReportBase64\s*=\s*["']data:application\/zip;base64,([A-Za-z0-9+/=]+)["']/;
+
+/**
+ * Get the report archive embedded in an HTML report's index.html
+ *
+ * @param indexHtml - Content of index.html
+ * @returns report.zip content, or null if the page embeds no report
+ */
+export function readEmbeddedHtmlReport(indexHtml: string): Buffer | null {
+	const match = indexHtml.match(EMBEDDED_REPORT_PATTERN);
+	return match ? Buffer.from(match[1], "base64") : null;
+}
+
+/**
+ * Check if a ZIP archive is an HTML report's report.zip
+ *
+ * @param data - ZIP archive
+ * @returns True if it holds a report.json listing test files
+ */
+export function isHtmlReportArchive(data: Buffer): boolean {
+	try {
+		const report = readJsonEntry<HtmlReport>(new AdmZip(data), "report.json");
+		return Array.isArray(report?.files);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Convert an HTML report's report.zip to the Playwright report structure
+ *
+ * @param archive - report.zip content
+ * @returns Report with one suite per test file
+ */
+export function convertHtmlReport(archive: Buffer): PlaywrightReport {
+	const zip = new AdmZip(archive);
+	const report = readJsonEntry<HtmlReport>(zip, "report.json");
+
+	const suites: PlaywrightSuite[] = [];
+	for (const { fileId, fileName } of report?.files || []) {
+		const testFile = readJsonEntry<HtmlTestFile>(zip, `${fileId}.json`);
+		if (!testFile) {
+			console.warn(`[HtmlReport] Missing ${fileId}.json for ${fileName}`);
+			continue;
+		}
+
+		suites.push({
+			title: fileName,
+			specs: (testFile.tests || []).map((test) =>
+				convertTestCase(test, fileName),
+			),
+		});
+	}
+
+	return {
+		suites,
+		errors: (report?.errors || []).map((error) => parseError(error, "")),
+	};
+}
+
+/**
+ * Convert a test case (one per project) to a spec
+ */
+function convertTestCase(test: HtmlTestCase, fileName: string): PlaywrightSpec {
+	const file = test.location?.file || fileName;
+
+	return {
+		title: test.title,
+		file,
+		line: test.location?.line,
+		column: test.location?.column,
+		tags: test.tags,
+		tests: [
+			{
+				title: test.title,
+				projectName: test.projectName,
+				annotations: test.annotations,
+				results: (test.results || []).map((result) =>
+					convertResult(result, file),
+				),
+			},
+		],
+	};
+}
+
+/**
+ * Convert a result: errors are parsed, stdout/stderr attachments become output
+ */
+function convertResult(
+	result: HtmlTestResult,
+	file: string,
+): PlaywrightTestResult {
+	const errors = (result.errors || []).map((error) => parseError(error, file));
+	const attachments = result.attachments || [];
+
+	const readOutput = (name: string): PlaywrightOutput[] | undefined => {
+		const chunks = attachments
+			.filter((attachment) => attachment.name === name && attachment.body)
+			.map((attachment) => ({ text: attachment.body }));
+		return chunks.length > 0 ? chunks : undefined;
+	};
+
+	return {
+		status: result.status,
+		duration: result.duration,
+		retry: result.retry,
+		steps: (result.steps || []).map((step) => convertStep(step, file)),
+		error: errors[0],
+		errors,
+		annotations: result.annotations,
+		// Inline bodies are plain text here, base64 in JSON reports
+		attachments: attachments
+			.filter(
+				(attachment) =>
+					attachment.path ||
+					(attachment.body &&
+						attachment.name !== "stdout" &&
+						attachment.name !== "stderr"),
+			)
+			.map(({ name, contentType, path, body }) => ({
+				name,
+				contentType,
+				path,
+				body: body !== undefined ? Buffer.from(body).toString("base64") : body,
+			})),
+		stdout: readOutput("stdout"),
+		stderr: readOutput("stderr"),
+	};
+}
+
+/**
+ * Convert a step and its nested steps
+ */
+function convertStep(step: HtmlTestStep, file: string): PlaywrightStep {
+	return {
+		title: step.title,
+		duration: step.duration,
+		error: step.error ? parseError(step.error, file) : undefined,
+		steps: (step.steps || []).map((nested) => convertStep(nested, file)),
+	};
+}
+
+/**
+ * Parse a formatted error of the HTML report
+ */
+function parseError(error: HtmlError, file: string): PlaywrightError {
+	const text = typeof error === "string" ? error : error.message || "";
+	return parseFormattedError(text, file);
+}
+
+/**
+ * Read a JSON entry of a ZIP archive
+ */
+function readJsonEntry<T>(zip: AdmZip, entryName: string): T | null {
+	const entry = zip.getEntry(entryName);
+	return entry ? (JSON.parse(entry.getData().toString("utf-8")) as T) : null;
+}
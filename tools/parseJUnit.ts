@@ -0,0 +1,342 @@
+/**
+ * Convert JUnit XML reports to the Playwright report structure
+ *
+ * Playwright's junit reporter writes one <testsuite> per test file and one
+ * <testcase> per test:
+ *
+ *   <testsuite name="checkout.spec.ts" ...>
+ *     <testcase name="Checkout › pays with card" classname="checkout.spec.ts" time="6.1">
+ *       <failure message="checkout.spec.ts:94:83 pays with card" type="FAILURE">
+ *         <![CDATA[  [chromium] › checkout.spec.ts:94:83 › Checkout › pays with card
+ *
+ *     Error: expect(locator).toBeVisible() failed
+ *     ...
+ *     > 94 |     await expect(page.getByRole('heading')).toBeVisible();
+ *     ...
+ *         at /ci/tests/checkout.spec.ts:94:83]]>
+ *       </failure>
+ *       <system-out><![CDATA[[[ATTACHMENT|test-results/checkout-chromium/trace.zip]]]]></system-out>
+ *     </testcase>
+ *   </testsuite>
+ *
+ * The failure text is split back into message, source snippet and stack, so
+ * parseReport.ts produces the same facts as for a JSON report. Reports from
+ * other JUnit producers (classname "com.acme.LoginTest", plain stack in the
+ * body) are handled the same way.
+ */
+
+import type {
+	PlaywrightError,
+	PlaywrightReport,
+	PlaywrightSpec,
+	PlaywrightSuite,
+	PlaywrightTestResult,
+} from "./parseReport";
+import { stripAnsi } from "./stripAnsi";
+
+/**
+ * Attachment reference Playwright writes to <system-out>
+ */
+const ATTACHMENT_PATTERN = /^\s*\[\[ATTACHMENT\|(.+?)\]\]\s*$/;
+
+/**
+ * Content types of attachments by file extension
+ */
+const ATTACHMENT_TYPES: Array<{
+	pattern: RegExp;
+	name: string;
+	contentType: string;
+}> = [
+	{ pattern: /\.zip$/i, name: "trace", contentType: "application/zip" },
+	{ pattern: /\.png$/i, name: "screenshot", contentType: "image/png" },
+	{ pattern: /\.jpe?g$/i, name: "screenshot", contentType: "image/jpeg" },
+	{ pattern: /\.webm$/i, name: "video", contentType: "video/webm" },
+	{ pattern: /\.mp4$/i, name: "video", contentType: "video/mp4" },
+	{ pattern: /\.md$/i, name: "error-context", contentType: "text/markdown" },
+];
+
+/**
+ * Check if report content is JUnit XML
+ *
+ * @param content - Report file content
+ * @returns True for <testsuites> / <testsuite> documents
+ */
+export function isJUnitReport(content: string): boolean {
+	return /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<testsuites?\b/.test(
+		content,
+	);
+}
+
+/**
+ * Convert a JUnit XML report to the Playwright report structure
+ *
+ * @param xml - JUnit XML report
+ * @returns Report with one suite per <testsuite> and one spec per <testcase>
+ */
+export function convertJUnitReport(xml: string): PlaywrightReport {
+	const suites: PlaywrightSuite[] = [];
+
+	for (const suiteMatch of xml.matchAll(
+		/<testsuite\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testsuite>)/g,
+	)) {
+		const suiteAttributes = parseAttributes(suiteMatch[1]);
+		const specs: PlaywrightSpec[] = [];
+
+		for (const caseMatch of (suiteMatch[2] || "").matchAll(
+			/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g,
+		)) {
+			specs.push(
+				convertTestCase(
+					parseAttributes(caseMatch[1]),
+					caseMatch[2] || "",
+					suiteAttributes,
+				),
+			);
+		}
+
+		suites.push({ title: suiteAttributes.name, specs });
+	}
+
+	return { suites };
+}
+
+/**
+ * Convert a <testcase> to a spec with a single result
+ */
+function convertTestCase(
+	attributes: Record<string, string>,
+	body: string,
+	suiteAttributes: Record<string, string>,
+): PlaywrightSpec {
+	const failure = body.match(
+		/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/,
+	);
+	const skipped = /<skipped\b/.test(body);
+
+	const output = parseSystemOut(readElementText(body, "system-out"));
+	const stderr = readElementText(body, "system-err");
+
+	const file = getTestFile(attributes, suiteAttributes.name);
+	const error = failure
+		? parseFormattedError(
+				decodeText(failure[3] || ""),
+				file,
+				parseAttributes(failure[2]).message,
+			)
+		: undefined;
+
+	const result: PlaywrightTestResult = {
+		status: failure ? "failed" : skipped ? "skipped" : "passed",
+		duration: attributes.time
+			? Math.round(Number.parseFloat(attributes.time) * 1000)
+			: undefined,
+		retry: 0,
+		error,
+		errorLocation: error?.location,
+		attachments: output.attachments,
+		stdout: output.text ? [{ text: output.text }] : undefined,
+		stderr: stderr ? [{ text: stderr }] : undefined,
+	};
+
+	// "Describe › test" names: the test title is the last part
+	const title = (attributes.name || "Unknown test").split(" › ").pop();
+
+	// Playwright writes the project name as the suite's hostname
+	return {
+		title,
+		file,
+		tests: [
+			{ title, projectName: suiteAttributes.hostname, results: [result] },
+		],
+	};
+}
+
+/**
+ * Map a test case to its file
+ *
+ * Playwright uses the spec file as classname; other producers use a class
+ * name, or put the file in a `file` attribute.
+ */
+function getTestFile(
+	attributes: Record<string, string>,
+	suiteName: string | undefined,
+): string {
+	const isPath = (value: string | undefined): value is string =>
+		!!value && /\.[cm]?[jt]sx?$/.test(value);
+
+	if (attributes.file) return attributes.file;
+	if (isPath(attributes.classname)) return attributes.classname;
+	if (isPath(suiteName)) return suiteName;
+	return attributes.classname || suiteName || "Unknown file";
+}
+
+/**
+ * Split a formatted error into message, source snippet, stack and location
+ *
+ * Playwright formats errors as terminal text in JUnit failures and in HTML
+ * reports: message, code frame of the failing line, then the stack.
+ *
+ * @param text - Formatted error, may contain ANSI codes
+ * @param file - Test file, to find the error location
+ * @param messageAttribute - Short message used when the text has none
+ * @returns Error in the JSON report structure
+ */
+export function parseFormattedError(
+	text: string,
+	file: string,
+	messageAttribute?: string,
+): PlaywrightError {
+	const lines = stripAnsi(text).split("\n");
+
+	// Playwright's header line: "[chromium] › checkout.spec.ts:94:83 › title"
+	const headerIndex = lines.findIndex((line) => line.trim().length > 0);
+	const header = headerIndex >= 0 ? lines[headerIndex] : "";
+	if (header.includes(" › ")) {
+		lines.splice(0, headerIndex + 1);
+	}
+
+	const messageLines: string[] = [];
+	const snippetLines: string[] = [];
+	const stackLines: string[] = [];
+	for (const line of lines) {
+		if (/^\s*at\s/.test(line)) {
+			stackLines.push(line.trim());
+		} else if (/^\s*>?\s*\d+ \|/.test(line) || /^\s*\|\s*\^/.test(line)) {
+			snippetLines.push(line);
+		} else if (/^\s*attachment #\d+/i.test(line)) {
+			break;
+		} else if (snippetLines.length === 0 && stackLines.length === 0) {
+			messageLines.push(line);
+		}
+	}
+
+	const message =
+		dedent(messageLines).trim() || messageAttribute || "Unknown error";
+
+	return {
+		message,
+		stack:
+			stackLines.length > 0
+				? `${message}\n${stackLines.join("\n")}`
+				: undefined,
+		location: findLocation(`${header}\n${messageAttribute || ""}`, file),
+		snippet: snippetLines.length > 0 ? snippetLines.join("\n") : undefined,
+	};
+}
+
+/**
+ * Find "file:line:column" of the test file in a header or message
+ */
+function findLocation(
+	text: string,
+	file: string,
+): PlaywrightError["location"] | undefined {
+	const fileName = file.split(/[\\/]/).pop() || file;
+	for (const match of text.matchAll(/([^\s›]+):(\d+):(\d+)/g)) {
+		if (match[1].split(/[\\/]/).pop() === fileName) {
+			return {
+				file: match[1],
+				line: Number.parseInt(match[2], 10),
+				column: Number.parseInt(match[3], 10),
+			};
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Separate attachment references from the rest of <system-out>
+ */
+function parseSystemOut(text: string): {
+	text: string;
+	attachments: NonNullable<PlaywrightTestResult["attachments"]>;
+} {
+	const attachments: NonNullable<PlaywrightTestResult["attachments"]> = [];
+	const lines: string[] = [];
+
+	for (const line of text.split("\n")) {
+		const match = line.match(ATTACHMENT_PATTERN);
+		if (!match) {
+			lines.push(line);
+			continue;
+		}
+		const path = match[1];
+		const type = ATTACHMENT_TYPES.find((t) => t.pattern.test(path));
+		attachments.push({
+			name: type?.name || "attachment",
+			contentType: type?.contentType || "application/octet-stream",
+			path,
+		});
+	}
+
+	return { text: lines.join("\n").trim(), attachments };
+}
+
+/**
+ * Get the text of the first child element with a tag name
+ */
+function readElementText(xml: string, tagName: string): string {
+	const match = xml.match(
+		new RegExp(`<${tagName}\\b[^>]*>([\\s\\S]*?)</${tagName}>`),
+	);
+	return match ? decodeText(match[1]) : "";
+}
+
+/**
+ * Parse XML attributes into a map
+ */
+function parseAttributes(source: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+		attributes[match[1]] = decodeEntities(match[3]);
+	}
+	return attributes;
+}
+
+/**
+ * Decode element text: CDATA sections as-is, entities elsewhere
+ */
+function decodeText(text: string): string {
+	return text
+		.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+		.map((part) =>
+			part.startsWith("<![CDATA[")
+				? part.slice("<![CDATA[".length, -"]]>".length)
+				: decodeEntities(part),
+		)
+		.join("");
+}
+
+/**
+ * Decode XML character entities
+ */
+function decodeEntities(text: string): string {
+	const named: Record<string, string> = {
+		lt: "<",
+		gt: ">",
+		amp: "&",
+		quot: '"',
+		apos: "'",
+	};
+	return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+		if (code.startsWith("#")) {
+			const codePoint = /^#x/i.test(code)
+				? Number.parseInt(code.slice(2), 16)
+				: Number.parseInt(code.slice(1), 10);
+			// Out-of-range references are left as written
+			return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+		}
+		return named[code] ?? entity;
+	});
+}
+
+/**
+ * Remove the indentation shared by all non-empty lines
+ */
+function dedent(lines: string[]): string {
+	const indents = lines
+		.filter((line) => line.trim().length > 0)
+		.map((line) => line.match(/^\s*/)?.[0].length ?? 0);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+	return lines.map((line) => line.slice(indent)).join("\n");
+}
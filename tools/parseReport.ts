@@ -1,90 +1,204 @@
 /**
  * Parse Playwright JSON report and extract failure information
+ *
+ * JUnit XML reports are converted to the same report structure first
+ * (see parseJUnit.ts). Each failure gets a scope (see failureScope.ts);
+ * top-level report errors (globalSetup, webServer, worker crashes) become
+ * failures of their own.
  */
 
-import type { TestFailureFacts } from "@/types/schemas";
-import { extractStackTrace, extractFileLocation } from "./extractStackTrace";
+import type {
+	ProjectResult,
+	ReportAttachment,
+	TestAnnotation,
+	TestAttempt,
+	TestError,
+	TestFailureFacts,
+	TestOutcome,
+} from "@/types/schemas";
+import {
+	extractStackTrace,
+	extractFileLocation,
+	parseErrorSnippet,
+	parseStackTraceLine,
+} from "./extractStackTrace";
+import { stripAnsi } from "./stripAnsi";
+import { convertJUnitReport, isJUnitReport } from "./parseJUnit";
+import {
+	followsFromRootCause,
+	getFailureScope,
+	getReportErrorScope,
+	isRootCauseScope,
+	type FailureScopeInfo,
+	type GlobalHookFiles,
+} from "./failureScope";
+
+/**
+ * Lines of stdout, stderr and console logs kept per failure
+ */
+const MAX_OUTPUT_LINES = 200;
+
+/**
+ * Characters kept per output line
+ */
+const MAX_OUTPUT_LINE_LENGTH = 500;
+
+/**
+ * Names of the failures built from top-level report errors, by scope name
+ */
+const REPORT_ERROR_NAMES: Record<string, string> = {
+	globalSetup: "Global setup",
+	globalTeardown: "Global teardown",
+	webServer: "Web server",
+	"worker process": "Worker process",
+	"test run": "Test run",
+};
 
 /**
  * Playwright JSON report structure (simplified)
  */
-interface PlaywrightReport {
-	config?: {
-		testDir?: string;
-		timeout?: number;
-	};
+export interface PlaywrightReport {
+	config?: PlaywrightConfig;
 	suites?: PlaywrightSuite[];
+	errors?: PlaywrightError[]; // Errors outside tests: globalSetup, webServer, worker crashes
+}
+
+export interface PlaywrightConfig {
+	version?: string; // Playwright version
+	configFile?: string;
+	rootDir?: string;
+	testDir?: string;
+	timeout?: number;
+	globalTimeout?: number;
+	maxFailures?: number;
+	workers?: number;
+	fullyParallel?: boolean;
+	forbidOnly?: boolean;
+	retries?: number;
+	metadata?: Record<string, unknown>;
+	globalSetup?: string | string[] | null;
+	globalTeardown?: string | string[] | null;
+	use?: PlaywrightUseOptions;
+	expect?: { timeout?: number };
+	projects?: PlaywrightProject[];
+}
+
+export interface PlaywrightProject {
+	id?: string;
+	name?: string;
+	testDir?: string;
+	timeout?: number;
+	retries?: number;
+	repeatEach?: number;
+	dependencies?: string[]; // Names of the setup projects it runs after
+	teardown?: string; // Name of its teardown project
+	use?: PlaywrightUseOptions;
+	expect?: { timeout?: number };
+}
+
+export interface PlaywrightUseOptions {
+	baseURL?: string;
+	viewport?: { width: number; height: number } | null;
+	locale?: string;
+	timezoneId?: string;
+	browserName?: string;
+	channel?: string;
+	headless?: boolean;
+	actionTimeout?: number;
+	navigationTimeout?: number;
+	testIdAttribute?: string;
 }
 
-interface PlaywrightSuite {
+export interface PlaywrightSuite {
 	title?: string;
 	specs?: PlaywrightSpec[];
 	suites?: PlaywrightSuite[]; // Nested suites
 }
 
-interface PlaywrightSpec {
+export interface PlaywrightSpec {
 	title?: string;
 	file?: string;
 	line?: number;
 	column?: number;
-	tests?: PlaywrightTest[];
+	tags?: string[]; // e.g. ["@smoke"], including tags in the title
+	tests?: PlaywrightTest[]; // One per project
 }
 
-interface PlaywrightTest {
+export interface PlaywrightTest {
 	title?: string;
+	projectId?: string;
+	projectName?: string;
 	line?: number;
 	column?: number;
+	annotations?: PlaywrightAnnotation[];
 	results?: PlaywrightTestResult[];
 }
 
-interface PlaywrightTestResult {
-	status?: "passed" | "failed" | "skipped" | "timedOut";
+export interface PlaywrightAnnotation {
+	type?: string;
+	description?: string;
+}
+
+export interface PlaywrightTestResult {
+	status?: "passed" | "failed" | "skipped" | "timedOut" | "interrupted";
 	duration?: number;
 	retry?: number;
 	steps?: PlaywrightStep[];
-	error?: {
-		message?: string;
-		stack?: string;
-	};
+	error?: PlaywrightError; // First error
+	errors?: PlaywrightError[]; // All errors (soft assertions, teardown errors)
+	errorLocation?: PlaywrightLocation;
+	attachments?: Array<{
+		name?: string;
+		contentType?: string;
+		path?: string; // Absent for attachments stored inline as `body`
+		body?: string; // Base64
+	}>;
+	stdout?: PlaywrightOutput[];
+	stderr?: PlaywrightOutput[];
+	annotations?: PlaywrightAnnotation[]; // Added while the test ran
 }
 
-interface PlaywrightStep {
+/**
+ * Chunk of test output: text, or binary output as base64
+ */
+export interface PlaywrightOutput {
+	text?: string;
+	buffer?: string;
+}
+
+export interface PlaywrightStep {
 	title?: string;
 	duration?: number;
-	error?: {
-		message?: string;
-		stack?: string;
-	};
+	error?: PlaywrightError;
 	steps?: PlaywrightStep[];
 }
 
-/**
- * Parse Playwright JSON report and extract all failed tests
- * @param reportJson - Playwright JSON report as string or Buffer
- * @returns Array of TestFailureFacts for each failed test
- */
+export interface PlaywrightError {
+	message?: string; // Colored with ANSI codes
+	stack?: string;
+	location?: PlaywrightLocation;
+	snippet?: string; // Code frame around the failing line, colored
+}
+
+export interface PlaywrightLocation {
+	file?: string;
+	line?: number;
+	column?: number;
+}
+
 /**
  * Recursively traverse a suite to find all tests (handles nested suites)
  */
-function traverseSuiteForFailures(
+function traverseSuiteForTests(
 	suite: any,
-	failures: TestFailureFacts[],
+	tests: Array<{ spec: PlaywrightSpec; test: PlaywrightTest }>,
 ): void {
 	// Check specs in this suite
 	if (suite.specs) {
 		for (const spec of suite.specs) {
 			if (spec.tests) {
 				for (const test of spec.tests) {
-					if (test.results) {
-						for (const result of test.results) {
-							if (result.status === "failed" || result.status === "timedOut") {
-								const failure = extractFailureFacts(spec, test, result);
-								if (failure) {
-									failures.push(failure);
-								}
-							}
-						}
-					}
+					tests.push({ spec, test });
 				}
 			}
 		}
@@ -93,28 +207,337 @@ function traverseSuiteForFailures(
 	// Recursively check nested suites
 	if (suite.suites) {
 		for (const nestedSuite of suite.suites) {
-			traverseSuiteForFailures(nestedSuite, failures);
+			traverseSuiteForTests(nestedSuite, tests);
 		}
 	}
 }
 
-export function parsePlaywrightReport(
+/**
+ * Read a Playwright JSON report, or a JUnit XML report converted to the
+ * same structure
+ * @param reportJson - Report as string or Buffer
+ * @returns Report structure
+ */
+export function readPlaywrightReport(
 	reportJson: string | Buffer,
-): TestFailureFacts[] {
+): PlaywrightReport {
 	const reportString =
 		typeof reportJson === "string" ? reportJson : reportJson.toString("utf-8");
-	const report: PlaywrightReport = JSON.parse(reportString);
+	return isJUnitReport(reportString)
+		? convertJUnitReport(reportString)
+		: JSON.parse(reportString);
+}
 
-	const failures: TestFailureFacts[] = [];
+/**
+ * Parse Playwright JSON report and extract all failed tests
+ * @param reportJson - Playwright JSON report as string or Buffer
+ * @returns Array of TestFailureFacts for each failed test
+ */
+export function parsePlaywrightReport(
+	reportJson: string | Buffer,
+): TestFailureFacts[] {
+	const report = readPlaywrightReport(reportJson);
 
-	// Traverse the report structure to find all failed tests (handles nested suites)
+	// Traverse the report structure to find all tests (handles nested suites)
+	const tests: Array<{ spec: PlaywrightSpec; test: PlaywrightTest }> = [];
 	if (report.suites) {
 		for (const suite of report.suites) {
-			traverseSuiteForFailures(suite, failures);
+			traverseSuiteForTests(suite, tests);
 		}
 	}
 
-	return failures;
+	// Outcome of each test in every project, to compare browsers
+	const projectResults = new Map<string, ProjectResult[]>();
+	for (const { spec, test } of tests) {
+		if (!test.projectName) continue;
+		const key = getTestKey(spec);
+		projectResults.set(key, [
+			...(projectResults.get(key) || []),
+			{ projectName: test.projectName, outcome: getProjectOutcome(test) },
+		]);
+	}
+
+	const projects = report.config?.projects || [];
+	const toFiles = (files: string | string[] | null | undefined) =>
+		typeof files === "string" ? [files] : files || [];
+	const hookFiles: GlobalHookFiles = {
+		globalSetup: toFiles(report.config?.globalSetup),
+		globalTeardown: toFiles(report.config?.globalTeardown),
+	};
+
+	// Errors outside tests come first: they often explain the test failures
+	const failures: TestFailureFacts[] = (report.errors || []).map((error) =>
+		extractReportErrorFacts(error, hookFiles),
+	);
+	for (const { spec, test } of tests) {
+		const failure = extractTestFailure(spec, test);
+		if (!failure) continue;
+
+		const results = projectResults.get(getTestKey(spec)) || [];
+		failures.push({
+			...failure,
+			...getProjectScope(test.projectName, projects),
+			projectResults: results.length > 1 ? results : undefined,
+		});
+	}
+
+	return foldDependentFailures(failures, projects);
+}
+
+/**
+ * Global scope of the tests of setup and teardown projects
+ */
+function getProjectScope(
+	projectName: string | undefined,
+	projects: PlaywrightProject[],
+): FailureScopeInfo | null {
+	if (!projectName) {
+		return null;
+	}
+	if (projects.some((project) => project.dependencies?.includes(projectName))) {
+		return { scope: "global", scopeName: `setup project "${projectName}"` };
+	}
+	if (projects.some((project) => project.teardown === projectName)) {
+		return { scope: "global", scopeName: `teardown project "${projectName}"` };
+	}
+	return null;
+}
+
+/**
+ * Report the failures of tests that ran after a broken global setup as
+ * affected tests of the setup failure, so the run gets one root-cause
+ * diagnosis instead of one per test
+ *
+ * globalSetup and webServer failures affect every test; a setup project
+ * failure affects the tests of the projects that depend on it. Only tests
+ * whose own error shows they were stopped or ran without the setup are
+ * folded; other failures of those tests are diagnosed on their own.
+ */
+function foldDependentFailures(
+	failures: TestFailureFacts[],
+	projects: PlaywrightProject[],
+): TestFailureFacts[] {
+	const rootCauses = failures.filter(isRootCauseScope);
+	if (rootCauses.length === 0) {
+		return failures;
+	}
+
+	const affectedTests = new Map<TestFailureFacts, string[]>();
+	const remaining: TestFailureFacts[] = [];
+	for (const facts of failures) {
+		const rootCause =
+			facts.scope === "worker" || isRootCauseScope(facts)
+				? undefined
+				: rootCauses.find(
+						(root) =>
+							(!root.projectName ||
+								dependsOnProject(
+									facts.projectName,
+									root.projectName,
+									projects,
+								)) &&
+							followsFromRootCause(facts.error, root),
+					);
+		if (!rootCause) {
+			remaining.push(facts);
+			continue;
+		}
+		const fileName = facts.file.split(/[\\/]/).pop();
+		affectedTests.set(rootCause, [
+			...(affectedTests.get(rootCause) || []),
+			`${facts.projectName ? `[${facts.projectName}] › ` : ""}${fileName} › ${facts.testName}`,
+		]);
+	}
+
+	return remaining.map((facts) =>
+		affectedTests.has(facts)
+			? { ...facts, affectedTests: affectedTests.get(facts) }
+			: facts,
+	);
+}
+
+/**
+ * Check if a project runs after a setup project, directly or through other
+ * dependencies
+ */
+function dependsOnProject(
+	projectName: string | undefined,
+	setupProjectName: string,
+	projects: PlaywrightProject[],
+	visited = new Set<string>(),
+): boolean {
+	if (!projectName || visited.has(projectName)) {
+		return false;
+	}
+	visited.add(projectName);
+
+	const dependencies =
+		projects.find((project) => project.name === projectName)?.dependencies ||
+		[];
+	return dependencies.some(
+		(dependency) =>
+			dependency === setupProjectName ||
+			dependsOnProject(dependency, setupProjectName, projects, visited),
+	);
+}
+
+/**
+ * Extract failure facts from a top-level report error
+ */
+function extractReportErrorFacts(
+	error: PlaywrightError,
+	hookFiles: GlobalHookFiles,
+): TestFailureFacts {
+	const errorMessage = stripAnsi(error.message || "Unknown error");
+	const errorStack = error.stack ? stripAnsi(error.stack) : errorMessage;
+	const location = extractFileLocation(errorStack, error.location);
+	const snippet = error.snippet ? parseErrorSnippet(error.snippet) : null;
+	const stackTrace = extractStackTrace(errorStack);
+
+	// Where the error was raised tells global setup from teardown
+	const errorFiles = [
+		location.file,
+		...stackTrace.map((line) => parseStackTraceLine(line).file),
+	].filter((file): file is string => !!file);
+	const { scope, scopeName = "test run" } = getReportErrorScope(
+		errorMessage,
+		errorFiles,
+		hookFiles,
+	);
+
+	return {
+		testName: REPORT_ERROR_NAMES[scopeName] || scopeName,
+		file:
+			location.file ||
+			(scopeName === "globalSetup" ? hookFiles.globalSetup[0] : undefined) ||
+			"Unknown file",
+		failedStep: scopeName,
+		error: errorMessage,
+		lineNumber: location.line,
+		columnNumber: location.column,
+		stackTrace: stackTrace.length > 0 ? stackTrace : undefined,
+		snippet: snippet ?? undefined,
+		scope,
+		scopeName,
+	};
+}
+
+/**
+ * Identify a test across projects: reports list it once per project, in one
+ * spec (JSON) or in one spec per project (JUnit, HTML and blob reports)
+ */
+function getTestKey(spec: PlaywrightSpec): string {
+	const fileName = (spec.file || "").split(/[\\/]/).pop();
+	return `${fileName}:${spec.line ?? ""}:${spec.title}`;
+}
+
+/**
+ * Outcome of a test in its project, across retries
+ */
+function getProjectOutcome(test: PlaywrightTest): ProjectResult["outcome"] {
+	const results = test.results || [];
+	const failed = results.some(isFailedResult);
+	const passed = results.some((result) => result.status === "passed");
+	if (failed) {
+		return passed ? "flaky" : "failed";
+	}
+	return passed ? "passed" : "skipped";
+}
+
+/**
+ * Extract failure facts for a test from all of its attempts
+ *
+ * Retries of a test are reported as separate results. They are grouped into
+ * one failure, described by the last failed attempt, with the attempt history
+ * and the outcome across attempts.
+ */
+function extractTestFailure(
+	spec: PlaywrightSpec,
+	test: PlaywrightTest,
+): TestFailureFacts | null {
+	const results = [...(test.results || [])].sort(
+		(a, b) => (a.retry ?? 0) - (b.retry ?? 0),
+	);
+	const failedResults = results.filter(isFailedResult);
+	if (failedResults.length === 0) {
+		return null;
+	}
+
+	const lastFailedResult = failedResults[failedResults.length - 1];
+	const failure = extractFailureFacts(spec, test, lastFailedResult);
+	if (!failure) {
+		return null;
+	}
+
+	const attempts: TestAttempt[] = results.map((result, index) => ({
+		retry: result.retry ?? index,
+		status: result.status || "failed",
+		duration: result.duration,
+		error: result.error?.message ? stripAnsi(result.error.message) : undefined,
+	}));
+
+	const attachments: ReportAttachment[] = (
+		lastFailedResult.attachments || []
+	).flatMap((attachment) =>
+		attachment.path
+			? [
+					{
+						name: attachment.name || "attachment",
+						contentType: attachment.contentType || "",
+						path: attachment.path,
+					},
+				]
+			: [],
+	);
+
+	// Annotations declared on the test, then those added while it ran
+	const annotations: TestAnnotation[] = [];
+	for (const annotation of [
+		...(test.annotations || []),
+		...(lastFailedResult.annotations || []),
+	]) {
+		if (
+			annotation.type &&
+			!annotations.some(
+				(a) =>
+					a.type === annotation.type &&
+					a.description === annotation.description,
+			)
+		) {
+			annotations.push({
+				type: annotation.type,
+				description: annotation.description,
+			});
+		}
+	}
+
+	return {
+		...failure,
+		attempts,
+		outcome: getTestOutcome(attempts),
+		attachments: attachments.length > 0 ? attachments : undefined,
+		projectName: test.projectName,
+		projectId: test.projectId,
+		tags: spec.tags && spec.tags.length > 0 ? spec.tags : undefined,
+		annotations: annotations.length > 0 ? annotations : undefined,
+	};
+}
+
+/**
+ * Check if a test result is a failed attempt
+ */
+function isFailedResult(result: PlaywrightTestResult): boolean {
+	return result.status === "failed" || result.status === "timedOut";
+}
+
+/**
+ * Classify a test by its attempts
+ */
+function getTestOutcome(attempts: TestAttempt[]): TestOutcome {
+	if (attempts.some((attempt) => attempt.status === "passed")) {
+		return "flaky";
+	}
+	return attempts.length > 1 ? "failed-consistently" : "failed";
 }
 
 /**
@@ -125,19 +548,28 @@ function extractFailureFacts(
 	test: PlaywrightTest,
 	result: PlaywrightTestResult,
 ): TestFailureFacts | null {
-	if (!result.error && !result.steps?.some((s) => s.error)) {
+	if (
+		!result.error &&
+		!result.errors?.length &&
+		!result.steps?.some((s) => s.error)
+	) {
 		return null;
 	}
 
 	// Find the failing step
 	const failingStep = findFailingStep(result.steps || []);
 	const error = result.error ||
+		result.errors?.[0] ||
 		failingStep?.error || { message: "Unknown error" };
-	const errorMessage = error.message || "Unknown error";
-	const errorStack = error.stack || errorMessage;
+	const errorMessage = stripAnsi(error.message || "Unknown error");
+	const errorStack = error.stack ? stripAnsi(error.stack) : errorMessage;
 
-	// Extract file location from stack trace
-	const location = extractFileLocation(errorStack);
+	// Use the reported error location, or extract it from the stack trace
+	const location = extractFileLocation(
+		errorStack,
+		error.location || result.errorLocation,
+	);
+	const snippet = error.snippet ? parseErrorSnippet(error.snippet) : null;
 
 	// Extract stack trace lines
 	const stackTrace = extractStackTrace(errorStack);
@@ -147,45 +579,17 @@ function extractFailureFacts(
 
 	// Determine the failed step name
 	// If no step info, try to extract from error message
-	let failedStepName = failingStep?.title;
-
-	if (!failedStepName) {
-		// Try to extract a meaningful step name from error message
-		// Look for common patterns like "Locator: getByRole(...)" or action names
-		const locatorMatch = errorMessage.match(/Locator:\s*(.+?)(?:\n|$)/i);
-		if (locatorMatch) {
-			// Extract the locator call (e.g., "getByRole('heading', { name: '...' })")
-			const locatorText = locatorMatch[1].trim();
-			// Try to extract just the method name and first argument for brevity
-			const methodMatch = locatorText.match(/^(\w+)\(['"]([^'"]+)['"]/);
-			if (methodMatch) {
-				failedStepName = `${methodMatch[1]}('${methodMatch[2]}')`;
-			} else {
-				// Fallback to first 60 chars of locator
-				failedStepName =
-					locatorText.substring(0, 60) + (locatorText.length > 60 ? "..." : "");
-			}
-		} else {
-			// Try to find action names in error (click, fill, expect, etc.)
-			const actionMatch = errorMessage.match(
-				/\b(click|fill|type|press|expect|waitFor|getBy\w+)\s*\(/i,
-			);
-			if (actionMatch) {
-				// Try to get the full call with selector
-				const fullCallMatch = errorMessage.match(
-					new RegExp(`\\b${actionMatch[1]}\\s*\\([^)]+\\)`, "i"),
-				);
-				if (fullCallMatch) {
-					failedStepName = fullCallMatch[0].substring(0, 80);
-				} else {
-					failedStepName = actionMatch[1] + "(...)";
-				}
-			} else {
-				// Last resort: use a generic but more descriptive name
-				failedStepName = "Element interaction failed";
-			}
-		}
-	}
+	// (with several errors, the step that raised the first one)
+	const failedStepName =
+		findStepWithError(result.steps || [], error.message)?.title ||
+		failingStep?.title ||
+		getFailedStepNameFromError(errorMessage);
+
+	// Hooks and fixtures show in the path of the step that raised the error
+	const { scope, scopeName } = getFailureScope(
+		errorMessage,
+		findErrorStepPath(result.steps || [], error.message),
+	);
 
 	// In Playwright reports, the test name is typically on the spec, not the test object
 	// Fallback to test.title if spec.title is not available
@@ -200,7 +604,236 @@ function extractFailureFacts(
 		lineNumber: (location.line || spec.line || test.line) ?? undefined,
 		columnNumber: (location.column || spec.column || test.column) ?? undefined,
 		stackTrace: stackTrace.length > 0 ? stackTrace : undefined,
+		snippet: snippet ?? undefined,
+		stdout: readOutput(result.stdout),
+		stderr: readOutput(result.stderr),
+		consoleLogs: readOutput(
+			(result.attachments || [])
+				.filter(
+					(attachment) => attachment.body && isConsoleLogAttachment(attachment),
+				)
+				.map((attachment) => ({ buffer: attachment.body })),
+		),
+		errors:
+			result.errors && result.errors.length > 1
+				? result.errors.map((e) => toTestError(e, result.steps || []))
+				: undefined,
+		scope,
+		scopeName,
+	};
+}
+
+/**
+ * Split output chunks into lines
+ *
+ * Output is bounded: the first and last lines are kept (setup logs, and the
+ * logs closest to the failure), and long lines are truncated. Lines are
+ * read from each end only until the limit is reached; the middle of a long
+ * log is skipped, not joined and trimmed.
+ */
+export function readOutput(
+	chunks: PlaywrightOutput[] | undefined,
+): string[] | undefined {
+	const head = readOutputLines(chunks || [], MAX_OUTPUT_LINES + 1, false);
+	if (head.length <= MAX_OUTPUT_LINES) {
+		return head.length > 0 ? head : undefined;
+	}
+
+	const half = MAX_OUTPUT_LINES / 2;
+	return [
+		...head.slice(0, half),
+		"... (lines omitted)",
+		...readOutputLines(chunks || [], half, true),
+	];
+}
+
+/**
+ * Read up to `limit` non-empty lines from the start or the end of the output
+ *
+ * @returns Lines in output order
+ */
+function readOutputLines(
+	chunks: PlaywrightOutput[],
+	limit: number,
+	fromEnd: boolean,
+): string[] {
+	const lines: string[] = [];
+	const addLine = (rawLine: string) => {
+		const line = stripAnsi(rawLine).trimEnd();
+		if (line.length > 0 && lines.length < limit) {
+			lines.push(
+				line.length > MAX_OUTPUT_LINE_LENGTH
+					? `${line.substring(0, MAX_OUTPUT_LINE_LENGTH)}...`
+					: line,
+			);
+		}
+	};
+
+	// Text of a line that continues in the next chunk read
+	let partial = "";
+	for (const chunk of fromEnd ? [...chunks].reverse() : chunks) {
+		const text =
+			chunk.text ?? Buffer.from(chunk.buffer || "", "base64").toString("utf-8");
+		const content = fromEnd ? text + partial : partial + text;
+
+		if (fromEnd) {
+			let end = content.length;
+			let newline = content.lastIndexOf("\n", end - 1);
+			while (end > 0 && newline !== -1) {
+				addLine(content.slice(newline + 1, end));
+				if (lines.length >= limit) return lines.reverse();
+				end = newline;
+				newline = content.lastIndexOf("\n", end - 1);
+			}
+			partial = content.slice(0, end);
+		} else {
+			let start = 0;
+			let newline = content.indexOf("\n", start);
+			while (newline !== -1) {
+				addLine(content.slice(start, newline));
+				if (lines.length >= limit) return lines;
+				start = newline + 1;
+				newline = content.indexOf("\n", start);
+			}
+			partial = content.slice(start);
+		}
+	}
+	addLine(partial);
+
+	return fromEnd ? lines.reverse() : lines;
+}
+
+/**
+ * Check if an attachment is a console log, attached inline (e.g. with
+ * testInfo.attach("console", { body, contentType: "text/plain" })) or as a
+ * file (resolved from the uploaded bundle, see resolveConsoleLogs)
+ */
+export function isConsoleLogAttachment(attachment: {
+	name?: string;
+	contentType?: string;
+}): boolean {
+	return (
+		/console|log/i.test(attachment.name || "") &&
+		/^(text\/|application\/json)/.test(attachment.contentType || "text/plain")
+	);
+}
+
+/**
+ * Convert a reported error to a test error with its own location and step
+ */
+function toTestError(
+	error: PlaywrightError,
+	steps: PlaywrightStep[],
+): TestError {
+	const message = stripAnsi(error.message || "Unknown error");
+	const location = extractFileLocation(
+		error.stack ? stripAnsi(error.stack) : message,
+		error.location,
+	);
+	const snippet = error.snippet ? parseErrorSnippet(error.snippet) : null;
+
+	return {
+		message,
+		failedStep:
+			findStepWithError(steps, error.message)?.title ||
+			getFailedStepNameFromError(message),
+		file: location.file,
+		lineNumber: location.line,
+		columnNumber: location.column,
+		snippet: snippet ?? undefined,
+	};
+}
+
+/**
+ * Build a step name from an error message when the report has no step info
+ *
+ * Looks for common patterns like "Locator: getByRole(...)" or action names
+ */
+function getFailedStepNameFromError(errorMessage: string): string {
+	const locatorMatch = errorMessage.match(/Locator:\s*(.+?)(?:\n|$)/i);
+	if (locatorMatch) {
+		// Extract the locator call (e.g., "getByRole('heading', { name: '...' })")
+		const locatorText = locatorMatch[1].trim();
+		// Try to extract just the method name and first argument for brevity
+		const methodMatch = locatorText.match(/^(\w+)\(['"]([^'"]+)['"]/);
+		if (methodMatch) {
+			return `${methodMatch[1]}('${methodMatch[2]}')`;
+		}
+		// Fallback to first 60 chars of locator
+		return (
+			locatorText.substring(0, 60) + (locatorText.length > 60 ? "..." : "")
+		);
+	}
+
+	// Try to find action names in error (click, fill, expect, etc.)
+	const actionMatch = errorMessage.match(
+		/\b(click|fill|type|press|expect|waitFor|getBy\w+)\s*\(/i,
+	);
+	if (actionMatch) {
+		// Try to get the full call with selector
+		const fullCallMatch = errorMessage.match(
+			new RegExp(`\\b${actionMatch[1]}\\s*\\([^)]+\\)`, "i"),
+		);
+		if (fullCallMatch) {
+			return fullCallMatch[0].substring(0, 80);
+		}
+		return actionMatch[1] + "(...)";
+	}
+
+	// Last resort: use a generic but more descriptive name
+	return "Element interaction failed";
+}
+
+/**
+ * Recursively find the step that raised a given error
+ */
+function findStepWithError(
+	steps: PlaywrightStep[],
+	message: string | undefined,
+): PlaywrightStep | null {
+	for (const step of steps) {
+		if (step.error && step.error.message === message) {
+			return step;
+		}
+		const nested = findStepWithError(step.steps || [], message);
+		if (nested) {
+			return nested;
+		}
+	}
+	return null;
+}
+
+/**
+ * Titles of the innermost step that raised an error and of its parents,
+ * outermost first; steps that raised the given error are preferred
+ */
+function findErrorStepPath(
+	steps: PlaywrightStep[],
+	message: string | undefined,
+): string[] {
+	const findPath = (
+		children: PlaywrightStep[],
+		matches: (step: PlaywrightStep) => boolean,
+	): string[] => {
+		for (const step of children) {
+			const nested = findPath(step.steps || [], matches);
+			if (nested.length > 0) {
+				return [step.title || "", ...nested];
+			}
+			if (matches(step)) {
+				return [step.title || ""];
+			}
+		}
+		return [];
 	};
+
+	const withMessage = findPath(
+		steps,
+		(step) => !!step.error && step.error.message === message,
+	);
+	return withMessage.length > 0
+		? withMessage
+		: findPath(steps, (step) => !!step.error);
 }
 
 /**
@@ -257,7 +890,7 @@ export function extractFailedSteps(result: PlaywrightTestResult): Array<{
 					action: actionMatch?.[1],
 					selector: selectorMatch?.[1],
 					duration: step.duration,
-					error: step.error.message || "Unknown error",
+					error: stripAnsi(step.error.message || "Unknown error"),
 				});
 			}
 
@@ -2,12 +2,29 @@
  * Read and parse Playwright trace.zip files
  *
  * Playwright traces are ZIP files containing:
- * - trace.trace - Main trace file (JSONL format - newline-delimited JSON)
- * - resources/ - Network resources (HTML, JS, CSS, images, etc.)
- * - snapshots/ - DOM snapshots at various points in time
+ * - trace.trace / N-trace.trace - Context trace files, one per browser context
+ *   (JSONL format - newline-delimited JSON)
+ * - N-trace.network - Network traffic as HAR-style `resource-snapshot` entries
+ * - test.trace - Test-runner steps (hooks, fixtures, test.step, expect), see testSteps.ts
+ * - resources/ - Network resources (HTML, JS, CSS, images, etc.), named by sha1
+ * - snapshots/ - DOM snapshots at various points in time (older traces;
+ *   newer ones record `frame-snapshot` events, see renderSnapshot.ts)
+ *
+ * Modern traces (format version 6+) describe each API call as a sequence of
+ * `before` / `input` / `log` / `after` events linked by `callId`. These are
+ * paired into a single ActionEvent per call. Legacy `action` events are still
+ * accepted as-is.
  */
 
-import AdmZip from "adm-zip";
+import {
+	indexFrameSnapshot,
+	renderSnapshotHtml,
+	type FrameSnapshot,
+} from "./renderSnapshot";
+import { linkActionsToSteps, parseTestRunnerTrace } from "./testSteps";
+import { buildPages } from "./tracePages";
+import { openTraceArchive, type TraceArchive } from "./traceArchive";
+import { stripAnsi } from "./stripAnsi";
 
 /**
  * Action event from Playwright trace
@@ -15,6 +32,22 @@ import AdmZip from "adm-zip";
 export interface ActionEvent {
 	type: string;
 	timestamp: number;
+	callId?: string;
+	apiName?: string; // e.g. "locator.click", "expect.toBeVisible", "page.goto"
+	startTime?: number;
+	endTime?: number;
+	pageId?: string;
+	stepId?: string; // Runner step that issued the call (see TestStep)
+	location?: SourceLocation; // Test source line, from the runner step
+	params?: Record<string, unknown>;
+	result?: Record<string, unknown>;
+	log?: string[]; // Call log lines, in order
+	snapshots?: {
+		before?: string;
+		input?: string;
+		after?: string;
+	};
+	point?: { x: number; y: number };
 	action?: {
 		name: string;
 		selector?: string;
@@ -23,6 +56,7 @@ export interface ActionEvent {
 		options?: Record<string, unknown>;
 	};
 	error?: {
+		name?: string;
 		message: string;
 		stack?: string;
 	};
@@ -39,8 +73,31 @@ export interface NetworkEvent {
 	method?: string;
 	status?: number;
 	statusText?: string;
-	headers?: Record<string, string>;
+	headers?: Record<string, string>; // Response headers (request headers for "request" events)
+	requestHeaders?: Record<string, string>;
 	error?: string;
+	redirectURL?: string; // Target of a 3xx response
+	redirectChain?: string[]; // URLs that redirected to this one, oldest first
+	timings?: NetworkTimings;
+	duration?: number; // Total time in milliseconds
+	mimeType?: string;
+	bodySha1?: string; // Response body file name under resources/
+	bodySize?: number;
+	pageId?: string;
+	frameId?: string;
+}
+
+/**
+ * HAR timing breakdown for a network request (milliseconds, -1 if not applicable)
+ */
+export interface NetworkTimings {
+	blocked?: number;
+	dns?: number;
+	connect?: number;
+	ssl?: number;
+	send?: number;
+	wait?: number;
+	receive?: number;
 }
 
 /**
@@ -55,6 +112,7 @@ export interface ConsoleEvent {
 		lineNumber?: number;
 		columnNumber?: number;
 	};
+	pageId?: string;
 }
 
 /**
@@ -65,11 +123,89 @@ export interface SnapshotEntry {
 	timestamp: number;
 	url: string;
 	title?: string;
-	html?: string;
 	viewport?: {
 		width: number;
 		height: number;
 	};
+	callId?: string; // Call the snapshot was taken for
+	phase?: "before" | "action" | "after";
+	pageId?: string;
+	frameId?: string;
+	isMainFrame?: boolean;
+	frameSnapshotIndex?: number; // Position among its frame's snapshots (see loadSnapshotHtml)
+	htmlFile?: string; // Archive entry of an HTML snapshot (older traces)
+}
+
+/**
+ * Location in test source code
+ */
+export interface SourceLocation {
+	file: string;
+	line: number;
+	column: number;
+}
+
+/**
+ * Test-runner step from test.trace (hook, fixture, test.step, expect, API call)
+ */
+export interface TestStep {
+	stepId: string;
+	parentId?: string;
+	category: string; // "hook", "fixture", "test.step", "expect", "pw:api", ...
+	title: string;
+	startTime: number;
+	endTime?: number;
+	location?: SourceLocation;
+	error?: {
+		name?: string;
+		message: string;
+	};
+	children: TestStep[];
+	actions: ActionEvent[]; // Browser calls issued by this step
+}
+
+/**
+ * Browser context recorded in the trace (one per N-trace.trace file)
+ */
+export interface BrowserContextInfo {
+	contextId: string;
+	browser?: string;
+	viewport?: { width: number; height: number };
+	startTime?: number;
+	pageIds: string[];
+}
+
+/**
+ * Page (tab or popup) recorded in the trace
+ */
+export interface PageInfo {
+	pageId: string;
+	contextId: string;
+	openerPageId?: string; // Page whose action opened this one (popups)
+	createdAt?: number;
+	closedAt?: number;
+	urls: Array<{ url: string; timestamp: number }>; // Main frame URL history
+	frames: FrameInfo[];
+}
+
+/**
+ * Frame within a page
+ */
+export interface FrameInfo {
+	frameId: string;
+	isMainFrame: boolean;
+	url?: string; // Last known URL
+}
+
+/**
+ * Screencast frame from Playwright trace (image stored under resources/)
+ */
+export interface ScreencastFrame {
+	pageId: string;
+	sha1: string; // Image file name under resources/
+	timestamp: number;
+	width: number;
+	height: number;
 }
 
 /**
@@ -78,8 +214,7 @@ export interface SnapshotEntry {
 export interface ResourceEntry {
 	url: string;
 	contentType?: string;
-	content?: Buffer | string;
-	size?: number;
+	size?: number; // Uncompressed size; content is read with loadResource
 }
 
 /**
@@ -90,15 +225,54 @@ export interface TraceData {
 	network: NetworkEvent[];
 	console: ConsoleEvent[];
 	snapshots: SnapshotEntry[];
+	frameSnapshots: Map<string, FrameSnapshot[]>; // Raw DOM snapshots by frame id, rendered with loadSnapshotHtml
+	screencastFrames: ScreencastFrame[];
+	steps: TestStep[]; // Root test-runner steps, ordered by start time
+	contexts: BrowserContextInfo[];
+	pages: PageInfo[];
 	resources: ResourceEntry[];
+	archive?: TraceArchive; // Source archive, for loading resources on demand
 	metadata?: {
 		startTime?: number;
 		endTime?: number;
-		browser?: string;
+		browser?: string; // Of the first context (see contexts)
 		viewport?: { width: number; height: number };
 	};
 }
 
+/**
+ * Raw before/after event for an API call, as written to the trace file
+ */
+interface RawCallEvent {
+	type: string;
+	callId: string;
+	apiName?: string;
+	class?: string;
+	method?: string;
+	title?: string;
+	params?: Record<string, unknown>;
+	timestamp?: number;
+	startTime?: number;
+	endTime?: number;
+	pageId?: string;
+	stepId?: string;
+	beforeSnapshot?: string;
+	afterSnapshot?: string;
+	point?: { x: number; y: number };
+	result?: {
+		log?: unknown;
+		errorMessage?: unknown;
+		[key: string]: unknown;
+	};
+	error?: {
+		name?: string;
+		message?: string;
+		stack?: string;
+		// Older traces nest the serialized error one level deeper
+		error?: { name?: string; message?: string; stack?: string };
+	};
+}
+
 /**
  * Read Playwright trace.zip file and extract structured data
  *
@@ -113,102 +287,221 @@ export async function readTraceZip(
 			? Buffer.from(await traceZip.arrayBuffer())
 			: traceZip;
 
-	let zip = new AdmZip(zipBuffer);
-	let entries = zip.getEntries();
+	// Only the zip directory is read here; entries are inflated on demand
+	let archive = openTraceArchive(zipBuffer);
 
 	// Check if this zip contains another zip file (nested trace structure)
 	// Playwright sometimes creates nested zips
-	const nestedZipEntry = entries.find(
-		(entry) =>
-			!entry.isDirectory &&
-			(entry.entryName.toLowerCase().endsWith(".zip") ||
-				entry.entryName.toLowerCase().includes("trace")),
+	const nestedZipName = archive.entryNames.find(
+		(name) =>
+			name.toLowerCase().endsWith(".zip") ||
+			name.toLowerCase().includes("trace"),
 	);
 
 	// If we find a nested zip that looks like a trace, extract it
-	if (
-		nestedZipEntry &&
-		nestedZipEntry.entryName.toLowerCase().endsWith(".zip")
-	) {
+	if (nestedZipName?.toLowerCase().endsWith(".zip")) {
 		try {
-			const nestedZipData = nestedZipEntry.getData();
-			zip = new AdmZip(nestedZipData);
-			entries = zip.getEntries();
+			const nestedZipData = archive.readEntry(nestedZipName);
+			if (nestedZipData) {
+				archive = openTraceArchive(nestedZipData);
+			}
 		} catch {
 			// If nested zip extraction fails, continue with original zip
 		}
 	}
+	const entryNames = archive.entryNames;
 
 	const traceData: TraceData = {
 		actions: [],
 		network: [],
 		console: [],
 		snapshots: [],
+		frameSnapshots: new Map(),
+		screencastFrames: [],
+		steps: [],
+		contexts: [],
+		pages: [],
 		resources: [],
+		archive,
 	};
 
-	// Find and parse the main trace file (trace.trace)
-	// Look in various possible locations
-	let traceEntry = entries.find(
-		(entry) =>
-			entry.entryName === "trace.trace" ||
-			entry.entryName.endsWith("/trace.trace") ||
-			entry.entryName.endsWith("\\trace.trace"),
-	);
-
-	// If not found, look for any .trace file
-	if (!traceEntry) {
-		traceEntry = entries.find(
-			(entry) => entry.entryName.endsWith(".trace") && !entry.isDirectory,
+	// Find the context trace files (trace.trace, or N-trace.trace with one
+	// file per browser context). test.trace holds test-runner steps and is
+	// parsed separately.
+	let traceNames = entryNames
+		.filter((name) => name.endsWith(".trace") && !isTestRunnerTrace(name))
+		.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+	// If not found, look for trace files in subdirectories
+	if (traceNames.length === 0) {
+		const fallbackName = entryNames.find(
+			(name) =>
+				!isTestRunnerTrace(name) &&
+				(name.includes("trace") || name.includes("Trace")),
 		);
+		traceNames = fallbackName ? [fallbackName] : [];
 	}
 
-	// If still not found, look for trace files in subdirectories
-	if (!traceEntry) {
-		traceEntry = entries.find(
-			(entry) =>
-				!entry.isDirectory &&
-				(entry.entryName.includes("trace") ||
-					entry.entryName.includes("Trace")),
-		);
-	}
+	const testTraceName = entryNames.find((name) => isTestRunnerTrace(name));
 
-	if (!traceEntry) {
+	if (traceNames.length === 0 && !testTraceName) {
 		// Log available entries for debugging
-		const entryNames = entries
-			.filter((e) => !e.isDirectory)
-			.map((e) => e.entryName)
-			.slice(0, 20);
-		console.warn("Available entries in trace.zip:", entryNames);
+		const firstEntries = entryNames.slice(0, 20);
+		console.warn("Available entries in trace.zip:", firstEntries);
 		throw new Error(
-			`trace.trace file not found in trace.zip. Found ${entries.length} entries (${entries.filter((e) => !e.isDirectory).length} files). First few: ${entryNames.join(", ")}`,
+			`trace.trace file not found in trace.zip. Found ${entryNames.length} files. First few: ${firstEntries.join(", ")}`,
 		);
 	}
 
-	// Parse JSONL format (newline-delimited JSON)
-	const traceContent = traceEntry.getData().toString("utf-8");
-	const traceLines = traceContent.split("\n").filter((line) => line.trim());
-
 	let startTime: number | undefined;
 	let endTime: number | undefined;
 
-	for (const line of traceLines) {
+	// Parse each context trace (JSONL format - newline-delimited JSON),
+	// streamed line by line. Archives with only test.trace (no browser was
+	// used) have runner steps but no actions.
+	for (const [index, traceName] of traceNames.entries()) {
+		await parseContextTrace(
+			archive.readLines(traceName),
+			`context@${index}`,
+			traceData,
+		);
+	}
+
+	traceData.screencastFrames.sort((a, b) => a.timestamp - b.timestamp);
+
+	// Extract network traffic from the separate .network files
+	const networkNames = entryNames.filter((name) => name.endsWith(".network"));
+	for (const networkName of networkNames) {
+		for await (const line of archive.readLines(networkName)) {
+			try {
+				const event = JSON.parse(line);
+				if (event.type === "resource-snapshot" && event.snapshot) {
+					traceData.network.push(parseResourceSnapshot(event.snapshot));
+				}
+			} catch (error) {
+				console.warn("Failed to parse network line:", error);
+			}
+		}
+	}
+
+	traceData.network.sort((a, b) => a.timestamp - b.timestamp);
+	linkRedirectChains(traceData.network);
+
+	// Index snapshot HTML files (content is loaded on demand, see
+	// loadSnapshotHtml)
+	for (const name of entryNames) {
+		if (name.startsWith("snapshots/") && name.endsWith(".html")) {
+			const snapshotId = name.replace("snapshots/", "").replace(".html", "");
+
+			const snapshot = traceData.snapshots.find(
+				(s) => s.snapshotId === snapshotId,
+			);
+			if (snapshot) {
+				snapshot.htmlFile = name;
+			} else {
+				// Create new snapshot entry if not found in trace
+				traceData.snapshots.push({
+					snapshotId,
+					timestamp: Date.now(),
+					url: "",
+					htmlFile: name,
+				});
+			}
+		}
+	}
+
+	// Index resources (content is loaded on demand, see loadResource)
+	for (const name of entryNames) {
+		if (name.startsWith("resources/")) {
+			traceData.resources.push({
+				url: name.replace("resources/", ""),
+				size: archive.getEntrySize(name),
+			});
+		}
+	}
+
+	traceData.pages = buildPages(traceData);
+
+	// Merge test-runner steps and tie each browser call to the step that issued it
+	if (testTraceName) {
+		const testTraceLines: string[] = [];
+		for await (const line of archive.readLines(testTraceName)) {
+			testTraceLines.push(line);
+		}
+		traceData.steps = parseTestRunnerTrace(testTraceLines);
+		linkActionsToSteps(traceData.steps, traceData.actions);
+	}
+
+	// Compute trace time range from actions (start of first, end of last)
+	for (const action of traceData.actions) {
+		const actionStart = action.startTime ?? action.timestamp;
+		const actionEnd = action.endTime ?? action.timestamp;
+		if (startTime === undefined || actionStart < startTime) {
+			startTime = actionStart;
+		}
+		if (endTime === undefined || actionEnd > endTime) {
+			endTime = actionEnd;
+		}
+	}
+
+	// Set metadata
+	traceData.metadata = {
+		...traceData.metadata,
+		startTime,
+		endTime,
+	};
+
+	return traceData;
+}
+
+/**
+ * Parse one context trace file into traceData
+ *
+ * @param traceLines - JSONL lines of the trace file, streamed
+ * @param contextId - Id assigned to the browser context of this file
+ * @param traceData - Trace data to add events to
+ */
+async function parseContextTrace(
+	traceLines: AsyncIterable<string>,
+	contextId: string,
+	traceData: TraceData,
+): Promise<void> {
+	const context: BrowserContextInfo = { contextId, pageIds: [] };
+	const pageIds = new Set<string>();
+
+	// Calls that have a `before` event, keyed by callId, so that later
+	// input/log/after events can be attached to them
+	const calls = new Map<string, ActionEvent>();
+
+	for await (const line of traceLines) {
 		try {
 			const event = JSON.parse(line);
 
+			// Track the pages of this context
+			if (typeof event.pageId === "string") {
+				pageIds.add(event.pageId);
+			}
+
 			// Extract metadata
 			if (event.type === "context-options" || event.type === "browser") {
-				if (event.viewport) {
+				const viewport = event.viewport || event.options?.viewport;
+				const browser = event.browserName || event.name || event.browser;
+				context.browser = browser || context.browser;
+				context.viewport = viewport || context.viewport;
+				context.startTime = event.monotonicTime ?? context.startTime;
+
+				// Trace-wide metadata describes the first context
+				if (viewport && !traceData.metadata?.viewport) {
 					traceData.metadata = {
 						...traceData.metadata,
-						viewport: event.viewport,
-						browser: event.name || event.browser,
+						viewport,
+						browser,
 					};
 				}
 			}
 
-			// Extract action events
-			if (event.type === "action" || event.type === "event") {
+			// Extract action events (legacy format)
+			if (event.type === "action") {
 				const actionEvent: ActionEvent = {
 					type: event.type,
 					timestamp: event.timestamp || Date.now(),
@@ -217,16 +510,69 @@ export async function readTraceZip(
 					metadata: event.metadata,
 				};
 				traceData.actions.push(actionEvent);
+			}
+
+			// Extract API calls (modern format: before/input/log/after by callId)
+			if (event.type === "before") {
+				const actionEvent = createActionFromBefore(event);
+				calls.set(event.callId, actionEvent);
+				traceData.actions.push(actionEvent);
+			}
+
+			if (event.type === "input") {
+				const actionEvent = calls.get(event.callId);
+				if (actionEvent) {
+					actionEvent.snapshots = {
+						...actionEvent.snapshots,
+						input: event.inputSnapshot,
+					};
+					if (event.point) {
+						actionEvent.point = event.point;
+					}
+				}
+			}
 
-				if (!startTime || actionEvent.timestamp < startTime) {
-					startTime = actionEvent.timestamp;
+			if (event.type === "log") {
+				const actionEvent = calls.get(event.callId);
+				if (actionEvent && typeof event.message === "string") {
+					actionEvent.log = [...(actionEvent.log || []), event.message];
 				}
-				if (!endTime || actionEvent.timestamp > endTime) {
-					endTime = actionEvent.timestamp;
+			}
+
+			if (event.type === "after") {
+				const actionEvent = calls.get(event.callId);
+				if (actionEvent) {
+					applyAfterEvent(actionEvent, event);
 				}
 			}
 
-			// Extract network events
+			// Extract page/context events (e.g. page created, load, dialog)
+			if (event.type === "event") {
+				if (event.class === "BrowserContext" && event.method === "page") {
+					pageIds.add(event.params?.pageId);
+				}
+
+				const actionEvent: ActionEvent = {
+					type: event.type,
+					timestamp: event.time ?? event.timestamp ?? Date.now(),
+					pageId: event.pageId,
+					action:
+						event.action ?? (event.method ? { name: event.method } : undefined),
+					error: event.error,
+					metadata: event.metadata ?? {
+						class: event.class,
+						name: event.method,
+						params: event.params,
+					},
+				};
+				traceData.actions.push(actionEvent);
+			}
+
+			// Extract network events (older traces inline HAR entries here)
+			if (event.type === "resource-snapshot" && event.snapshot) {
+				traceData.network.push(parseResourceSnapshot(event.snapshot));
+			}
+
 			if (
 				event.type === "resource" ||
 				event.type === "request" ||
@@ -249,14 +595,33 @@ export async function readTraceZip(
 			// Extract console events
 			if (event.type === "console") {
 				const consoleEvent: ConsoleEvent = {
-					timestamp: event.timestamp || Date.now(),
-					type: event.level || "log",
+					timestamp: event.time ?? event.timestamp ?? Date.now(),
+					type: event.messageType || event.level || "log",
 					text: event.text || event.message || "",
 					location: event.location,
+					pageId: event.pageId,
 				};
 				traceData.console.push(consoleEvent);
 			}
 
+			// Extract screencast frames (filmstrip)
+			if (event.type === "screencast-frame" && event.sha1) {
+				traceData.screencastFrames.push({
+					pageId: event.pageId || "",
+					sha1: event.sha1,
+					timestamp: event.timestamp,
+					width: event.width,
+					height: event.height,
+				});
+			}
+
+			// Index DOM snapshots (rendered to HTML on demand)
+			if (event.type === "frame-snapshot" && event.snapshot) {
+				traceData.snapshots.push(
+					indexFrameSnapshot(event.snapshot, traceData.frameSnapshots),
+				);
+			}
+
 			// Extract snapshot metadata
 			if (event.type === "snapshot" || event.snapshotId) {
 				const snapshotEntry: SnapshotEntry = {
@@ -274,53 +639,277 @@ export async function readTraceZip(
 		}
 	}
 
-	// Extract snapshot HTML files
-	for (const entry of entries) {
-		if (
-			entry.entryName.startsWith("snapshots/") &&
-			entry.entryName.endsWith(".html")
-		) {
-			const snapshotId = entry.entryName
-				.replace("snapshots/", "")
-				.replace(".html", "");
+	context.pageIds = [...pageIds].filter(Boolean);
+	traceData.contexts.push(context);
+}
 
-			const snapshot = traceData.snapshots.find(
-				(s) => s.snapshotId === snapshotId,
-			);
-			if (snapshot) {
-				snapshot.html = entry.getData().toString("utf-8");
-			} else {
-				// Create new snapshot entry if not found in trace
-				traceData.snapshots.push({
-					snapshotId,
-					timestamp: Date.now(),
-					url: "",
-					html: entry.getData().toString("utf-8"),
-				});
-			}
+/**
+ * Check if a trace entry is the test-runner trace (test.trace)
+ */
+function isTestRunnerTrace(entryName: string): boolean {
+	const fileName = entryName.split(/[\\/]/).pop() || entryName;
+	return fileName === "test.trace";
+}
+
+/**
+ * Create an ActionEvent from a `before` trace event
+ */
+function createActionFromBefore(event: RawCallEvent): ActionEvent {
+	const params: Record<string, unknown> = event.params || {};
+	const timestamp = event.startTime ?? event.timestamp ?? Date.now();
+
+	return {
+		type: "action",
+		timestamp,
+		callId: event.callId,
+		apiName: resolveApiName(event),
+		startTime: timestamp,
+		pageId: event.pageId,
+		stepId: event.stepId,
+		params,
+		log: [],
+		snapshots: event.beforeSnapshot
+			? { before: event.beforeSnapshot }
+			: undefined,
+		action: {
+			name: event.method || event.apiName || "unknown",
+			selector:
+				typeof params.selector === "string" ? params.selector : undefined,
+			url: typeof params.url === "string" ? params.url : undefined,
+			value: typeof params.value === "string" ? params.value : undefined,
+			options: params,
+		},
+		metadata: {
+			class: event.class,
+			title: event.title,
+		},
+	};
+}
+
+/**
+ * Apply an `after` trace event (end time, result, error) to its ActionEvent
+ */
+function applyAfterEvent(actionEvent: ActionEvent, event: RawCallEvent): void {
+	actionEvent.endTime = event.endTime ?? actionEvent.timestamp;
+
+	if (event.result) {
+		actionEvent.result = event.result;
+	}
+
+	if (event.point) {
+		actionEvent.point = event.point;
+	}
+
+	if (event.afterSnapshot) {
+		actionEvent.snapshots = {
+			...actionEvent.snapshots,
+			after: event.afterSnapshot,
+		};
+	}
+
+	// Expect calls report their own call log in the result when no log events
+	// were recorded for the call
+	const resultLog = event.result?.log;
+	if (
+		Array.isArray(resultLog) &&
+		(!actionEvent.log || actionEvent.log.length === 0)
+	) {
+		actionEvent.log = resultLog.map((line) =>
+			String(line).replace(/^\s*-\s*/, ""),
+		);
+	}
+
+	if (event.error) {
+		// The error on the event is often generic ("Expect failed"), the actual
+		// reason is in result.errorMessage
+		const detail =
+			typeof event.result?.errorMessage === "string"
+				? event.result.errorMessage
+				: undefined;
+		const message =
+			event.error.error?.message || event.error.message || "Unknown error";
+
+		const stack = event.error.error?.stack || event.error.stack;
+		actionEvent.error = {
+			name: event.error.error?.name || event.error.name,
+			message: stripAnsi(
+				detail && detail !== message ? `${message}: ${detail}` : message,
+			),
+			stack: stack ? stripAnsi(stack) : undefined,
+		};
+	}
+}
+
+/**
+ * Raw HAR entry from a `resource-snapshot` trace event
+ */
+interface RawResourceSnapshot {
+	pageref?: string;
+	startedDateTime?: string;
+	time?: number;
+	request?: {
+		method?: string;
+		url?: string;
+		headers?: Array<{ name: string; value: string }>;
+	};
+	response?: {
+		status?: number;
+		statusText?: string;
+		headers?: Array<{ name: string; value: string }>;
+		content?: { size?: number; mimeType?: string; _sha1?: string };
+		redirectURL?: string;
+		_failureText?: string;
+	};
+	timings?: NetworkTimings;
+	_frameref?: string;
+	_monotonicTime?: number;
+}
+
+/**
+ * Convert a HAR entry from a `resource-snapshot` event into a NetworkEvent
+ */
+function parseResourceSnapshot(snapshot: RawResourceSnapshot): NetworkEvent {
+	const response = snapshot.response;
+	const failureText = response?._failureText;
+	// Playwright records requests that never got a response with status -1
+	const failed = !!failureText || !response || (response.status ?? -1) < 0;
+
+	return {
+		timestamp:
+			snapshot._monotonicTime ??
+			(snapshot.startedDateTime
+				? Date.parse(snapshot.startedDateTime)
+				: Date.now()),
+		type: failed ? "requestFailed" : "response",
+		url: snapshot.request?.url || "",
+		method: snapshot.request?.method,
+		status: failed ? undefined : response?.status,
+		statusText: response?.statusText || undefined,
+		headers: harHeadersToRecord(response?.headers),
+		requestHeaders: harHeadersToRecord(snapshot.request?.headers),
+		error: failed ? failureText || "Request failed" : undefined,
+		redirectURL: response?.redirectURL || undefined,
+		timings: snapshot.timings,
+		duration: snapshot.time,
+		mimeType: response?.content?.mimeType,
+		bodySha1: response?.content?._sha1,
+		bodySize: response?.content?.size,
+		pageId: snapshot.pageref,
+		frameId: snapshot._frameref,
+	};
+}
+
+/**
+ * Convert HAR header arrays to a record, joining repeated headers
+ */
+function harHeadersToRecord(
+	headers?: Array<{ name: string; value: string }>,
+): Record<string, string> | undefined {
+	if (!headers) return undefined;
+
+	const record: Record<string, string> = {};
+	for (const header of headers) {
+		record[header.name] =
+			header.name in record
+				? `${record[header.name]}, ${header.value}`
+				: header.value;
+	}
+	return record;
+}
+
+/**
+ * Fill in redirectChain for requests reached through 3xx redirects
+ *
+ * Each hop is a separate HAR entry whose redirectURL points at the next one,
+ * so the chain is rebuilt by walking back from each entry. Expects events
+ * sorted by timestamp.
+ */
+function linkRedirectChains(network: NetworkEvent[]): void {
+	// Redirect responses keyed by the URL they redirect to
+	const redirectsByTarget = new Map<string, NetworkEvent[]>();
+	for (const event of network) {
+		if (event.redirectURL) {
+			const target = resolveUrl(event.redirectURL, event.url);
+			redirectsByTarget.set(target, [
+				...(redirectsByTarget.get(target) || []),
+				event,
+			]);
 		}
 	}
 
-	// Extract resources
-	for (const entry of entries) {
-		if (entry.entryName.startsWith("resources/")) {
-			const resourceEntry: ResourceEntry = {
-				url: entry.entryName.replace("resources/", ""),
-				content: entry.getData(),
-				size: entry.header.size,
-			};
-			traceData.resources.push(resourceEntry);
+	for (const event of network) {
+		const chain: string[] = [];
+		let current = event;
+
+		while (true) {
+			const previous = (redirectsByTarget.get(current.url) || [])
+				.filter(
+					(r) =>
+						r.timestamp <= current.timestamp &&
+						r.pageId === current.pageId &&
+						r !== current,
+				)
+				.pop();
+			if (!previous || chain.includes(previous.url)) break;
+			chain.unshift(previous.url);
+			current = previous;
+		}
+
+		if (chain.length > 0) {
+			event.redirectChain = chain;
 		}
 	}
+}
 
-	// Set metadata
-	traceData.metadata = {
-		...traceData.metadata,
-		startTime,
-		endTime,
-	};
+/**
+ * Resolve a possibly relative URL against a base URL
+ */
+function resolveUrl(url: string, base: string): string {
+	try {
+		return new URL(url, base).toString();
+	} catch {
+		return url;
+	}
+}
 
-	return traceData;
+/**
+ * Resolve a user-facing API name (e.g. "locator.click") for a trace call
+ *
+ * Older traces carry `apiName` directly. Newer ones only have class/method,
+ * plus a title for expect calls (e.g. 'Expect "toBeVisible"').
+ */
+function resolveApiName(event: RawCallEvent): string {
+	if (typeof event.apiName === "string" && event.apiName) {
+		return event.apiName;
+	}
+
+	const method: string = event.method || "unknown";
+	const className: string = event.class || "";
+
+	if (method === "expect") {
+		const matcherMatch =
+			typeof event.title === "string"
+				? event.title.match(/Expect\s+"([^"]+)"/)
+				: null;
+		if (matcherMatch) {
+			return `expect.${matcherMatch[1]}`;
+		}
+		return "expect";
+	}
+
+	if (className === "Frame") {
+		return event.params?.selector ? `locator.${method}` : `page.${method}`;
+	}
+
+	if (className === "BrowserContext") {
+		return `browserContext.${method}`;
+	}
+
+	if (className) {
+		return `${className.charAt(0).toLowerCase()}${className.slice(1)}.${method}`;
+	}
+
+	return method;
 }
 
 /**
@@ -343,6 +932,65 @@ export function extractNetworkEvents(traceData: TraceData): NetworkEvent[] {
 	return traceData.network;
 }
 
+/**
+ * Find the resource entry holding a response body
+ *
+ * @param traceData - Parsed trace data
+ * @param sha1 - Body file name from NetworkEvent.bodySha1
+ * @returns Resource entry or null if the body was not recorded
+ */
+export function findResourceBySha1(
+	traceData: TraceData,
+	sha1: string,
+): ResourceEntry | null {
+	return traceData.resources.find((r) => r.url === sha1) || null;
+}
+
+/**
+ * Load the content of a trace resource (response body, screencast frame)
+ *
+ * Resources are read from the archive one at a time, only when needed.
+ *
+ * @param traceData - Parsed trace data
+ * @param sha1 - Resource file name under resources/
+ * @returns Resource content or null if it is not in the archive
+ */
+export function loadResource(
+	traceData: TraceData,
+	sha1: string,
+): Buffer | null {
+	return traceData.archive?.readEntry(`resources/${sha1}`) ?? null;
+}
+
+/**
+ * Load the HTML of a DOM snapshot
+ *
+ * Snapshots are read from the archive or rendered from their frame's
+ * snapshots one at a time, only when needed.
+ *
+ * @param traceData - Parsed trace data
+ * @param snapshot - Snapshot entry
+ * @returns Full HTML document or null if the snapshot has no content
+ */
+export function loadSnapshotHtml(
+	traceData: TraceData,
+	snapshot: SnapshotEntry,
+): string | null {
+	if (snapshot.htmlFile) {
+		return (
+			traceData.archive?.readEntry(snapshot.htmlFile)?.toString("utf-8") ?? null
+		);
+	}
+
+	const frameSnapshots = snapshot.frameId
+		? traceData.frameSnapshots.get(snapshot.frameId)
+		: undefined;
+	if (!frameSnapshots || snapshot.frameSnapshotIndex === undefined) {
+		return null;
+	}
+	return renderSnapshotHtml(frameSnapshots, snapshot.frameSnapshotIndex);
+}
+
 /**
  * Extract console events from trace data
  *
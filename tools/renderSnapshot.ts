@@ -0,0 +1,261 @@
+/**
+ * Render Playwright `frame-snapshot` trace events into HTML
+ *
+ * Traces do not store DOM snapshots as HTML files. Each `frame-snapshot`
+ * event holds a compressed node tree where unchanged subtrees are replaced
+ * by back-references into earlier snapshots of the same frame:
+ *
+ * - "text" - text node
+ * - ["DIV", { class: "x" }, ...children] - element node
+ * - [[offset, nodeIndex]] - node `nodeIndex` of the snapshot `offset`
+ *   positions earlier in the same frame (nodes indexed in post-order)
+ */
+
+import type { SnapshotEntry } from "./readTrace";
+
+/**
+ * Node in a compressed frame snapshot
+ */
+export type SnapshotNode =
+	| string
+	| [[number, number]]
+	| [string, Record<string, string>?, ...SnapshotNode[]];
+
+/**
+ * Frame snapshot as recorded in a `frame-snapshot` trace event
+ */
+export interface FrameSnapshot {
+	callId: string;
+	snapshotName: string;
+	pageId?: string;
+	frameId: string;
+	frameUrl: string;
+	doctype?: string;
+	html: SnapshotNode;
+	viewport?: { width: number; height: number };
+	timestamp: number;
+	wallTime?: number;
+	isMainFrame?: boolean;
+}
+
+/**
+ * Elements that have no closing tag
+ */
+const VOID_ELEMENTS = new Set([
+	"AREA",
+	"BASE",
+	"BR",
+	"COL",
+	"COMMAND",
+	"EMBED",
+	"HR",
+	"IMG",
+	"INPUT",
+	"KEYGEN",
+	"LINK",
+	"MENUITEM",
+	"META",
+	"PARAM",
+	"SOURCE",
+	"TRACK",
+	"WBR",
+]);
+
+/**
+ * Index a frame snapshot without rendering it
+ *
+ * @param snapshot - Frame snapshot in trace order
+ * @param snapshotsByFrame - Snapshots read so far, by frame id; the snapshot
+ * is added to its frame's list
+ * @returns Snapshot entry tagged with callId, phase, frame and viewport,
+ * rendered with renderSnapshotHtml when needed
+ */
+export function indexFrameSnapshot(
+	snapshot: FrameSnapshot,
+	snapshotsByFrame: Map<string, FrameSnapshot[]>,
+): SnapshotEntry {
+	// Back-references are resolved against earlier snapshots of the same frame
+	const frameSnapshotList = snapshotsByFrame.get(snapshot.frameId) || [];
+	frameSnapshotList.push(snapshot);
+	snapshotsByFrame.set(snapshot.frameId, frameSnapshotList);
+
+	return {
+		snapshotId: snapshot.snapshotName,
+		timestamp: snapshot.timestamp,
+		url: snapshot.frameUrl,
+		viewport: snapshot.viewport,
+		callId: snapshot.callId,
+		phase: getSnapshotPhase(snapshot.snapshotName),
+		pageId: snapshot.pageId,
+		frameId: snapshot.frameId,
+		isMainFrame: snapshot.isMainFrame ?? true,
+		frameSnapshotIndex: frameSnapshotList.length - 1,
+	};
+}
+
+/**
+ * Get the snapshot phase from its name ("before@call@8", "input@call@12", ...)
+ *
+ * The `input` snapshot is taken at the moment the action is performed.
+ */
+export function getSnapshotPhase(
+	snapshotName: string,
+): "before" | "action" | "after" | undefined {
+	const prefix = snapshotName.split("@")[0];
+	if (prefix === "before") return "before";
+	if (prefix === "input" || prefix === "action") return "action";
+	if (prefix === "after") return "after";
+	return undefined;
+}
+
+/**
+ * Render one snapshot of a frame to HTML
+ *
+ * @param frameSnapshots - Snapshots of the frame, at least up to this one
+ * @param snapshotIndex - Index of the snapshot to render
+ * @returns Full HTML document
+ */
+export function renderSnapshotHtml(
+	frameSnapshots: FrameSnapshot[],
+	snapshotIndex: number,
+): string {
+	const snapshot = frameSnapshots[snapshotIndex];
+	const parts: string[] = [];
+
+	const visit = (
+		node: SnapshotNode,
+		nodeSnapshotIndex: number,
+		parentTag: string | undefined,
+	): void => {
+		// Text node
+		if (typeof node === "string") {
+			parts.push(
+				parentTag === "STYLE" || parentTag === "SCRIPT"
+					? node
+					: escapeHtml(node),
+			);
+			return;
+		}
+
+		// Subtree reference into an earlier snapshot
+		if (Array.isArray(node[0])) {
+			const [offset, nodeIndex] = node[0];
+			const referenceIndex = nodeSnapshotIndex - offset;
+			if (referenceIndex >= 0 && referenceIndex <= nodeSnapshotIndex) {
+				const nodes = getSnapshotNodes(frameSnapshots[referenceIndex]);
+				if (nodeIndex >= 0 && nodeIndex < nodes.length) {
+					visit(nodes[nodeIndex], referenceIndex, parentTag);
+				}
+			}
+			return;
+		}
+
+		// Element node
+		const [name, attributes, ...children] = node as [
+			string,
+			Record<string, string>?,
+			...SnapshotNode[],
+		];
+		const tagName = name === "NOSCRIPT" ? "X-NOSCRIPT" : name;
+		// DOM node names are upper case for HTML elements; keep SVG names as-is
+		const outputName =
+			tagName === tagName.toUpperCase() ? tagName.toLowerCase() : tagName;
+
+		parts.push("<", outputName);
+		for (const [attrName, attrValue] of Object.entries(attributes || {})) {
+			const renderedAttr = renderAttribute(attrName, attrValue);
+			if (renderedAttr) {
+				parts.push(" ", renderedAttr);
+			}
+		}
+		parts.push(">");
+
+		for (const child of children) {
+			visit(child, nodeSnapshotIndex, tagName);
+		}
+
+		if (!VOID_ELEMENTS.has(tagName)) {
+			parts.push("</", outputName, ">");
+		}
+	};
+
+	visit(snapshot.html, snapshotIndex, undefined);
+
+	const doctype = snapshot.doctype ? `<!DOCTYPE ${snapshot.doctype}>` : "";
+	return doctype + parts.join("");
+}
+
+/**
+ * Render an attribute, mapping Playwright's internal state attributes
+ * (current value, checked, selected, image source) to regular HTML
+ */
+function renderAttribute(name: string, value: string): string | null {
+	switch (name) {
+		case "__playwright_value_":
+			return `value="${escapeAttribute(value)}"`;
+		case "__playwright_checked_":
+			return value === "true" ? "checked" : null;
+		case "__playwright_selected_":
+			return value === "true" ? "selected" : null;
+		case "__playwright_current_src__":
+			return `src="${escapeAttribute(value)}"`;
+		case "__playwright_target__":
+			// Marks the element the action was performed on
+			return `data-pw-target="${escapeAttribute(value)}"`;
+	}
+
+	if (name.startsWith("__playwright")) {
+		return null;
+	}
+
+	return `${name}="${escapeAttribute(value)}"`;
+}
+
+/**
+ * Cache of post-order node lists per snapshot
+ */
+const snapshotNodesCache = new WeakMap<FrameSnapshot, SnapshotNode[]>();
+
+/**
+ * List the nodes of a snapshot in post-order (the order back-references use)
+ *
+ * Reference nodes themselves are not part of the list.
+ */
+function getSnapshotNodes(snapshot: FrameSnapshot): SnapshotNode[] {
+	const cached = snapshotNodesCache.get(snapshot);
+	if (cached) return cached;
+
+	const nodes: SnapshotNode[] = [];
+	const visit = (node: SnapshotNode): void => {
+		if (typeof node === "string") {
+			nodes.push(node);
+		} else if (typeof node[0] === "string") {
+			for (let i = 2; i < node.length; i++) {
+				visit(node[i] as SnapshotNode);
+			}
+			nodes.push(node);
+		}
+	};
+	visit(snapshot.html);
+
+	snapshotNodesCache.set(snapshot, nodes);
+	return nodes;
+}
+
+/**
+ * Escape text content for HTML
+ */
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>]/g, (char) =>
+		char === "&" ? "&amp;" : char === "<" ? "&lt;" : "&gt;",
+	);
+}
+
+/**
+ * Escape an attribute value for HTML
+ */
+function escapeAttribute(value: string): string {
+	return String(value).replace(/[&"]/g, (char) =>
+		char === "&" ? "&amp;" : "&quot;",
+	);
+}
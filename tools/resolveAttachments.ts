@@ -0,0 +1,219 @@
+/**
+ * Resolve report attachments against the files of an uploaded bundle
+ *
+ * Each result of a Playwright JSON report lists its attachments with the path
+ * they had on the machine that ran the tests, e.g.
+ * "C:\ci\test-results\checkout-chromium\trace.zip". Bundles keep the
+ * test-results layout, so a file is matched by the longest run of trailing
+ * path segments it shares with the attachment path ("trace.zip" alone is
+ * ambiguous when several tests failed). Files in a folder must share at least
+ * the folder name (the per-test output folder); files at the bundle root are
+ * matched by basename.
+ */
+
+import type { PlaywrightArtifacts, TestFailureFacts } from "@/types/schemas";
+import { isConsoleLogAttachment, readOutput } from "./parseReport";
+
+type BundleFile = NonNullable<PlaywrightArtifacts["bundleFiles"]>[number];
+
+/**
+ * Kinds of attachments used by the analysis
+ */
+type AttachmentKind = "trace" | "screenshot" | "video";
+
+/**
+ * File extensions of each attachment kind in a bundle
+ */
+const KIND_EXTENSIONS: Record<AttachmentKind, RegExp> = {
+	trace: /\.zip$/i,
+	screenshot: /\.(png|jpg|jpeg)$/i,
+	video: /\.(mp4|webm)$/i,
+};
+
+/**
+ * Get the artifacts that belong to one failure
+ *
+ * Attachments found in the bundle replace the run-level trace, screenshots
+ * and video. When a failure declares no attachment of a kind (individual
+ * uploads, reports without attachments), or declares one that is missing
+ * from a bundle holding at most one file of that kind, the run-level
+ * artifact is kept.
+ *
+ * @param facts - Failure facts with the report attachments
+ * @param artifacts - Run-level artifacts
+ * @returns Artifacts to analyze this failure with
+ */
+export function resolveFailureArtifacts(
+	facts: TestFailureFacts,
+	artifacts: PlaywrightArtifacts,
+): PlaywrightArtifacts {
+	const bundleFiles = artifacts.bundleFiles || [];
+	const attachments = facts.attachments || [];
+	if (attachments.length === 0 || bundleFiles.length === 0) {
+		return artifacts;
+	}
+
+	const resolve = (kind: AttachmentKind) => {
+		const declared = attachments.filter(
+			(attachment) => getAttachmentKind(attachment) === kind,
+		);
+		const files = declared.flatMap((attachment) => {
+			const file = findBundleFile(bundleFiles, attachment.path);
+			return file ? [{ file, contentType: attachment.contentType }] : [];
+		});
+
+		const keepRunLevel =
+			declared.length === 0 ||
+			(files.length === 0 &&
+				bundleFiles.filter((f) => KIND_EXTENSIONS[kind].test(f.path)).length <=
+					1);
+		if (declared.length > 0 && files.length === 0) {
+			console.warn(
+				`[Attachments] ${kind} of "${facts.testName}" not found in bundle${keepRunLevel ? ", using the run-level file" : ""}`,
+			);
+		}
+		return { files, keepRunLevel };
+	};
+
+	const trace = resolve("trace");
+	const screenshots = resolve("screenshot");
+	const video = resolve("video");
+
+	return {
+		...artifacts,
+		traceZip: trace.keepRunLevel
+			? artifacts.traceZip
+			: trace.files[0]?.file.data,
+		screenshots: screenshots.keepRunLevel
+			? artifacts.screenshots
+			: screenshots.files.map(({ file, contentType }) =>
+					toFile(file, contentType),
+				),
+		video: video.keepRunLevel
+			? artifacts.video
+			: video.files
+					.map(({ file, contentType }) => toFile(file, contentType))
+					.shift(),
+	};
+}
+
+/**
+ * Add the console logs a failure attached as files to its facts
+ *
+ * Inline console logs are read with the report; logs attached by path are
+ * only in the uploaded bundle.
+ *
+ * @param facts - Failure facts with the report attachments
+ * @param artifacts - Run-level artifacts with the bundle files
+ * @returns Facts with the console log lines of both
+ */
+export function resolveConsoleLogs(
+	facts: TestFailureFacts,
+	artifacts: PlaywrightArtifacts,
+): TestFailureFacts {
+	const bundleFiles = artifacts.bundleFiles || [];
+	const logFiles = (facts.attachments || [])
+		.filter(isConsoleLogAttachment)
+		.flatMap((attachment) => {
+			const file = findBundleFile(bundleFiles, attachment.path);
+			return file ? [file] : [];
+		});
+	if (logFiles.length === 0) {
+		return facts;
+	}
+
+	const consoleLogs = readOutput([
+		...(facts.consoleLogs || []).map((line) => ({ text: `${line}\n` })),
+		...logFiles.map((file) => ({ text: `${file.data.toString("utf-8")}\n` })),
+	]);
+	return { ...facts, consoleLogs };
+}
+
+/**
+ * Find the bundle file for an attachment path
+ *
+ * @param bundleFiles - Files of the bundle
+ * @param attachmentPath - Path from the report (any platform)
+ * @returns Best matching file, or null if none or several match equally well
+ */
+export function findBundleFile(
+	bundleFiles: BundleFile[],
+	attachmentPath: string,
+): BundleFile | null {
+	const target = splitPath(attachmentPath);
+
+	let best: BundleFile | null = null;
+	let bestScore = 0;
+	let tied = false;
+	for (const file of bundleFiles) {
+		const segments = splitPath(file.path);
+		const score = countCommonTrailingSegments(segments, target);
+		if (score < Math.min(2, segments.length, target.length)) {
+			continue;
+		}
+		if (score > bestScore) {
+			best = file;
+			bestScore = score;
+			tied = false;
+		} else if (score === bestScore) {
+			tied = true;
+		}
+	}
+
+	return tied ? null : best;
+}
+
+/**
+ * Get the kind of an attachment from its name and content type
+ */
+function getAttachmentKind(attachment: {
+	name: string;
+	contentType: string;
+}): AttachmentKind | null {
+	if (
+		attachment.name === "trace" ||
+		attachment.contentType === "application/zip"
+	) {
+		return "trace";
+	}
+	if (attachment.contentType.startsWith("image/")) {
+		return "screenshot";
+	}
+	if (attachment.contentType.startsWith("video/")) {
+		return "video";
+	}
+	return null;
+}
+
+/**
+ * Split a Windows or POSIX path into lowercased segments
+ */
+function splitPath(path: string): string[] {
+	return path
+		.toLowerCase()
+		.split(/[\\/]+/)
+		.filter((segment) => segment.length > 0);
+}
+
+/**
+ * Count the trailing segments two paths have in common
+ */
+function countCommonTrailingSegments(a: string[], b: string[]): number {
+	let count = 0;
+	while (
+		count < a.length &&
+		count < b.length &&
+		a[a.length - 1 - count] === b[b.length - 1 - count]
+	) {
+		count++;
+	}
+	return count;
+}
+
+/**
+ * Wrap a bundle file as a File, like individually uploaded artifacts
+ */
+function toFile(file: BundleFile, contentType: string): File {
+	const name = file.path.split("/").pop() || file.path;
+	return new File([new Uint8Array(file.data)], name, { type: contentType });
+}
@@ -0,0 +1,218 @@
+/**
+ * Resolve a test failure to the trace action that failed
+ *
+ * Each failure is matched against the actions of the trace using the signals
+ * the report gives us:
+ * - Stack location (test file and line the action was issued from)
+ * - Error message (the action's own error)
+ * - API name (e.g. "locator.click", "expect.toBeVisible")
+ * - Selector (the "Locator:" line of the error)
+ *
+ * The best match becomes the failure anchor: the point in the trace every
+ * later phase looks at (DOM snapshot, call log, screencast frames, page).
+ */
+
+import type { FailureAnchor, TestFailureFacts } from "@/types/schemas";
+import type { ActionEvent } from "./readTrace";
+import type { TraceIndex } from "./traceIndex";
+import { stripAnsi } from "./stripAnsi";
+
+/**
+ * Score of each matching signal
+ */
+const SIGNAL_SCORES = {
+	location: 4,
+	error: 3,
+	apiName: 2,
+	selector: 2,
+};
+
+/**
+ * Resolve the trace action a failure belongs to
+ *
+ * Falls back to the trace end time (and the failed action closest to it)
+ * when no action matches; matchedBy is empty in that case.
+ *
+ * @param traceIndex - Index of the parsed trace
+ * @param facts - Failure facts from the report
+ * @returns Failure anchor
+ */
+export function resolveFailureAnchor(
+	traceIndex: TraceIndex,
+	facts: TestFailureFacts,
+): FailureAnchor {
+	const { traceData } = traceIndex;
+	const errorText = normalize(facts.error);
+	const apiName = extractApiName(stripAnsi(facts.error));
+	const locatorTokens = extractLocatorTokens(facts);
+
+	let best: { action: ActionEvent; score: number; matchedBy: string[] } | null =
+		null;
+
+	for (const action of traceData.actions) {
+		if (action.type !== "action") continue;
+
+		const matchedBy: string[] = [];
+		if (matchesLocation(action, facts)) matchedBy.push("location");
+		if (matchesError(action, errorText)) matchedBy.push("error");
+		if (apiName && action.apiName === apiName) matchedBy.push("apiName");
+		if (matchesSelector(action, locatorTokens)) matchedBy.push("selector");
+
+		const score = matchedBy.reduce(
+			(sum, signal) =>
+				sum + SIGNAL_SCORES[signal as keyof typeof SIGNAL_SCORES],
+			action.error ? 1 : 0,
+		);
+
+		// A lone API name or selector match is not enough (the same call can
+		// appear many times); later actions win ties
+		const isMatch =
+			matchedBy.includes("location") ||
+			matchedBy.includes("error") ||
+			matchedBy.length >= 2;
+		if (isMatch && (!best || score >= best.score)) {
+			best = { action, score, matchedBy };
+		}
+	}
+
+	if (best) {
+		return toAnchor(best.action, best.matchedBy);
+	}
+
+	return getTraceEndAnchor(traceIndex);
+}
+
+/**
+ * Anchor at the end of the trace, on the failed action closest to it
+ *
+ * @param traceIndex - Index of the parsed trace
+ * @returns Failure anchor with empty matchedBy
+ */
+export function getTraceEndAnchor(traceIndex: TraceIndex): FailureAnchor {
+	const { traceData } = traceIndex;
+	const endTime =
+		traceData.metadata?.endTime ||
+		(traceData.actions.length > 0
+			? traceData.actions.reduce(
+					(latest, a) => Math.max(latest, a.timestamp),
+					Number.NEGATIVE_INFINITY,
+				)
+			: Date.now());
+
+	const failedAction = traceData.actions
+		.filter((a) => a.type === "action" && a.error)
+		.sort(
+			(a, b) =>
+				Math.abs(a.timestamp - endTime) - Math.abs(b.timestamp - endTime),
+		)[0];
+
+	return {
+		callId: failedAction?.callId,
+		timestamp: endTime,
+		pageId: failedAction?.pageId,
+		matchedBy: [],
+	};
+}
+
+/**
+ * Build an anchor from a matched action
+ */
+function toAnchor(action: ActionEvent, matchedBy: string[]): FailureAnchor {
+	return {
+		callId: action.callId,
+		timestamp: action.endTime ?? action.timestamp,
+		pageId: action.pageId,
+		matchedBy,
+	};
+}
+
+/**
+ * Check if the action was issued from the failing source line
+ */
+function matchesLocation(
+	action: ActionEvent,
+	facts: TestFailureFacts,
+): boolean {
+	if (!action.location || facts.lineNumber === undefined) {
+		return false;
+	}
+
+	const fileName = (path: string) => path.split(/[\\/]/).pop();
+	return (
+		action.location.line === facts.lineNumber &&
+		fileName(action.location.file) === fileName(facts.file)
+	);
+}
+
+/**
+ * Check if the report error contains the action's own error
+ *
+ * Trace errors are often prefixed with a generic message ("Expect failed:"),
+ * so the most specific part (after the last "Error:") is compared.
+ */
+function matchesError(action: ActionEvent, errorText: string): boolean {
+	if (!action.error?.message) {
+		return false;
+	}
+
+	const actionError = normalize(action.error.message);
+	const detail =
+		actionError
+			.split(/error:\s*/)
+			.pop()
+			?.trim() || actionError;
+	return detail.length >= 8 && errorText.includes(detail);
+}
+
+/**
+ * Check if the action's selector contains every quoted part of the locator
+ */
+function matchesSelector(action: ActionEvent, tokens: string[]): boolean {
+	const selector = action.action?.selector?.toLowerCase();
+	if (!selector || tokens.length === 0) {
+		return false;
+	}
+	return tokens.every((token) => selector.includes(token));
+}
+
+/**
+ * Get the Playwright API name from an error message
+ * ("locator.click: Timeout ..." or "expect(locator).toBeVisible() failed")
+ */
+function extractApiName(error: string): string | null {
+	const expectMatch = error.match(/expect\([^)]*\)\.(?:not\.)?(\w+)\(/);
+	if (expectMatch) {
+		return `expect.${expectMatch[1]}`;
+	}
+
+	const callMatch = error.match(/\b(locator|page|frame)\.(\w+):/);
+	if (callMatch) {
+		return `${callMatch[1]}.${callMatch[2]}`;
+	}
+
+	return null;
+}
+
+/**
+ * Get the quoted parts of the failing locator, lowercased
+ *
+ * "getByRole('heading', { name: 'Thanks' })" -> ["heading", "thanks"]
+ */
+function extractLocatorTokens(facts: TestFailureFacts): string[] {
+	const plain = stripAnsi(facts.error);
+	const locator =
+		plain.match(/Locator:\s*(.+)/)?.[1] ||
+		plain.match(/waiting for (.+)/)?.[1] ||
+		"";
+
+	return [...locator.matchAll(/['"`]([^'"`]+)['"`]/g)].map((match) =>
+		match[1].toLowerCase(),
+	);
+}
+
+/**
+ * Strip ANSI codes, lowercase and collapse whitespace
+ */
+function normalize(text: string): string {
+	return stripAnsi(text).toLowerCase().replace(/\s+/g, " ");
+}
@@ -0,0 +1,236 @@
+/**
+ * Read the run configuration from the report's config block
+ *
+ * The JSON report serializes the resolved config: workers, fullyParallel,
+ * globalTimeout, the Playwright version and one entry per project with its
+ * timeout, retries and dependencies. Config-level settings (timeout, use,
+ * expect) are folded into each project, so agents look up a failure's
+ * project and get every setting that applied to it.
+ */
+
+import type {
+	RunContext,
+	RunProject,
+	RunUseOptions,
+	TestFailureFacts,
+} from "@/types/schemas";
+import {
+	readPlaywrightReport,
+	type PlaywrightConfig,
+	type PlaywrightUseOptions,
+} from "./parseReport";
+
+/**
+ * Playwright's default test timeout
+ */
+export const DEFAULT_TEST_TIMEOUT = 30000;
+
+/**
+ * Playwright's default expect() timeout
+ */
+export const DEFAULT_EXPECT_TIMEOUT = 5000;
+
+/**
+ * Timeouts that applied to a test, defaults filled in
+ */
+export interface RunTimeouts {
+	testTimeout: number;
+	expectTimeout: number;
+	actionTimeout?: number; // Absent: no limit besides the test timeout
+	navigationTimeout?: number;
+}
+
+/**
+ * Timeout a failure ran into, from its error message
+ */
+export interface ExceededTimeout {
+	setting: "test" | "expect" | "action" | "navigation";
+	timeout: number;
+}
+
+/**
+ * Read the run configuration of a report
+ *
+ * @param reportJson - Playwright JSON report (or JUnit XML, which has none)
+ * @returns Run context, or null if the report has no config block
+ */
+export function readRunContext(reportJson: string | Buffer): RunContext | null {
+	try {
+		const config = readPlaywrightReport(reportJson).config;
+		return config ? toRunContext(config) : null;
+	} catch (error) {
+		console.warn("[RunContext] Could not read the report config:", error);
+		return null;
+	}
+}
+
+/**
+ * Convert the report's config block to a run context
+ */
+function toRunContext(config: PlaywrightConfig): RunContext {
+	const projects: RunProject[] = (
+		config.projects && config.projects.length > 0 ? config.projects : [{}]
+	).map((project) => ({
+		name: project.name || "",
+		testDir: project.testDir || config.testDir,
+		timeout: project.timeout ?? config.timeout,
+		expectTimeout: project.expect?.timeout ?? config.expect?.timeout,
+		retries: project.retries ?? config.retries,
+		repeatEach: project.repeatEach,
+		dependencies:
+			project.dependencies && project.dependencies.length > 0
+				? project.dependencies
+				: undefined,
+		use: toUseOptions({ ...config.use, ...project.use }),
+	}));
+
+	return {
+		playwrightVersion: config.version,
+		configFile: config.configFile,
+		rootDir: config.rootDir,
+		workers: config.workers,
+		fullyParallel: config.fullyParallel,
+		forbidOnly: config.forbidOnly,
+		globalTimeout: config.globalTimeout,
+		maxFailures: config.maxFailures,
+		metadata:
+			config.metadata && Object.keys(config.metadata).length > 0
+				? config.metadata
+				: undefined,
+		projects,
+	};
+}
+
+/**
+ * Keep the `use` options agents look at
+ */
+function toUseOptions(use: PlaywrightUseOptions): RunUseOptions | undefined {
+	const options: RunUseOptions = {
+		baseURL: use.baseURL,
+		viewport: use.viewport,
+		locale: use.locale,
+		timezoneId: use.timezoneId,
+		browserName: use.browserName,
+		channel: use.channel,
+		headless: use.headless,
+		actionTimeout: use.actionTimeout || undefined,
+		navigationTimeout: use.navigationTimeout || undefined,
+		testIdAttribute: use.testIdAttribute,
+	};
+	return Object.values(options).some((value) => value !== undefined)
+		? options
+		: undefined;
+}
+
+/**
+ * Get the settings of the project a failure ran in
+ *
+ * @param runContext - Run context
+ * @param projectName - Project of the failure, if known
+ * @returns The project, the only project of the run, or undefined
+ */
+export function getRunProject(
+	runContext: RunContext | null | undefined,
+	projectName: string | undefined,
+): RunProject | undefined {
+	const projects = runContext?.projects || [];
+	return (
+		projects.find((project) => project.name === (projectName ?? "")) ||
+		(projects.length === 1 ? projects[0] : undefined)
+	);
+}
+
+/**
+ * Get the timeouts that applied to a project, with Playwright's defaults
+ *
+ * @param project - Project settings, if known
+ * @returns Test, expect, action and navigation timeouts
+ */
+export function getRunTimeouts(project: RunProject | undefined): RunTimeouts {
+	return {
+		testTimeout: project?.timeout || DEFAULT_TEST_TIMEOUT,
+		expectTimeout: project?.expectTimeout || DEFAULT_EXPECT_TIMEOUT,
+		actionTimeout: project?.use?.actionTimeout,
+		navigationTimeout: project?.use?.navigationTimeout,
+	};
+}
+
+/**
+ * Find the timeout a failure ran into from its error message
+ *
+ *   Test timeout of 30000ms exceeded.                   test
+ *   Timed out 5000ms waiting for expect(locator)...     expect
+ *   expect(locator).toBeVisible() failed ... Timeout: 5000ms
+ *   page.goto: Timeout 30000ms exceeded.                navigation
+ *   locator.click: Timeout 10000ms exceeded.            action
+ *
+ * @param error - Error message
+ * @returns Exceeded timeout, or null if the error is not a timeout
+ */
+export function findExceededTimeout(error: string): ExceededTimeout | null {
+	const testMatch = error.match(/Test timeout of (\d+)ms exceeded/i);
+	if (testMatch) {
+		return { setting: "test", timeout: Number.parseInt(testMatch[1], 10) };
+	}
+
+	const expectMatch =
+		error.match(/Timed out (\d+)ms waiting for expect/i) ||
+		(/expect\(/.test(error) ? error.match(/Timeout:\s*(\d+)ms/i) : null);
+	if (expectMatch) {
+		return { setting: "expect", timeout: Number.parseInt(expectMatch[1], 10) };
+	}
+
+	const actionMatch = error.match(/(\w+\.\w+): Timeout (\d+)ms exceeded/);
+	if (actionMatch) {
+		const isNavigation =
+			/^(page|frame)\.(goto|reload|goBack|goForward|waitForURL|waitForNavigation)$/.test(
+				actionMatch[1],
+			);
+		return {
+			setting: isNavigation ? "navigation" : "action",
+			timeout: Number.parseInt(actionMatch[2], 10),
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Describe the configuration that applied to a failure, for prompts
+ *
+ * @param runContext - Run context
+ * @param failureFacts - Failure facts, to find its project
+ * @returns Description lines, empty without a run context
+ */
+export function describeRunContext(
+	runContext: RunContext | null | undefined,
+	failureFacts: TestFailureFacts,
+): string[] {
+	if (!runContext) {
+		return [];
+	}
+
+	const project = getRunProject(runContext, failureFacts.projectName);
+	const timeouts = getRunTimeouts(project);
+	const use = project?.use;
+
+	const run = [
+		runContext.playwrightVersion &&
+			`Playwright ${runContext.playwrightVersion}`,
+		runContext.workers !== undefined && `${runContext.workers} workers`,
+		runContext.fullyParallel && "fully parallel",
+		project?.retries !== undefined && `${project.retries} retries`,
+	].filter(Boolean);
+
+	const lines = [
+		run.length > 0 ? `Run: ${run.join(", ")}` : null,
+		`Timeouts: test ${timeouts.testTimeout}ms, expect ${timeouts.expectTimeout}ms, action ${timeouts.actionTimeout ? `${timeouts.actionTimeout}ms` : "none"}, navigation ${timeouts.navigationTimeout ? `${timeouts.navigationTimeout}ms` : "none"}`,
+		use?.baseURL ? `Base URL: ${use.baseURL}` : null,
+		use?.viewport
+			? `Viewport: ${use.viewport.width}x${use.viewport.height}`
+			: null,
+		use?.locale ? `Locale: ${use.locale}` : null,
+		use?.testIdAttribute ? `Test id attribute: ${use.testIdAttribute}` : null,
+	];
+	return lines.filter((line): line is string => !!line);
+}
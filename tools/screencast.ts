@@ -0,0 +1,88 @@
+/**
+ * Screencast filmstrip lookup for Playwright traces
+ *
+ * Traces record the page as a stream of `screencast-frame` events, each
+ * pointing at a JPEG under resources/. These give visual evidence around the
+ * failure even when the report has no screenshot attachment.
+ */
+
+import { loadResource, type ScreencastFrame } from "./readTrace";
+import { countUntil, type TraceIndex } from "./traceIndex";
+
+/**
+ * Frames immediately before and after a point in time
+ */
+export interface SurroundingFrames {
+	before: ScreencastFrame | null;
+	after: ScreencastFrame | null;
+}
+
+/**
+ * Get all frames within a time window around a timestamp
+ *
+ * @param index - Trace index
+ * @param time - Center of the window (trace time, milliseconds)
+ * @param windowMs - Window size on each side of `time`
+ * @param pageId - Optional page to restrict frames to
+ * @returns Frames in the window, sorted by timestamp
+ */
+export function getFramesAround(
+	index: TraceIndex,
+	time: number,
+	windowMs: number,
+	pageId?: string,
+): ScreencastFrame[] {
+	const frames = getPageFrames(index, pageId);
+
+	return frames.slice(
+		countUntil(frames, time - windowMs, false),
+		countUntil(frames, time + windowMs, true),
+	);
+}
+
+/**
+ * Get the last frame at or before a timestamp and the first frame after it
+ *
+ * @param index - Trace index
+ * @param time - Timestamp to look around (trace time, milliseconds)
+ * @param pageId - Optional page to restrict frames to
+ * @returns Nearest frames on each side (null when there is none)
+ */
+export function getFramesBeforeAndAfter(
+	index: TraceIndex,
+	time: number,
+	pageId?: string,
+): SurroundingFrames {
+	const frames = getPageFrames(index, pageId);
+	const count = countUntil(frames, time, true);
+
+	return {
+		before: count > 0 ? frames[count - 1] : null,
+		after: count < frames.length ? frames[count] : null,
+	};
+}
+
+/**
+ * Load the image data of a screencast frame
+ *
+ * @param index - Trace index
+ * @param frame - Screencast frame
+ * @returns JPEG image buffer or null if the resource is missing
+ */
+export function loadFrameImage(
+	index: TraceIndex,
+	frame: ScreencastFrame,
+): Buffer | null {
+	return loadResource(index.traceData, frame.sha1);
+}
+
+/**
+ * Get frames for one page (or all pages), sorted by timestamp
+ */
+function getPageFrames(index: TraceIndex, pageId?: string): ScreencastFrame[] {
+	if (!pageId) {
+		return index.framesByTime;
+	}
+
+	return index.framesByPage.get(pageId) || [];
+}
@@ -0,0 +1,22 @@
+/**
+ * Strip ANSI escape codes from terminal output
+ *
+ * Playwright colors error messages, call logs and source snippets for the
+ * terminal, and the codes are kept as-is in JSON reports and traces.
+ */
+
+/**
+ * ANSI escape sequences (colors, styles, cursor movement)
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matches the escape character
+const ANSI_ESCAPE = /\u001b\[[0-?]*[ -/]*[@-~]/g;
+
+/**
+ * Remove ANSI escape codes from text
+ *
+ * @param text - Text that may contain ANSI codes
+ * @returns Plain text
+ */
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_ESCAPE, "");
+}
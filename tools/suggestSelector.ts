@@ -40,12 +40,18 @@ interface ElementAttributes {
 	html: string;
 }
 
+/**
+ * Attribute getByTestId matches by default
+ */
+const DEFAULT_TEST_ID_ATTRIBUTE = "data-testid";
+
 /**
  * Extract element attributes from HTML
  */
 function extractElementAttributes(
 	html: string,
 	tagMatch: string,
+	testIdAttribute: string,
 ): ElementAttributes {
 	const attrs: ElementAttributes = {
 		tag: tagMatch.match(/<(\w+)/)?.[1] || "unknown",
@@ -64,10 +70,18 @@ function extractElementAttributes(
 		attrs.classes = classMatch[1].split(/\s+/).filter(Boolean);
 	}
 
-	// Extract data-testid
+	// Extract the test id attribute getByTestId matches (data-testid unless
+	// the config sets testIdAttribute)
 	const testIdMatch =
-		tagMatch.match(/data-testid=["']([^"']+)["']/i) ||
-		tagMatch.match(/data-test-id=["']([^"']+)["']/i);
+		testIdAttribute === DEFAULT_TEST_ID_ATTRIBUTE
+			? tagMatch.match(/data-testid=["']([^"']+)["']/i) ||
+				tagMatch.match(/data-test-id=["']([^"']+)["']/i)
+			: tagMatch.match(
+					new RegExp(
+						`\\s${testIdAttribute.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}=["']([^"']+)["']`,
+						"i",
+					),
+				);
 	if (testIdMatch) {
 		attrs.dataTestId = testIdMatch[1];
 	}
@@ -200,13 +214,14 @@ function findElementHTML(html: string, selector: string): string | null {
 function findElementBySelector(
 	dom: DOMSnapshot,
 	selector: string,
+	testIdAttribute: string,
 ): ElementAttributes | null {
 	const elementHTML = findElementHTML(dom.html, selector);
 	if (!elementHTML) {
 		return null;
 	}
 
-	return extractElementAttributes(dom.html, elementHTML);
+	return extractElementAttributes(dom.html, elementHTML, testIdAttribute);
 }
 
 /**
@@ -374,14 +389,20 @@ function inferRoleFromTag(tag: string): string | null {
  *
  * @param extractedSelector - The current selector
  * @param dom - DOM snapshot at failure point
+ * @param testIdAttribute - Attribute getByTestId matches (use.testIdAttribute)
  * @returns Suggested selector or null if no better option found
  */
 export function suggestSelector(
 	extractedSelector: ExtractedSelector,
 	dom: DOMSnapshot,
+	testIdAttribute = DEFAULT_TEST_ID_ATTRIBUTE,
 ): SelectorSuggestion | null {
 	// Find the element in DOM
-	const elementAttrs = findElementBySelector(dom, extractedSelector.selector);
+	const elementAttrs = findElementBySelector(
+		dom,
+		extractedSelector.selector,
+		testIdAttribute,
+	);
 
 	if (!elementAttrs) {
 		// Element not found - can't suggest alternative
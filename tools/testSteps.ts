@@ -0,0 +1,223 @@
+/**
+ * Test-runner steps from Playwright traces
+ *
+ * Besides the browser context trace, trace archives recorded by the test
+ * runner contain `test.trace` with runner-level steps: hooks, fixtures,
+ * `test.step` blocks, expect calls and API calls, each with the source
+ * location that issued it. Browser calls in the context trace point back at
+ * these steps through their `stepId`, so the two can be merged into a single
+ * step tree.
+ */
+
+import type {
+	ActionEvent,
+	SourceLocation,
+	TestStep,
+	TraceData,
+} from "./readTrace";
+import { stripAnsi } from "./stripAnsi";
+
+/**
+ * Raw before/after event from test.trace
+ */
+interface RawStepEvent {
+	type: string;
+	callId?: string;
+	stepId?: string;
+	parentId?: string;
+	method?: string;
+	title?: string;
+	startTime?: number;
+	endTime?: number;
+	stack?: SourceLocation[];
+	error?: { name?: string; message?: string };
+}
+
+/**
+ * Step categories that describe setup rather than the test body
+ */
+const SETUP_CATEGORIES = new Set(["hook", "fixture"]);
+
+/**
+ * Parse test.trace lines into a tree of runner steps
+ *
+ * @param lines - JSONL lines of test.trace
+ * @returns Root steps ordered by start time
+ */
+export function parseTestRunnerTrace(lines: string[]): TestStep[] {
+	const stepsById = new Map<string, TestStep>();
+	const roots: TestStep[] = [];
+
+	for (const line of lines) {
+		let event: RawStepEvent;
+		try {
+			event = JSON.parse(line);
+		} catch (error) {
+			console.warn("Failed to parse test trace line:", error);
+			continue;
+		}
+
+		if (event.type === "before") {
+			const stepId = event.stepId || event.callId;
+			if (!stepId) continue;
+
+			const step: TestStep = {
+				stepId,
+				parentId: event.parentId,
+				category: event.method || "unknown",
+				title: event.title || event.method || stepId,
+				startTime: event.startTime ?? 0,
+				location: event.stack?.[0],
+				children: [],
+				actions: [],
+			};
+			stepsById.set(stepId, step);
+
+			const parent = event.parentId ? stepsById.get(event.parentId) : null;
+			if (parent) {
+				parent.children.push(step);
+			} else {
+				roots.push(step);
+			}
+		}
+
+		if (event.type === "after" && event.callId) {
+			const step = stepsById.get(event.callId);
+			if (step) {
+				step.endTime = event.endTime;
+				if (event.error) {
+					step.error = {
+						name: event.error.name || undefined,
+						message: stripAnsi(event.error.message || "Unknown error"),
+					};
+				}
+			}
+		}
+	}
+
+	const byStartTime = (a: TestStep, b: TestStep) => a.startTime - b.startTime;
+	roots.sort(byStartTime);
+	for (const step of stepsById.values()) {
+		step.children.sort(byStartTime);
+	}
+
+	return roots;
+}
+
+/**
+ * Attach browser actions to the runner steps that issued them
+ *
+ * Actions are matched by `stepId` and inherit the source location of their
+ * step (or the closest ancestor step that has one).
+ *
+ * @param steps - Root runner steps
+ * @param actions - Actions from the context trace
+ */
+export function linkActionsToSteps(
+	steps: TestStep[],
+	actions: ActionEvent[],
+): void {
+	const stepsById = indexSteps(steps);
+
+	for (const action of actions) {
+		const step = action.stepId ? stepsById.get(action.stepId) : undefined;
+		if (!step) continue;
+
+		step.actions.push(action);
+		action.location = findStepLocation(step, stepsById);
+	}
+}
+
+/**
+ * Flatten the step tree in start order (parents before children)
+ *
+ * @param steps - Root runner steps
+ * @returns All steps
+ */
+export function flattenSteps(steps: TestStep[]): TestStep[] {
+	const flat: TestStep[] = [];
+	const visit = (step: TestStep) => {
+		flat.push(step);
+		step.children.forEach(visit);
+	};
+	steps.forEach(visit);
+	return flat;
+}
+
+/**
+ * Get the chain of steps from the root down to a step
+ *
+ * @param traceData - Parsed trace data
+ * @param step - Step to resolve
+ * @returns Ancestors followed by the step itself
+ */
+export function getStepPath(traceData: TraceData, step: TestStep): TestStep[] {
+	const stepsById = indexSteps(traceData.steps);
+	const path: TestStep[] = [];
+
+	let current: TestStep | undefined = step;
+	while (current) {
+		path.unshift(current);
+		current = current.parentId ? stepsById.get(current.parentId) : undefined;
+	}
+
+	return path;
+}
+
+/**
+ * Find the runner step that issued a browser action
+ *
+ * @param traceData - Parsed trace data
+ * @param action - Action from the context trace
+ * @returns Step or null if the action is not linked to one
+ */
+export function findStepForAction(
+	traceData: TraceData,
+	action: ActionEvent,
+): TestStep | null {
+	if (!action.stepId) return null;
+	return indexSteps(traceData.steps).get(action.stepId) || null;
+}
+
+/**
+ * Find the innermost step that failed
+ *
+ * Steps in the test body are preferred over hooks and fixtures, since an
+ * error in the body also fails the enclosing steps.
+ *
+ * @param traceData - Parsed trace data
+ * @returns Failed step or null if no step has an error
+ */
+export function findFailedTestStep(traceData: TraceData): TestStep | null {
+	const failedSteps = flattenSteps(traceData.steps).filter(
+		(step) => step.error && step.children.every((child) => !child.error),
+	);
+
+	return (
+		failedSteps.find((step) => !SETUP_CATEGORIES.has(step.category)) ||
+		failedSteps[0] ||
+		null
+	);
+}
+
+/**
+ * Index steps by stepId
+ */
+function indexSteps(steps: TestStep[]): Map<string, TestStep> {
+	return new Map(flattenSteps(steps).map((step) => [step.stepId, step]));
+}
+
+/**
+ * Get the source location of a step, falling back to its ancestors
+ */
+function findStepLocation(
+	step: TestStep,
+	stepsById: Map<string, TestStep>,
+): SourceLocation | undefined {
+	let current: TestStep | undefined = step;
+	while (current) {
+		if (current.location) return current.location;
+		current = current.parentId ? stepsById.get(current.parentId) : undefined;
+	}
+	return undefined;
+}
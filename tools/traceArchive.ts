@@ -0,0 +1,83 @@
+/**
+ * Lazy access to the entries of a trace archive
+ *
+ * Opening the archive only reads the zip central directory. Entries are
+ * inflated when asked for: JSONL trace files are streamed line by line and
+ * resources are loaded one at a time, so memory stays bounded by the largest
+ * single entry rather than the whole archive.
+ */
+
+import { Readable } from "stream";
+import { createInterface } from "readline";
+import { createInflateRaw } from "zlib";
+import AdmZip from "adm-zip";
+
+/**
+ * Zip compression method for uncompressed ("stored") entries
+ */
+const STORED = 0;
+
+/**
+ * Index of the entries of a trace archive
+ */
+export interface TraceArchive {
+	entryNames: string[]; // File entries (no directories)
+	hasEntry(name: string): boolean;
+	getEntrySize(name: string): number; // Uncompressed size in bytes
+	readEntry(name: string): Buffer | null;
+	readLines(name: string): AsyncGenerator<string>;
+}
+
+/**
+ * Open a trace archive without inflating its entries
+ *
+ * @param zipBuffer - Zip file contents
+ * @returns Archive index
+ */
+export function openTraceArchive(zipBuffer: Buffer): TraceArchive {
+	const zip = new AdmZip(zipBuffer);
+	const entries = new Map(
+		zip
+			.getEntries()
+			.filter((entry) => !entry.isDirectory)
+			.map((entry) => [entry.entryName, entry]),
+	);
+
+	return {
+		entryNames: [...entries.keys()],
+
+		hasEntry(name) {
+			return entries.has(name);
+		},
+
+		getEntrySize(name) {
+			return entries.get(name)?.header.size ?? 0;
+		},
+
+		readEntry(name) {
+			return entries.get(name)?.getData() ?? null;
+		},
+
+		async *readLines(name) {
+			const entry = entries.get(name);
+			if (!entry) return;
+
+			// Inflate the compressed bytes as a stream instead of all at once
+			const compressed = Readable.from([entry.getCompressedData()]);
+			const input =
+				entry.header.method === STORED
+					? compressed
+					: compressed.pipe(createInflateRaw());
+
+			const lines = createInterface({
+				input,
+				crlfDelay: Number.POSITIVE_INFINITY,
+			});
+			for await (const line of lines) {
+				if (line.trim()) {
+					yield line;
+				}
+			}
+		},
+	};
+}
@@ -0,0 +1,178 @@
+/**
+ * Parsed-trace index shared by all analysis phases
+ *
+ * A trace is read once per analysis; the index adds lookup structures so that
+ * agents do not rescan (or re-read) the trace for every failure.
+ */
+
+import type {
+	ActionEvent,
+	ConsoleEvent,
+	NetworkEvent,
+	ScreencastFrame,
+	SnapshotEntry,
+	TraceData,
+} from "./readTrace";
+
+/**
+ * Lookup structures over parsed trace data
+ */
+export interface TraceIndex {
+	traceData: TraceData;
+	actionsByCallId: Map<string, ActionEvent>;
+	snapshotsByTime: SnapshotEntry[]; // Snapshots with content, oldest first
+	snapshotsByCallId: Map<string, SnapshotEntry[]>;
+	networkByUrl: Map<string, NetworkEvent[]>;
+	consoleByTime: ConsoleEvent[]; // Oldest first
+	framesByTime: ScreencastFrame[]; // Screencast frames of all pages, oldest first
+	framesByPage: Map<string, ScreencastFrame[]>; // Oldest first
+}
+
+/**
+ * Build the index for parsed trace data
+ *
+ * @param traceData - Parsed trace data
+ * @returns Trace index
+ */
+export function buildTraceIndex(traceData: TraceData): TraceIndex {
+	const actionsByCallId = new Map<string, ActionEvent>();
+	for (const action of traceData.actions) {
+		if (action.callId) {
+			actionsByCallId.set(action.callId, action);
+		}
+	}
+
+	const snapshotsByTime = traceData.snapshots
+		.filter(
+			(snapshot) =>
+				snapshot.htmlFile || snapshot.frameSnapshotIndex !== undefined,
+		)
+		.sort((a, b) => a.timestamp - b.timestamp);
+
+	const snapshotsByCallId = new Map<string, SnapshotEntry[]>();
+	for (const snapshot of snapshotsByTime) {
+		if (!snapshot.callId) continue;
+		const callSnapshots = snapshotsByCallId.get(snapshot.callId) || [];
+		callSnapshots.push(snapshot);
+		snapshotsByCallId.set(snapshot.callId, callSnapshots);
+	}
+
+	const networkByUrl = new Map<string, NetworkEvent[]>();
+	for (const event of traceData.network) {
+		const urlEvents = networkByUrl.get(event.url) || [];
+		urlEvents.push(event);
+		networkByUrl.set(event.url, urlEvents);
+	}
+
+	const consoleByTime = [...traceData.console].sort(
+		(a, b) => a.timestamp - b.timestamp,
+	);
+
+	const framesByTime = [...traceData.screencastFrames].sort(
+		(a, b) => a.timestamp - b.timestamp,
+	);
+	const framesByPage = new Map<string, ScreencastFrame[]>();
+	for (const frame of framesByTime) {
+		const pageFrames = framesByPage.get(frame.pageId) || [];
+		pageFrames.push(frame);
+		framesByPage.set(frame.pageId, pageFrames);
+	}
+
+	return {
+		traceData,
+		actionsByCallId,
+		snapshotsByTime,
+		snapshotsByCallId,
+		networkByUrl,
+		consoleByTime,
+		framesByTime,
+		framesByPage,
+	};
+}
+
+/**
+ * Get an action by its callId
+ *
+ * @param index - Trace index
+ * @param callId - Call id (e.g. "call@80")
+ * @returns Action or null if not found
+ */
+export function getActionByCallId(
+	index: TraceIndex,
+	callId: string,
+): ActionEvent | null {
+	return index.actionsByCallId.get(callId) || null;
+}
+
+/**
+ * Get the network events for a URL
+ *
+ * @param index - Trace index
+ * @param url - Exact request URL
+ * @returns Network events for the URL, oldest first
+ */
+export function getNetworkForUrl(
+	index: TraceIndex,
+	url: string,
+): NetworkEvent[] {
+	return index.networkByUrl.get(url) || [];
+}
+
+/**
+ * Get console messages logged in a time range
+ *
+ * @param index - Trace index
+ * @param startTime - Range start (inclusive, trace time)
+ * @param endTime - Range end (inclusive, trace time)
+ * @returns Console messages in the range, oldest first
+ */
+export function getConsoleBetween(
+	index: TraceIndex,
+	startTime: number,
+	endTime: number,
+): ConsoleEvent[] {
+	const messages = index.consoleByTime;
+	return messages.slice(
+		countUntil(messages, startTime, false),
+		countUntil(messages, endTime, true),
+	);
+}
+
+/**
+ * Get snapshots taken at or before a point in time, most recent first
+ *
+ * @param index - Trace index
+ * @param time - Trace time
+ * @returns Snapshots with HTML, most recent first
+ */
+export function getSnapshotsBefore(
+	index: TraceIndex,
+	time: number,
+): SnapshotEntry[] {
+	return index.snapshotsByTime
+		.slice(0, countUntil(index.snapshotsByTime, time, true))
+		.reverse();
+}
+
+/**
+ * Count events before a time (or at it, when inclusive) in a list sorted by
+ * timestamp
+ */
+export function countUntil(
+	events: Array<{ timestamp: number }>,
+	time: number,
+	inclusive: boolean,
+): number {
+	let low = 0;
+	let high = events.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		const timestamp = events[mid].timestamp;
+		if (timestamp < time || (inclusive && timestamp === time)) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+	return low;
+}
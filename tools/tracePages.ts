@@ -0,0 +1,252 @@
+/**
+ * Page and context model for Playwright traces
+ *
+ * Tests that open popups, new tabs or several browser contexts record events
+ * for several pages. Every action, snapshot, network request, console message
+ * and screencast frame carries the `pageId` it belongs to, so lookups can be
+ * scoped to the page the failure happened on (see FailureAnchor.pageId).
+ */
+
+import type { FrameInfo, PageInfo, TraceData } from "./readTrace";
+
+/**
+ * Build the pages of a trace: context, opener, lifetime, URL history, frames
+ *
+ * @param traceData - Parsed trace data (contexts, actions, snapshots, network)
+ * @returns Pages ordered by creation time
+ */
+export function buildPages(traceData: TraceData): PageInfo[] {
+	const pages = new Map<string, PageInfo>();
+
+	for (const context of traceData.contexts) {
+		for (const pageId of context.pageIds) {
+			pages.set(pageId, {
+				pageId,
+				contextId: context.contextId,
+				urls: [],
+				frames: [],
+			});
+		}
+	}
+
+	// Lifetimes from page events
+	for (const action of traceData.actions) {
+		if (action.type !== "event") continue;
+		const eventClass = action.metadata?.class;
+		const eventName = action.metadata?.name;
+		const params = (action.metadata?.params || {}) as Record<string, unknown>;
+
+		if (eventClass === "BrowserContext" && eventName === "page") {
+			const page = pages.get(String(params.pageId));
+			if (page) {
+				page.createdAt = action.timestamp;
+				if (typeof params.openerPageId === "string") {
+					page.openerPageId = params.openerPageId;
+				}
+			}
+		}
+
+		if (eventClass === "Page" && eventName === "close" && action.pageId) {
+			const page = pages.get(action.pageId);
+			if (page) {
+				page.closedAt = action.timestamp;
+			}
+		}
+	}
+
+	// Frames and main frame URL history from snapshots
+	const urlVisits = new Map<
+		string,
+		Array<{ url: string; timestamp: number }>
+	>();
+	for (const snapshot of traceData.snapshots) {
+		const page = snapshot.pageId ? pages.get(snapshot.pageId) : undefined;
+		if (!page || !snapshot.frameId) continue;
+
+		const isMainFrame = snapshot.isMainFrame ?? true;
+		upsertFrame(page, {
+			frameId: snapshot.frameId,
+			isMainFrame,
+			url: snapshot.url || undefined,
+		});
+
+		if (isMainFrame && snapshot.url) {
+			addUrlVisit(urlVisits, page.pageId, snapshot.url, snapshot.timestamp);
+		}
+	}
+
+	// Frames that only made requests
+	for (const event of traceData.network) {
+		const page = event.pageId ? pages.get(event.pageId) : undefined;
+		if (page && event.frameId) {
+			upsertFrame(page, { frameId: event.frameId, isMainFrame: false });
+		}
+	}
+
+	// Navigations requested by the test
+	for (const action of traceData.actions) {
+		if (action.action?.name === "goto" && action.pageId && action.action.url) {
+			addUrlVisit(
+				urlVisits,
+				action.pageId,
+				action.action.url,
+				action.endTime ?? action.timestamp,
+			);
+		}
+	}
+
+	for (const page of pages.values()) {
+		const visits = (urlVisits.get(page.pageId) || []).sort(
+			(a, b) => a.timestamp - b.timestamp,
+		);
+		page.urls = visits.filter(
+			(visit, index) => index === 0 || visits[index - 1].url !== visit.url,
+		);
+
+		// Pages that existed before tracing started have no `page` event
+		page.createdAt ??= getFirstActivity(traceData, page.pageId);
+	}
+
+	// Popups: the opener is the page whose action was in progress when the
+	// new page appeared
+	for (const page of pages.values()) {
+		if (page.openerPageId || page.createdAt === undefined) continue;
+		const createdAt = page.createdAt;
+
+		const opener = traceData.actions
+			.filter(
+				(action) =>
+					action.type === "action" &&
+					action.pageId &&
+					action.pageId !== page.pageId &&
+					pages.get(action.pageId)?.contextId === page.contextId &&
+					(action.startTime ?? action.timestamp) <= createdAt &&
+					(action.endTime ?? Number.POSITIVE_INFINITY) >= createdAt,
+			)
+			.pop();
+		page.openerPageId = opener?.pageId;
+	}
+
+	return [...pages.values()].sort(
+		(a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0),
+	);
+}
+
+/**
+ * Get a page by id
+ *
+ * @param traceData - Parsed trace data
+ * @param pageId - Page id
+ * @returns Page or null if not found
+ */
+export function getPage(traceData: TraceData, pageId: string): PageInfo | null {
+	return traceData.pages.find((page) => page.pageId === pageId) || null;
+}
+
+/**
+ * Get the URL a page was showing at a point in time
+ *
+ * @param page - Page
+ * @param timestamp - Trace time
+ * @returns URL or null if the page had not navigated yet
+ */
+export function getPageUrlAt(page: PageInfo, timestamp: number): string | null {
+	let url: string | null = null;
+	for (const visit of page.urls) {
+		if (visit.timestamp > timestamp) break;
+		url = visit.url;
+	}
+	return url;
+}
+
+/**
+ * Restrict trace data to one page
+ *
+ * Events without a pageId (older traces, context-level requests) cannot be
+ * attributed to a page and are kept.
+ *
+ * @param traceData - Parsed trace data
+ * @param pageId - Page to keep
+ * @returns Trace data with only the events of that page
+ */
+export function scopeTraceToPage(
+	traceData: TraceData,
+	pageId: string,
+): TraceData {
+	const onPage = (event: { pageId?: string }) =>
+		!event.pageId || event.pageId === pageId;
+
+	const page = getPage(traceData, pageId);
+	const context = traceData.contexts.find(
+		(c) => c.contextId === page?.contextId,
+	);
+
+	return {
+		...traceData,
+		actions: traceData.actions.filter(onPage),
+		network: traceData.network.filter(onPage),
+		console: traceData.console.filter(onPage),
+		snapshots: traceData.snapshots.filter(onPage),
+		screencastFrames: traceData.screencastFrames.filter(onPage),
+		pages: page ? [page] : [],
+		metadata: {
+			...traceData.metadata,
+			browser: context?.browser ?? traceData.metadata?.browser,
+			viewport: context?.viewport ?? traceData.metadata?.viewport,
+		},
+	};
+}
+
+/**
+ * Add a frame to a page, or update its URL if already known
+ */
+function upsertFrame(page: PageInfo, frame: FrameInfo): void {
+	const existing = page.frames.find((f) => f.frameId === frame.frameId);
+	if (!existing) {
+		page.frames.push(frame);
+		return;
+	}
+
+	existing.isMainFrame ||= frame.isMainFrame;
+	existing.url = frame.url ?? existing.url;
+}
+
+/**
+ * Record that a page showed a URL at a point in time
+ */
+function addUrlVisit(
+	urlVisits: Map<string, Array<{ url: string; timestamp: number }>>,
+	pageId: string,
+	url: string,
+	timestamp: number,
+): void {
+	const visits = urlVisits.get(pageId) || [];
+	visits.push({ url, timestamp });
+	urlVisits.set(pageId, visits);
+}
+
+/**
+ * Get the earliest recorded activity of a page
+ */
+function getFirstActivity(
+	traceData: TraceData,
+	pageId: string,
+): number | undefined {
+	let first: number | undefined;
+	for (const events of [
+		traceData.actions,
+		traceData.snapshots,
+		traceData.screencastFrames,
+	]) {
+		for (const event of events) {
+			if (
+				event.pageId === pageId &&
+				(first === undefined || event.timestamp < first)
+			) {
+				first = event.timestamp;
+			}
+		}
+	}
+
+	return first;
+}
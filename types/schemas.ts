@@ -34,6 +34,145 @@ const TestFailureFactsSchemaForAI = z.object({
 		.describe("Stack trace lines, or null if not available"),
 });
 
+/**
+ * Trace action a failure was resolved to (see tools/resolveFailureAnchor.ts)
+ */
+export const FailureAnchorSchema = z.object({
+	callId: z.string().optional().describe("callId of the failing trace action"),
+	timestamp: z.number().describe("Failure time (trace monotonic time, ms)"),
+	pageId: z.string().optional().describe("Page the failing action ran on"),
+	matchedBy: z
+		.array(z.string())
+		.describe(
+			"Signals that matched the action (location, error, apiName, selector); empty when falling back to the trace end",
+		),
+});
+
+export type FailureAnchor = z.infer<typeof FailureAnchorSchema>;
+
+/**
+ * One run of a test (the first run is retry 0)
+ */
+export const TestAttemptSchema = z.object({
+	retry: z.number().describe("Retry index of the attempt, 0 for the first run"),
+	status: z
+		.enum(["passed", "failed", "timedOut", "skipped", "interrupted"])
+		.describe("Result of the attempt"),
+	duration: z.number().optional().describe("Attempt duration in milliseconds"),
+	error: z.string().optional().describe("Error message of a failed attempt"),
+});
+
+export type TestAttempt = z.infer<typeof TestAttemptSchema>;
+
+/**
+ * Source lines around the failure, from the report's error snippet
+ */
+export const SourceSnippetSchema = z.object({
+	lines: z
+		.array(
+			z.object({
+				lineNumber: z.number(),
+				text: z.string(),
+			}),
+		)
+		.describe("Source lines in order"),
+	highlightedLine: z.number().describe("Line number of the failing line"),
+	column: z
+		.number()
+		.optional()
+		.describe("Column marked on the failing line (1-based)"),
+});
+
+export type SourceSnippet = z.infer<typeof SourceSnippetSchema>;
+
+/**
+ * One error of a test result (soft assertions and teardown errors add more
+ * than one)
+ */
+export const TestErrorSchema = z.object({
+	message: z.string().describe("The error message"),
+	failedStep: z.string().describe("The step that raised the error"),
+	file: z.string().optional().describe("File the error was raised in"),
+	lineNumber: z.number().optional().describe("Line the error was raised at"),
+	columnNumber: z
+		.number()
+		.optional()
+		.describe("Column the error was raised at"),
+	snippet: SourceSnippetSchema.optional().describe(
+		"Source lines around the failing line",
+	),
+});
+
+export type TestError = z.infer<typeof TestErrorSchema>;
+
+/**
+ * File attached to a test result (trace, screenshot, video, ...)
+ */
+export const ReportAttachmentSchema = z.object({
+	name: z.string().describe('Attachment name, e.g. "trace" or "screenshot"'),
+	contentType: z.string().describe("MIME type of the attachment"),
+	path: z
+		.string()
+		.describe("Path of the file on the machine that ran the tests"),
+});
+
+export type ReportAttachment = z.infer<typeof ReportAttachmentSchema>;
+
+/**
+ * Outcome of a test across its attempts
+ * - failed: failed on its only attempt
+ * - flaky: failed, then passed on a retry
+ * - failed-consistently: failed on every attempt, retries included
+ */
+export const TestOutcomeSchema = z.enum([
+	"failed",
+	"flaky",
+	"failed-consistently",
+]);
+
+export type TestOutcome = z.infer<typeof TestOutcomeSchema>;
+
+/**
+ * Where a failure happened
+ * - test: the test body
+ * - hook: a beforeAll/beforeEach/afterAll/afterEach hook
+ * - fixture: setting up or tearing down a fixture
+ * - global: globalSetup, a setup project or the webServer, before any test
+ * - worker: the worker process crashed
+ */
+export const FailureScopeSchema = z.enum([
+	"test",
+	"hook",
+	"fixture",
+	"global",
+	"worker",
+]);
+
+export type FailureScope = z.infer<typeof FailureScopeSchema>;
+
+/**
+ * Test annotation, e.g. { type: "issue", description: "https://..." } or
+ * { type: "slow" }
+ */
+export const TestAnnotationSchema = z.object({
+	type: z.string().describe('Annotation type, e.g. "fixme", "slow", "issue"'),
+	description: z.string().optional().describe("Annotation description"),
+});
+
+export type TestAnnotation = z.infer<typeof TestAnnotationSchema>;
+
+/**
+ * Outcome of the same test in one project of the run
+ */
+export const ProjectResultSchema = z.object({
+	projectName: z.string().describe('Project name, e.g. "webkit"'),
+	outcome: z
+		.enum(["passed", "failed", "flaky", "skipped"])
+		.describe("Outcome of the test in that project"),
+});
+
+export type ProjectResult = z.infer<typeof ProjectResultSchema>;
+
 // Schema for internal use (optional fields)
 export const TestFailureFactsSchema = z.object({
 	testName: z.string().describe("The name of the failed test"),
@@ -53,6 +192,81 @@ export const TestFailureFactsSchema = z.object({
 		.optional()
 		.describe("Column number where the failure occurred"),
 	stackTrace: z.array(z.string()).optional().describe("Stack trace lines"),
+	stepPath: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Titles of the enclosing test steps, outermost first, ending with the failed step",
+		),
+	failureAnchor: FailureAnchorSchema.optional().describe(
+		"Trace action this failure was resolved to",
+	),
+	attempts: z
+		.array(TestAttemptSchema)
+		.optional()
+		.describe("Every attempt of the test, in retry order"),
+	outcome: TestOutcomeSchema.optional().describe(
+		"Outcome of the test across its attempts",
+	),
+	attachments: z
+		.array(ReportAttachmentSchema)
+		.optional()
+		.describe("Files attached to the failed attempt"),
+	snippet: SourceSnippetSchema.optional().describe(
+		"Source lines around the failing line",
+	),
+	stdout: z
+		.array(z.string())
+		.optional()
+		.describe("Lines the failed attempt wrote to stdout"),
+	stderr: z
+		.array(z.string())
+		.optional()
+		.describe("Lines the failed attempt wrote to stderr"),
+	consoleLogs: z
+		.array(z.string())
+		.optional()
+		.describe("Lines of console log attachments of the failed attempt"),
+	errors: z
+		.array(TestErrorSchema)
+		.optional()
+		.describe(
+			"All errors of the failed attempt when there is more than one; the first is described by error, lineNumber and snippet",
+		),
+	projectName: z
+		.string()
+		.optional()
+		.describe('Playwright project the test ran in, e.g. "chromium"'),
+	projectId: z.string().optional().describe("Playwright project id"),
+	tags: z
+		.array(z.string())
+		.optional()
+		.describe('Test tags, e.g. ["@smoke", "@flaky"]'),
+	annotations: z
+		.array(TestAnnotationSchema)
+		.optional()
+		.describe("Test annotations (fixme, slow, issue links, ...)"),
+	projectResults: z
+		.array(ProjectResultSchema)
+		.optional()
+		.describe(
+			"Outcome of the same test in every project of the run, when it ran in more than one",
+		),
+	scope: FailureScopeSchema.optional().describe(
+		"Where the failure happened: test body, hook, fixture, global setup or worker",
+	),
+	scopeName: z
+		.string()
+		.optional()
+		.describe(
+			'Hook, fixture or setup that failed, e.g. "beforeAll hook", \'fixture "page"\', "globalSetup"',
+		),
+	affectedTests: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Failed tests that depend on this global failure; they are reported here instead of analyzed one by one",
+		),
 });
 
 export type TestFailureFacts = z.infer<typeof TestFailureFactsSchema>;
@@ -81,34 +295,205 @@ export const PlaywrightArtifactsSchema = z.object({
 		.string()
 		.optional()
 		.describe("Optional manual context provided by user"),
+	bundleFiles: z
+		.array(
+			z.object({
+				path: z.string().describe("Path of the file inside the bundle"),
+				data: z.instanceof(Buffer),
+			}),
+		)
+		.optional()
+		.describe(
+			"Trace, image and video files of an uploaded bundle, used to resolve report attachments",
+		),
+	rulesFile: z
+		.object({
+			name: z.string(),
+			content: z.string(),
+		})
+		.optional()
+		.describe("Classification rules file of an uploaded bundle"),
 });
 
 export type PlaywrightArtifacts = z.infer<typeof PlaywrightArtifactsSchema>;
 
+/**
+ * Browser and context options of a project (`use` in playwright.config.ts)
+ */
+export const RunUseOptionsSchema = z.object({
+	baseURL: z.string().optional().describe("Base URL of page.goto('/path')"),
+	viewport: z
+		.object({ width: z.number(), height: z.number() })
+		.nullable()
+		.optional()
+		.describe("Viewport size, null for no fixed viewport"),
+	locale: z.string().optional().describe('Browser locale, e.g. "en-US"'),
+	timezoneId: z.string().optional().describe("Browser timezone"),
+	browserName: z.string().optional().describe("chromium, firefox or webkit"),
+	channel: z.string().optional().describe('Browser channel, e.g. "chrome"'),
+	headless: z.boolean().optional(),
+	actionTimeout: z
+		.number()
+		.optional()
+		.describe("Timeout of each action in ms; 0 or absent for no limit"),
+	navigationTimeout: z
+		.number()
+		.optional()
+		.describe("Timeout of each navigation in ms; 0 or absent for no limit"),
+	testIdAttribute: z
+		.string()
+		.optional()
+		.describe("Attribute getByTestId matches, data-testid by default"),
+});
+
+export type RunUseOptions = z.infer<typeof RunUseOptionsSchema>;
+
+/**
+ * Settings of one project of the run, with the config-level settings it
+ * inherits
+ */
+export const RunProjectSchema = z.object({
+	name: z
+		.string()
+		.describe("Project name; empty for a config without projects"),
+	testDir: z.string().optional(),
+	timeout: z.number().optional().describe("Test timeout in ms"),
+	expectTimeout: z.number().optional().describe("expect() timeout in ms"),
+	retries: z.number().optional(),
+	repeatEach: z.number().optional(),
+	dependencies: z
+		.array(z.string())
+		.optional()
+		.describe("Setup projects it runs after"),
+	use: RunUseOptionsSchema.optional(),
+});
+
+export type RunProject = z.infer<typeof RunProjectSchema>;
+
+/**
+ * Configuration of the run, from the report's config block
+ */
+export const RunContextSchema = z.object({
+	playwrightVersion: z.string().optional(),
+	configFile: z.string().optional().describe("Path of playwright.config.ts"),
+	rootDir: z.string().optional(),
+	workers: z.number().optional(),
+	fullyParallel: z.boolean().optional(),
+	forbidOnly: z.boolean().optional(),
+	globalTimeout: z
+		.number()
+		.optional()
+		.describe("Timeout of the whole run in ms; 0 for no limit"),
+	maxFailures: z.number().optional(),
+	metadata: z
+		.record(z.string(), z.unknown())
+		.optional()
+		.describe("Config metadata, e.g. git commit or CI info"),
+	projects: z.array(RunProjectSchema),
+});
+
+export type RunContext = z.infer<typeof RunContextSchema>;
+
+/**
+ * Specific failure type, refining one of the six top-level categories (see
+ * tools/failureTaxonomy.ts for the parent of each)
+ */
+export const FailureSubcategorySchema = z.enum([
+	"strict_mode_violation",
+	"element_detached",
+	"element_not_stable",
+	"pointer_intercepted",
+	"page_crash",
+	"page_error",
+	"network_error",
+	"test_data_conflict",
+	"visual_mismatch",
+	"environment_error",
+]);
+
+export type FailureSubcategory = z.infer<typeof FailureSubcategorySchema>;
+
+/**
+ * Top-level failure category
+ */
+const FailureCategoryNameSchema = z
+	.enum([
+		"selector_not_found",
+		"timeout",
+		"assertion_failed",
+		"navigation_error",
+		"auth_error",
+		"unknown",
+	])
+	.describe("The type of failure");
+
+/**
+ * Candidate category of a failure, with the evidence for it
+ */
+export const CategoryCandidateSchema = z.object({
+	category: FailureCategoryNameSchema,
+	subcategory: FailureSubcategorySchema.optional(),
+	confidence: z.number().min(0).max(1).describe("Score of the candidate"),
+	evidence: z
+		.array(z.string())
+		.describe("Patterns, rules or signals supporting the candidate"),
+});
+
+export type CategoryCandidate = z.infer<typeof CategoryCandidateSchema>;
+
 /**
  * Output from Failure Classification Agent (for Phase 2)
  */
 export const FailureCategorySchema = z.object({
-	category: z
-		.enum([
-			"selector_not_found",
-			"timeout",
-			"assertion_failed",
-			"navigation_error",
-			"auth_error",
-			"unknown",
-		])
-		.describe("The type of failure"),
+	category: FailureCategoryNameSchema,
+	subcategory: FailureSubcategorySchema.optional().describe(
+		"Specific failure type within the category, if one applies",
+	),
 	confidence: z
 		.number()
 		.min(0)
 		.max(1)
 		.describe("Confidence score between 0 and 1"),
 	reasoning: z.string().describe("Explanation of why this category was chosen"),
+	label: z
+		.string()
+		.optional()
+		.describe("Custom label of the user rule that matched"),
+	ruleId: z.string().optional().describe("Id of the user rule that matched"),
+	candidates: z
+		.array(CategoryCandidateSchema)
+		.optional()
+		.describe(
+			"Candidate categories ranked by confidence; the first is the category above",
+		),
 });
 
 export type FailureCategory = z.infer<typeof FailureCategorySchema>;
 
+// Schema for OpenAI structured output (requires nullable instead of optional)
+export const FailureCategorySchemaForAI = z.object({
+	category: FailureCategoryNameSchema,
+	subcategory: FailureSubcategorySchema.nullable().describe(
+		"Specific failure type within the category, or null if none applies",
+	),
+	confidence: z
+		.number()
+		.min(0)
+		.max(1)
+		.describe("Confidence score between 0 and 1"),
+	reasoning: z.string().describe("Explanation of why this category was chosen"),
+	candidates: z
+		.array(
+			CategoryCandidateSchema.extend({
+				subcategory: FailureSubcategorySchema.nullable(),
+			}),
+		)
+		.nullable()
+		.describe(
+			"Other plausible categories ranked by confidence, or null if there are none",
+		),
+});
+
 /**
  * Output from Artifact Correlation Agent (for Phase 3)
  */
@@ -120,6 +505,12 @@ export const ArtifactSignalsSchema = z.object({
 	blockingFactors: z
 		.array(z.string())
 		.describe("Factors that may have blocked the test"),
+	testOutput: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Lines of the test's stdout, stderr and console logs related to the failure (stack traces, HTTP and connection errors)",
+		),
 });
 
 export type ArtifactSignals = z.infer<typeof ArtifactSignalsSchema>;
@@ -140,6 +531,146 @@ export const FinalDiagnosisSchema = z.object({
 
 export type FinalDiagnosis = z.infer<typeof FinalDiagnosisSchema>;
 
+/**
+ * Longest regular expression a rule condition may have
+ */
+const MAX_RULE_PATTERN_LENGTH = 200;
+
+/**
+ * Check if a regular expression repeats a group that can match the same text
+ * in more than one way: a group that itself repeats, e.g. "(a+)+" or
+ * "(\w+\s?)*", or that has alternatives, e.g. "(a|a)+". Such patterns can
+ * backtrack exponentially on a long error message (ReDoS)
+ */
+function hasAmbiguousRepetition(pattern: string): boolean {
+	// Whether each open group, innermost last, contains a quantifier or "|"
+	const groups: boolean[] = [];
+	const markAmbiguous = () => {
+		if (groups.length > 0) {
+			groups[groups.length - 1] = true;
+		}
+	};
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "\\") {
+			i++;
+		} else if (char === "[") {
+			// Character class: quantifier characters are literal
+			for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+				if (pattern[i] === "\\") i++;
+			}
+		} else if (char === "(") {
+			groups.push(false);
+			if (pattern[i + 1] === "?") i++; // (?:, (?=, (?<name>
+		} else if (char === ")") {
+			const next = pattern[i + 1];
+			if (groups.pop()) {
+				if (next === "+" || next === "*" || next === "{") {
+					return true;
+				}
+				markAmbiguous();
+			}
+		} else if (
+			char === "+" ||
+			char === "*" ||
+			char === "{" ||
+			char === "?" ||
+			char === "|"
+		) {
+			markAmbiguous();
+		}
+	}
+	return false;
+}
+
+/**
+ * Regular expression of a rule condition (case-insensitive)
+ *
+ * Rules files can come with an uploaded bundle, so patterns are kept short
+ * and without the constructs that make matching take exponential time.
+ */
+const RulePatternSchema = z
+	.string()
+	.max(
+		MAX_RULE_PATTERN_LENGTH,
+		`Pattern is longer than ${MAX_RULE_PATTERN_LENGTH} characters`,
+	)
+	.refine(
+		(pattern) => {
+			try {
+				new RegExp(pattern, "i");
+				return true;
+			} catch {
+				return false;
+			}
+		},
+		{ message: "Invalid regular expression" },
+	)
+	.refine((pattern) => !hasAmbiguousRepetition(pattern), {
+		message:
+			'Repeated groups with quantifiers or alternatives, such as "(a+)+" or "(a|b)+", are not allowed',
+	})
+	.refine((pattern) => !/\\(?:[1-9]|k<)/.test(pattern), {
+		message: "Backreferences are not allowed",
+	});
+
+/**
+ * User-defined classification rule, from a rules file
+ *
+ * Every condition given must match; console and network match any line.
+ */
+export const ClassificationRuleSchema = z
+	.object({
+		id: z.string().min(1).describe("Rule id, shown in the reasoning"),
+		description: z.string().optional(),
+		match: z
+			.object({
+				error: RulePatternSchema.optional(),
+				step: RulePatternSchema.optional(),
+				stack: RulePatternSchema.optional(),
+				url: RulePatternSchema.optional().describe(
+					"URL of the page at the failure",
+				),
+				console: RulePatternSchema.optional().describe(
+					"Console messages and console log attachments",
+				),
+				network: RulePatternSchema.optional().describe(
+					'Network requests as "METHOD url status", e.g. "POST https://api/graphql 200"',
+				),
+			})
+			.strict()
+			.refine((match) => Object.values(match).some(Boolean), {
+				message: "A rule needs at least one match condition",
+			}),
+		category: FailureCategoryNameSchema.optional(),
+		subcategory: FailureSubcategorySchema.optional(),
+		label: z.string().optional().describe('Custom label, e.g. "graphql_error"'),
+		confidence: z.number().min(0).max(1).default(0.9),
+		verdict: FinalDiagnosisSchema.shape.verdict.optional(),
+		action: z.string().optional().describe("Recommended action override"),
+		urgency: FinalDiagnosisSchema.shape.urgency.optional(),
+	})
+	.strict()
+	.refine((rule) => rule.category || rule.subcategory || rule.label, {
+		message: "A rule needs a category, subcategory or label",
+	});
+
+export type ClassificationRule = z.infer<typeof ClassificationRuleSchema>;
+
+/**
+ * Rules file: { rules: [...] }
+ */
+export const ClassificationRulesFileSchema = z
+	.object({
+		rules: z.array(ClassificationRuleSchema),
+	})
+	.refine(
+		(file) =>
+			new Set(file.rules.map((rule) => rule.id)).size === file.rules.length,
+		{ message: "Rule ids must be unique" },
+	);
+
 /**
  * Schema for array of test failures (multiple tests can fail in one run)
  */
@@ -202,6 +733,112 @@ export const SolutionSuggestionSchema = z.object({
 		.min(0)
 		.max(1)
 		.describe("Confidence in the solution (0-1)"),
+	inheritedFrom: z
+		.string()
+		.optional()
+		.describe(
+			"Failure the solution was made for, when it is shared by a cluster member; its code is left out, since it is from that failure's file",
+		),
 });
 
 export type SolutionSuggestion = z.infer<typeof SolutionSuggestionSchema>;
+
+/**
+ * Analysis of one error of a failure with several errors
+ */
+export const ErrorAnalysisSchema = z.object({
+	error: TestErrorSchema,
+	category: FailureCategorySchema,
+	diagnosis: FinalDiagnosisSchema,
+	solution: SolutionSuggestionSchema.nullable(),
+});
+
+export type ErrorAnalysis = z.infer<typeof ErrorAnalysisSchema>;
+
+/**
+ * Failures sharing a root cause: the same error signature on the same
+ * selector and page
+ */
+export const FailureClusterSchema = z.object({
+	id: z.string().describe("Hash of the cluster key"),
+	fingerprint: z
+		.string()
+		.describe(
+			"Error signature without ids, numbers, timestamps and quoted text",
+		),
+	selector: z.string().optional().describe("Selector of the failing action"),
+	url: z.string().optional().describe("Page URL at the failure, normalized"),
+	location: z
+		.string()
+		.optional()
+		.describe(
+			"Test file and line, when there is no selector or URL to cluster on",
+		),
+	outcome: TestOutcomeSchema.optional(),
+	scope: z
+		.string()
+		.optional()
+		.describe('Where the failures happened, e.g. "beforeEach hook"'),
+	representativeIndex: z
+		.number()
+		.describe("Index of the failure analyzed in depth"),
+	memberIndexes: z
+		.array(z.number())
+		.describe(
+			"Indexes of every failure of the cluster, the representative included",
+		),
+});
+
+export type FailureCluster = z.infer<typeof FailureClusterSchema>;
+
+/**
+ * Agent (or tool) that calls an LLM; "default" applies to every role
+ * without a model of its own
+ */
+export const ModelRoleSchema = z.enum([
+	"default",
+	"reportDecomposer",
+	"failureClassifier",
+	"artifactCorrelator",
+	"selectorHeuristics",
+	"actionSynthesizer",
+	"solutionSuggester",
+	"screenshot",
+	"chat",
+]);
+
+export type ModelRole = z.infer<typeof ModelRoleSchema>;
+
+/**
+ * Model reference, "provider:model", e.g. "ollama:llama3.1"
+ */
+const ModelRefSchema = z
+	.string()
+	.regex(/^[\w.-]+:.+$/, 'Expected "provider:model", e.g. "openai:gpt-4o"');
+
+/**
+ * LLM provider of a models file
+ */
+export const LlmProviderSchema = z.object({
+	type: z.enum(["openai", "anthropic", "azure", "openai-compatible"]),
+	baseURL: z.url().optional(),
+	apiKeyEnv: z
+		.string()
+		.optional()
+		.describe("Environment variable holding the API key"),
+	resourceName: z.string().optional().describe("Azure OpenAI resource name"),
+});
+
+export type LlmProvider = z.infer<typeof LlmProviderSchema>;
+
+/**
+ * Models file (pwsniffer.models.json or .yaml): providers, the model of
+ * each role and the models to fall back to
+ */
+export const ModelsConfigSchema = z.object({
+	providers: z.record(z.string(), LlmProviderSchema).default({}),
+	models: z.partialRecord(ModelRoleSchema, ModelRefSchema).default({}),
+	fallback: z.array(ModelRefSchema).default([]),
+});
+
+export type ModelsConfig = z.infer<typeof ModelsConfigSchema>;